@@ -0,0 +1,385 @@
+'use client';
+
+/**
+ * Next Nice DataTable - Bulk Actions Bar
+ * Contextual toolbar shown while several rows are selected. Runs consumer
+ * actions (optionally after a confirmation), shows their progress and then
+ * lists which rows succeeded and which failed.
+ *
+ * @author Stellarx Team
+ * @version 2.1.0
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Collapse,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  LinearProgress,
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+  Stack,
+  Typography,
+  alpha,
+  useTheme,
+} from '@mui/material';
+import {
+  Delete,
+  Description,
+  Download,
+  GridOn,
+  PictureAsPdf,
+  TextSnippet,
+} from '@mui/icons-material';
+import {
+  BulkAction,
+  BulkActionRowResult,
+  BulkActionsConfig,
+  DataTableLocaleText,
+  ExportFormat,
+  SelectionModel,
+} from './types';
+import { getExportFormatLabel } from './exportUtils';
+
+export interface BulkActionsBarProps<T> {
+  config: BulkActionsConfig<T>;
+  /** Loaded selected rows */
+  selectedRows: T[];
+  /** The full selection, which may cover rows that are not loaded */
+  selection: SelectionModel;
+  onSelectionChange: (rows: T[]) => void;
+  /** The table's single-row delete, run for each row when the config has no `onDelete` */
+  onDeleteRow?: (row: T) => void | Promise<void>;
+  /** Label of the built-in delete (default: the locale's) */
+  deleteLabel?: string;
+  /** Formats offered by "Export selected"; empty hides it */
+  exportFormats: readonly ExportFormat[];
+  onExport: (format: ExportFormat, rows: T[]) => void;
+  getRowLabel: (row: T) => string;
+  /** Called once an action has succeeded for at least one row */
+  onActionComplete?: () => void;
+  localeText: DataTableLocaleText;
+  /** Text direction of the menu and dialog, which render outside the table */
+  dir?: 'ltr' | 'rtl';
+}
+
+interface BulkRun<T> {
+  label: string;
+  total: number;
+  done: number;
+  /** False while a batch handler has not reported progress yet */
+  progressKnown: boolean;
+  /** Set once the action has finished */
+  results: BulkActionRowResult<T>[] | null;
+  failedCount: number;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+function getErrorMessage(err: unknown, fallback: string): string {
+  return err instanceof Error ? err.message : String(err ?? fallback);
+}
+
+/** Call `handler` for every row, at most `concurrency` at a time. */
+async function runPerRow<T>(
+  rows: T[],
+  handler: (row: T) => void | Promise<void>,
+  concurrency: number,
+  onProgress: (done: number) => void,
+  fallbackError: string
+): Promise<BulkActionRowResult<T>[]> {
+  const results: BulkActionRowResult<T>[] = new Array(rows.length);
+  let next = 0;
+  let done = 0;
+  const worker = async () => {
+    while (next < rows.length) {
+      const index = next++;
+      const row = rows[index];
+      try {
+        await handler(row);
+        results[index] = { row, success: true };
+      } catch (err) {
+        results[index] = { row, success: false, error: getErrorMessage(err, fallbackError) };
+      }
+      onProgress(++done);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, rows.length)) }, worker));
+  return results;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export default function BulkActionsBar<T>({
+  config,
+  selectedRows,
+  selection,
+  onSelectionChange,
+  onDeleteRow,
+  deleteLabel: deleteLabelProp,
+  exportFormats,
+  onExport,
+  getRowLabel,
+  onActionComplete,
+  localeText,
+  dir,
+}: BulkActionsBarProps<T>) {
+  const theme = useTheme();
+  const [pending, setPending] = useState<{ action: BulkAction<T>; rows: T[]; selection: SelectionModel } | null>(null);
+  const [run, setRun] = useState<BulkRun<T> | null>(null);
+  const [showFailures, setShowFailures] = useState(false);
+  const [exportAnchorEl, setExportAnchorEl] = useState<HTMLElement | null>(null);
+  const mountedRef = useRef(true);
+
+  useEffect(() => () => { mountedRef.current = false; }, []);
+
+  const {
+    actions = [],
+    minSelection = 2,
+    showDelete = true,
+    showExport = true,
+    concurrency = DEFAULT_CONCURRENCY,
+  } = config;
+
+  const { count, allMatching } = selection;
+  const deleteLabel = deleteLabelProp ?? localeText.actionDelete;
+  const running = !!run && run.results === null;
+
+  // -------------------------------------------------------------------------
+  // ACTIONS – consumer actions plus the built-in delete
+  // -------------------------------------------------------------------------
+
+  const deleteAction: BulkAction<T> | null = showDelete && (config.onDelete || onDeleteRow)
+    ? {
+        id: 'delete',
+        label: localeText.bulkDelete(deleteLabel),
+        icon: <Delete />,
+        color: 'error',
+        confirm: {
+          title: localeText.bulkDeleteConfirmTitle(deleteLabel, count),
+          message: localeText.bulkDeleteConfirmMessage,
+          confirmLabel: deleteLabel,
+        },
+        onExecute: config.onDelete,
+        onExecuteRow: config.onDelete ? undefined : onDeleteRow,
+      }
+    : null;
+
+  const allActions = deleteAction ? [...actions, deleteAction] : actions;
+
+  // Row-by-row work can only reach loaded rows, so it waits for an explicit selection
+  const isActionDisabled = (action: BulkAction<T>) =>
+    running
+    || (allMatching && !!action.onExecuteRow)
+    || (typeof action.disabled === 'function' ? action.disabled(selectedRows) : !!action.disabled);
+
+  const execute = async (action: BulkAction<T>, rows: T[], model: SelectionModel) => {
+    setShowFailures(false);
+    setRun({
+      label: action.label,
+      total: model.allMatching ? model.count : rows.length,
+      done: 0,
+      progressKnown: !!action.onExecuteRow,
+      results: null,
+      failedCount: 0,
+    });
+    const setDone = (done: number) => {
+      if (mountedRef.current) setRun(prev => (prev ? { ...prev, done, progressKnown: true } : prev));
+    };
+
+    let results: BulkActionRowResult<T>[];
+    let rejected = false;
+    if (action.onExecuteRow) {
+      results = await runPerRow(rows, action.onExecuteRow, concurrency, setDone, localeText.bulkRowFailed);
+    } else {
+      try {
+        const returned = await action.onExecute?.(rows, setDone, model);
+        results = returned ?? rows.map(row => ({ row, success: true }));
+      } catch (err) {
+        const error = getErrorMessage(err, localeText.bulkRowFailed);
+        results = rows.map(row => ({ row, success: false, error }));
+        rejected = true;
+      }
+    }
+
+    const failedCount = results.filter(result => !result.success).length;
+    if (!rejected && failedCount < results.length) onActionComplete?.();
+    if (!mountedRef.current) return;
+    setRun(prev => (prev
+      ? { ...prev, done: prev.total, results, failedCount: rejected ? prev.total : failedCount }
+      : prev));
+    // A rejection failed every row, so the selection already is the failed rows
+    if (action.clearSelection !== false && !rejected) {
+      onSelectionChange(results.filter(result => !result.success).map(result => result.row));
+    }
+  };
+
+  const startAction = (action: BulkAction<T>) => {
+    if (action.confirm) setPending({ action, rows: selectedRows, selection });
+    else void execute(action, selectedRows, selection);
+  };
+
+  const confirmPending = () => {
+    if (!pending) return;
+    setPending(null);
+    void execute(pending.action, pending.rows, pending.selection);
+  };
+
+  if (count < minSelection && !run && !pending) return null;
+
+  // -------------------------------------------------------------------------
+  // RENDER HELPERS
+  // -------------------------------------------------------------------------
+
+  const confirmation = pending && typeof pending.action.confirm === 'object' ? pending.action.confirm : {};
+  const confirmMessage = typeof confirmation.message === 'function'
+    ? confirmation.message(pending?.rows ?? [])
+    : confirmation.message ?? localeText.bulkConfirmMessage(pending?.selection.count ?? 0);
+
+  const failures = run?.results?.filter(result => !result.success) ?? [];
+  const failedCount = run?.failedCount ?? 0;
+  const successCount = (run?.total ?? 0) - failedCount;
+
+  return (
+    <Box
+      role="region"
+      aria-label={localeText.bulkActionsLabel}
+      sx={{
+        px: { xs: 2, sm: 3 },
+        py: 1,
+        borderBottom: '1px solid',
+        borderColor: 'divider',
+        bgcolor: alpha(theme.palette.primary.main, 0.08),
+      }}
+    >
+      {count >= minSelection && (
+        <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap>
+          <Typography variant="body2" sx={{ fontWeight: 600, mr: 1 }}>
+            {localeText.selectionCount(count)}
+          </Typography>
+          {allActions.map(action => (
+            <Button
+              key={action.id}
+              size="small"
+              variant="outlined"
+              color={action.color ?? 'primary'}
+              startIcon={action.icon}
+              disabled={isActionDisabled(action)}
+              onClick={() => startAction(action)}
+            >
+              {action.label}
+            </Button>
+          ))}
+          {showExport && exportFormats.length > 0 && (
+            <>
+              <Button
+                size="small"
+                variant="outlined"
+                startIcon={<Download />}
+                disabled={running || allMatching}
+                onClick={(e) => setExportAnchorEl(e.currentTarget)}
+              >
+                {localeText.bulkExport}
+              </Button>
+              <Menu
+                anchorEl={exportAnchorEl}
+                open={Boolean(exportAnchorEl)}
+                onClose={() => setExportAnchorEl(null)}
+                dir={dir}
+              >
+                {exportFormats.map(format => (
+                  <MenuItem
+                    key={format}
+                    onClick={() => {
+                      onExport(format, selectedRows);
+                      setExportAnchorEl(null);
+                    }}
+                  >
+                    <ListItemIcon>
+                      {format === 'pdf'   ? <PictureAsPdf fontSize="small" /> :
+                       format === 'excel' ? <GridOn fontSize="small" /> :
+                       format === 'word'  ? <Description fontSize="small" /> :
+                                           <TextSnippet fontSize="small" />}
+                    </ListItemIcon>
+                    <ListItemText primary={localeText.toolbarExportAs(getExportFormatLabel(format))} />
+                  </MenuItem>
+                ))}
+              </Menu>
+            </>
+          )}
+          <Box sx={{ flexGrow: 1 }} />
+          <Button size="small" disabled={running} onClick={() => onSelectionChange([])}>
+            {localeText.selectionClear}
+          </Button>
+        </Stack>
+      )}
+
+      {/* Progress */}
+      {running && run && (
+        <Box sx={{ py: 1 }} role="status">
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 0.5 }}>
+            {run.progressKnown ? localeText.bulkProgress(run.label, run.done, run.total) : `${run.label}…`}
+          </Typography>
+          <LinearProgress
+            variant={run.progressKnown ? 'determinate' : 'indeterminate'}
+            value={run.total > 0 ? (run.done / run.total) * 100 : 0}
+          />
+        </Box>
+      )}
+
+      {/* Results */}
+      {run?.results && (
+        <Alert
+          severity={failedCount === 0 ? 'success' : successCount === 0 ? 'error' : 'warning'}
+          onClose={() => setRun(null)}
+          sx={{ my: 1 }}
+          action={failures.length > 0 ? (
+            <Button color="inherit" size="small" onClick={() => setShowFailures(prev => !prev)}>
+              {showFailures ? localeText.bulkHideDetails : localeText.bulkShowDetails}
+            </Button>
+          ) : undefined}
+        >
+          {localeText.bulkResult(run.label, successCount, failedCount)}
+          <Collapse in={showFailures}>
+            <Box component="ul" sx={{ m: 0, mt: 1, pl: 2, maxHeight: 160, overflowY: 'auto' }}>
+              {failures.map((failure, index) => (
+                <li key={index}>
+                  <Typography variant="body2">
+                    <strong>{getRowLabel(failure.row)}</strong>
+                    {failure.error ? `: ${failure.error}` : ''}
+                  </Typography>
+                </li>
+              ))}
+            </Box>
+          </Collapse>
+        </Alert>
+      )}
+
+      {/* Confirmation */}
+      <Dialog open={!!pending} onClose={() => setPending(null)} maxWidth="xs" fullWidth dir={dir}>
+        <DialogTitle>{confirmation.title ?? `${pending?.action.label ?? ''}?`}</DialogTitle>
+        <DialogContent>
+          {typeof confirmMessage === 'string'
+            ? <DialogContentText>{confirmMessage}</DialogContentText>
+            : confirmMessage}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPending(null)}>{localeText.cancel}</Button>
+          <Button variant="contained" color={pending?.action.color ?? 'primary'} onClick={confirmPending} autoFocus>
+            {confirmation.confirmLabel ?? pending?.action.label}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
@@ -0,0 +1,214 @@
+'use client';
+
+/**
+ * Next Nice DataTable - Inline Cell Editor
+ * The in-place editor shown in a body cell while it is being edited.
+ *
+ * Enter (or leaving the field) commits, Escape cancels. Select and boolean
+ * editors commit as soon as an option is picked.
+ *
+ * @author Stellarx Team
+ * @version 2.1.0
+ */
+
+import React, { useState, useRef, useEffect } from 'react';
+import { Box, TextField, MenuItem } from '@mui/material';
+import { DataTableColumn, DataTableLocaleText } from './types';
+
+type EditType = NonNullable<DataTableColumn['editType']>;
+
+export interface CellEditorProps<T> {
+  column: DataTableColumn<T>;
+  /** Current cell value */
+  value: unknown;
+  /** Validation error from the last commit attempt */
+  error?: string;
+  size?: 'small' | 'medium';
+  /**
+   * Focus the editor (and open select menus) on mount. Off for the editors
+   * rendered in every cell during edit mode (default: true)
+   */
+  autoFocus?: boolean;
+  onCommit: (value: unknown) => void;
+  onCancel: () => void;
+  localeText: DataTableLocaleText;
+  /** Text direction of the portaled select menu */
+  dir?: 'ltr' | 'rtl';
+}
+
+// ============================================================================
+// VALUE CONVERSION
+// ============================================================================
+
+function getEditType<T>(column: DataTableColumn<T>): EditType {
+  if (column.editType) return column.editType;
+  if (column.filterType) return column.filterType;
+  if (column.filterOptions?.length) return 'select';
+  switch (column.dataType) {
+    case 'number':  return 'number';
+    case 'date':    return 'date';
+    case 'boolean': return 'boolean';
+    default:        return 'text';
+  }
+}
+
+function pad(num: number): string {
+  return String(num).padStart(2, '0');
+}
+
+/** `YYYY-MM-DD` in local time, as `<input type="date">` expects. */
+function toDateInputValue(value: unknown): string {
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return '';
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  }
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) return value.slice(0, 10);
+  if (typeof value === 'number') return toDateInputValue(new Date(value));
+  return '';
+}
+
+/**
+ * Editor draft (always a string) for a cell value. Select and boolean
+ * editors use the index of the matching option.
+ */
+function toDraft(value: unknown, editType: EditType, options: { value: unknown }[]): string {
+  switch (editType) {
+    case 'date':
+      return toDateInputValue(value);
+    case 'select': {
+      const index = options.findIndex(opt => opt.value === value || String(opt.value) === String(value));
+      return index === -1 ? '' : String(index);
+    }
+    default:
+      return value === null || value === undefined ? '' : String(value);
+  }
+}
+
+/**
+ * Cell value for an editor draft. Dates keep the original representation:
+ * a Date cell gets a Date (local midnight), a string cell a `YYYY-MM-DD` string.
+ */
+function fromDraft(draft: string, editType: EditType, options: { value: unknown }[], original: unknown): unknown {
+  switch (editType) {
+    case 'number':
+      return draft.trim() === '' ? null : Number(draft);
+    case 'date': {
+      if (draft === '') return null;
+      if (!(original instanceof Date) && typeof original !== 'number') return draft;
+      const [year, month, day] = draft.split('-').map(Number);
+      const date = new Date(year, month - 1, day);
+      return typeof original === 'number' ? date.getTime() : date;
+    }
+    case 'select':
+      return draft === '' ? null : options[Number(draft)]?.value ?? null;
+    default:
+      return draft;
+  }
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+function CellEditor<T>({
+  column,
+  value,
+  error,
+  size = 'small',
+  autoFocus = true,
+  onCommit,
+  onCancel,
+  localeText,
+  dir,
+}: CellEditorProps<T>) {
+  const editType = getEditType(column);
+  const options = editType === 'boolean'
+    ? [{ value: true, label: localeText.booleanTrue }, { value: false, label: localeText.booleanFalse }]
+    : column.filterOptions ?? [];
+  const isChoice = editType === 'select' || editType === 'boolean';
+  const draftType: EditType = isChoice ? 'select' : editType;
+
+  const valueDraft = toDraft(value, draftType, options);
+  const [draft, setDraft] = useState(valueDraft);
+  const [menuOpen, setMenuOpen] = useState(isChoice && autoFocus);
+
+  // Follow outside changes to the value (e.g. edit mode discarding its changes)
+  useEffect(() => {
+    setDraft(valueDraft);
+  }, [valueDraft]);
+  // Enter commits and then the input loses focus; don't commit twice
+  const committedRef = useRef(false);
+
+  // The editor may stay mounted (a rejected value, or edit mode) – allow the next attempt
+  const releaseAfterEvent = () => {
+    setTimeout(() => { committedRef.current = false; }, 0);
+  };
+
+  const commit = (nextDraft: string) => {
+    if (committedRef.current) return;
+    committedRef.current = true;
+    onCommit(fromDraft(nextDraft, draftType, options, value));
+    releaseAfterEvent();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      committedRef.current = true;
+      setDraft(valueDraft);
+      onCancel();
+      releaseAfterEvent();
+    } else if (e.key === 'Enter' && !isChoice) {
+      e.preventDefault();
+      commit(draft);
+    }
+  };
+
+  return (
+    // Keep clicks inside the editor (including the select menu portal) away
+    // from the row's selection / double-click handlers
+    <Box
+      onClick={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+      onKeyDown={handleKeyDown}
+    >
+      <TextField
+        autoFocus={autoFocus}
+        fullWidth
+        size={size}
+        variant="standard"
+        select={isChoice}
+        type={editType === 'number' ? 'number' : editType === 'date' ? 'date' : 'text'}
+        value={draft}
+        error={!!error}
+        helperText={error}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          if (isChoice) commit(e.target.value);
+        }}
+        onBlur={() => {
+          if (isChoice) {
+            if (!menuOpen && !committedRef.current) onCancel();
+          } else {
+            commit(draft);
+          }
+        }}
+        SelectProps={isChoice ? {
+          open: menuOpen,
+          onOpen: () => setMenuOpen(true),
+          onClose: () => setMenuOpen(false),
+          MenuProps: { dir },
+        } : undefined}
+        inputProps={{ 'aria-label': localeText.editCellLabel(column.label) }}
+      >
+        {isChoice && options.map((opt, index) => (
+          <MenuItem key={index} value={String(index)}>
+            {opt.label}
+          </MenuItem>
+        ))}
+      </TextField>
+    </Box>
+  );
+}
+
+export default CellEditor;
@@ -19,7 +19,7 @@
  * @version 2.0.0
  */
 
-import React, { useState, useMemo, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useMemo, useCallback, useRef, useEffect, useImperativeHandle } from 'react';
 import {
   Box,
   Paper,
@@ -28,6 +28,7 @@ import {
   TableCell,
   TableContainer,
   TableHead,
+  TableFooter,
   TableRow,
   TablePagination,
   TableSortLabel,
@@ -77,6 +78,16 @@ import {
   Visibility,
   Edit,
   Delete,
+  EditNote,
+  Save,
+  Close,
+  DeleteOutline,
+  RestoreFromTrash,
+  ErrorOutline,
+  KeyboardArrowUp,
+  KeyboardArrowDown,
+  PushPin,
+  PushPinOutlined,
 } from '@mui/icons-material';
 
 import {
@@ -86,10 +97,38 @@ import {
   AdvancedSearchState,
   ActionButtonConfig,
   ToolbarConfig,
+  RowKey,
+  TreeRowInfo,
+  DataTableLocaleText,
 } from './types';
 import { useDataTable } from './useDataTable';
 import { exportData, getExportFormatLabel, getNestedValue } from './exportUtils';
+import { GroupedItem, renderAggregate } from './groupUtils';
+import { formatAggregateNumber } from './aggregateUtils';
+import { formatCellValue, formatNumber } from './localeUtils';
 import SearchDialog from './SearchDialog';
+import FilterRow from './FilterRow';
+import ViewsMenu from './ViewsMenu';
+import BulkActionsBar from './BulkActionsBar';
+import CellEditor from './CellEditor';
+import { useVirtualRows } from './useVirtualRows';
+import { useDetailPanels } from './useDetailPanels';
+import { useColumnSizing } from './useColumnSizing';
+import { useSavedViews } from './useSavedViews';
+import { GridPosition, useGridNavigation } from './useGridNavigation';
+
+/** Hidden on screen but read by screen readers */
+const visuallyHiddenSx = {
+  position: 'absolute',
+  width: 1,
+  height: 1,
+  p: 0,
+  m: -1,
+  overflow: 'hidden',
+  clip: 'rect(0 0 0 0)',
+  whiteSpace: 'nowrap',
+  border: 0,
+} as const;
 
 // ============================================================================
 // CUSTOM PAGINATION ACTIONS
@@ -101,6 +140,9 @@ interface TablePaginationActionsProps {
   rowsPerPage: number;
   onPageChange: (event: React.MouseEvent<HTMLButtonElement> | null, newPage: number) => void;
   showFirstLastButtons?: boolean;
+  localeText: DataTableLocaleText;
+  /** Right-to-left layout: the arrows point the other way */
+  rtl: boolean;
 }
 
 function TablePaginationActions({
@@ -109,53 +151,54 @@ function TablePaginationActions({
   rowsPerPage,
   onPageChange,
   showFirstLastButtons = true,
+  localeText,
+  rtl,
 }: TablePaginationActionsProps) {
-  const theme = useTheme();
   const totalPages = Math.ceil(count / rowsPerPage);
 
   return (
-    <Box sx={{ flexShrink: 0, ml: 2.5, display: 'flex', alignItems: 'center', gap: 0.5 }}>
+    <Box sx={{ flexShrink: 0, marginInlineStart: 2.5, display: 'flex', alignItems: 'center', gap: 0.5 }}>
       {showFirstLastButtons && (
-        <Tooltip title="First page">
+        <Tooltip title={localeText.paginationFirstPage}>
           <span>
             <IconButton onClick={(e) => onPageChange(e, 0)} disabled={page === 0} size="small">
-              {theme.direction === 'rtl' ? <LastPage /> : <FirstPage />}
+              {rtl ? <LastPage /> : <FirstPage />}
             </IconButton>
           </span>
         </Tooltip>
       )}
-      <Tooltip title="Previous page">
+      <Tooltip title={localeText.paginationPreviousPage}>
         <span>
           <IconButton onClick={(e) => onPageChange(e, page - 1)} disabled={page === 0} size="small">
-            {theme.direction === 'rtl' ? <KeyboardArrowRight /> : <KeyboardArrowLeft />}
+            {rtl ? <KeyboardArrowRight /> : <KeyboardArrowLeft />}
           </IconButton>
         </span>
       </Tooltip>
 
       <Typography variant="body2" sx={{ mx: 1, minWidth: 80, textAlign: 'center' }}>
-        Page {page + 1} of {totalPages || 1}
+        {localeText.paginationPageOf(page + 1, totalPages || 1)}
       </Typography>
 
-      <Tooltip title="Next page">
+      <Tooltip title={localeText.paginationNextPage}>
         <span>
           <IconButton
             onClick={(e) => onPageChange(e, page + 1)}
             disabled={page >= totalPages - 1}
             size="small"
           >
-            {theme.direction === 'rtl' ? <KeyboardArrowLeft /> : <KeyboardArrowRight />}
+            {rtl ? <KeyboardArrowLeft /> : <KeyboardArrowRight />}
           </IconButton>
         </span>
       </Tooltip>
       {showFirstLastButtons && (
-        <Tooltip title="Last page">
+        <Tooltip title={localeText.paginationLastPage}>
           <span>
             <IconButton
               onClick={(e) => onPageChange(e, Math.max(0, totalPages - 1))}
               disabled={page >= totalPages - 1}
               size="small"
             >
-              {theme.direction === 'rtl' ? <FirstPage /> : <LastPage />}
+              {rtl ? <FirstPage /> : <LastPage />}
             </IconButton>
           </span>
         </Tooltip>
@@ -171,14 +214,26 @@ function TablePaginationActions({
 function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>) {
   const {
     error,
-    emptyMessage = 'No data available',
+    emptyMessage,
     emptyComponent,
     pagination: paginationConfig = {},
     clientFilterConfig = {},
+    filterConfig = {},
+    sortConfig = {},
     searchConfig = {},
     exportConfig = {},
     styleConfig = {},
     selectionConfig = {},
+    virtualization = {},
+    editModeConfig = {},
+    detailPanelConfig = {},
+    grouping,
+    aggregation = {},
+    treeData,
+    enableColumnReorder = false,
+    enableColumnResize = false,
+    enableColumnPinning = false,
+    savedViews,
     // Structured config objects
     toolbarConfig: toolbarConfigProp = {},
     actionButtons: actionButtonsProp = {},
@@ -207,6 +262,15 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
     onView,
     onEdit,
     onDelete,
+    bulkActions,
+    onBatchSave,
+    renderDetailPanel,
+    loadDetailPanel,
+    expandedRowKeys,
+    onExpandedRowKeysChange,
+    // Localization
+    locale: localeProp,
+    apiRef,
     // Accessibility
     id,
     ariaLabel,
@@ -251,14 +315,53 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
   const isTablet = useMediaQuery(theme.breakpoints.down('md'));
 
   const {
+    locale,
     data,
     allProcessedData,
+    aggregateRows,
+    serverAggregates,
     totalCount,
     loading,
+    loadingMore,
+    isCursorMode,
+    hasMore,
+    loadMore,
+    fetchError,
+    retryFetch,
+    refetch,
+    invalidate,
+    editingCell,
+    isCellEditable,
+    getCellError,
+    startCellEdit,
+    cancelCellEdit,
+    commitCellEdit,
+    isEditMode,
+    setEditMode,
+    dirtyCount,
+    hasCellErrors,
+    batchSaving,
+    batchSaveError,
+    isRowAdded,
+    isRowRemoved,
+    isRowDirty,
+    isCellDirty,
+    getBatchValue,
+    updateBatchCell,
+    addBatchRow,
+    toggleBatchRowRemoved,
+    saveBatch,
+    discardBatch,
+    groupBy,
+    groupedItems,
+    paginateByGroups,
+    isGroupCollapsed,
+    toggleGroupCollapsed,
+    toggleGroupByColumn,
     page,
     rowsPerPage,
     rowsPerPageOptions,
-    sort,
+    sortModel,
     filters,
     hasActiveFilters,
     clientFilterTerm,
@@ -267,9 +370,19 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
     advancedSearch,
     hasActiveAdvancedSearch,
     selectedRows,
+    selectedCount,
+    selectionModel,
+    matchingRowCount,
+    totalPages,
     isRowSelected,
+    isRowIndeterminate,
+    isTreeData,
+    getTreeRowInfo,
+    toggleTreeRowExpanded,
+    reloadTreeChildren,
     isAllSelected,
     isIndeterminate,
+    isAllMatchingSelected,
     columns,
     allColumns,
     visibleColumns,
@@ -283,13 +396,40 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
     handleServerSearchChange,
     handleAdvancedSearch,
     handleClearAdvancedSearch,
-    handleSelectionChange,
+    handleRowSelectionClick,
     handleDoubleClickSelection,
     handleSelectAll,
+    setSelection,
+    selectAllMatching,
+    clearSelection,
     handleColumnVisibilityChange,
+    moveColumn,
+    setColumnWidth,
+    pinColumn,
     handleDensityChange,
+    columnWidths,
+    getColumnPin,
+    viewState,
+    applyViewState,
   } = useDataTable<T>(props);
 
+  useImperativeHandle(apiRef, () => ({ refetch, invalidate }), [refetch, invalidate]);
+
+  const text = locale.text;
+  // Direction follows the locale when one is given, else the MUI theme. Physical
+  // offsets (box shadows) are flipped by the RTL style plugin only when the theme is RTL.
+  const isRtl = (localeProp ? locale.direction : theme.direction) === 'rtl';
+  const flipPhysical = isRtl && theme.direction !== 'rtl';
+  const localeDir = localeProp ? locale.direction : undefined;
+
+  const savedViewsState = useSavedViews({
+    config: savedViews,
+    state: viewState,
+    applyState: applyViewState,
+    loadErrorMessage: locale.text.viewsLoadError,
+    saveErrorMessage: locale.text.viewsSaveError,
+  });
+
   // -------------------------------------------------------------------------
   // LOCAL UI STATE
   // -------------------------------------------------------------------------
@@ -300,6 +440,8 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
   const [searchDialogOpen, setSearchDialogOpen] = useState(false);
   const [localFilterValue, setLocalFilterValue] = useState(clientFilterTerm);
   const [localSearchValue, setLocalSearchValue] = useState(serverSearch.term);
+  // Read out by the live region below the table
+  const [announcement, setAnnouncement] = useState('');
 
   // -------------------------------------------------------------------------
   // DEBOUNCE – useRef pattern so each keystroke cancels the previous timer
@@ -332,17 +474,37 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
     }, searchConfig.debounceMs ?? 500);
   }, [handleServerSearchChange, searchConfig.debounceMs]);
 
+  // -------------------------------------------------------------------------
+  // HEADER HEIGHT – the inline filter row sticks directly beneath the header
+  // -------------------------------------------------------------------------
+
+  const headerRowRef = useRef<HTMLTableRowElement>(null);
+  const [headerRowHeight, setHeaderRowHeight] = useState(0);
+
+  useEffect(() => {
+    const el = headerRowRef.current;
+    if (!el || !filterConfig.showFilterRow) return;
+    setHeaderRowHeight(el.offsetHeight);
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(() => setHeaderRowHeight(el.offsetHeight));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [filterConfig.showFilterRow]);
+
   // -------------------------------------------------------------------------
   // STYLE HELPERS
   // -------------------------------------------------------------------------
 
   const rowHeight = useMemo(() => {
+    const configured = virtualization.rowHeight;
+    if (typeof configured === 'number') return configured;
+    if (configured?.[density]) return configured[density] as number;
     switch (density) {
       case 'compact':    return 36;
       case 'comfortable': return 64;
       default:           return 52;
     }
-  }, [density]);
+  }, [density, virtualization.rowHeight]);
 
   const cellPadding = useMemo(() => {
     switch (density) {
@@ -363,6 +525,64 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
     };
   }, [styleConfig.stripe, theme]);
 
+  // -------------------------------------------------------------------------
+  // VIRTUALIZATION – only rows inside the TableContainer viewport are mounted
+  // -------------------------------------------------------------------------
+
+  const tableContainerRef = useRef<HTMLDivElement>(null);
+  const isPaginated = paginationConfig.enabled !== false && !isCursorMode;
+
+  /** Body rows in render order – group headers interleaved when grouped */
+  const bodyItems = useMemo(
+    (): GroupedItem<T>[] => groupedItems ?? data.map(row => ({ type: 'row', row, depth: 0 })),
+    [groupedItems, data]
+  );
+
+  // Group headers and rows can share a key value, so each kind gets a prefix
+  const getBodyItemKey = useCallback((index: number): string => {
+    const item = bodyItems[index];
+    if (!item) return String(index);
+    if (item.type === 'group') return `group:${item.group.key}`;
+    const key = item.row[props.rowKeyField || 'id'];
+    return key !== null && key !== undefined ? `row:${String(key)}` : String(index);
+  }, [bodyItems, props.rowKeyField]);
+
+  const {
+    startIndex: virtualStart,
+    endIndex: virtualEnd,
+    paddingTop: virtualPaddingTop,
+    paddingBottom: virtualPaddingBottom,
+    measureRow,
+    scrollToIndex,
+  } = useVirtualRows({
+    count: bodyItems.length,
+    estimateRowHeight: rowHeight,
+    overscan: virtualization.overscan,
+    enabled: !!virtualization.enabled,
+    containerRef: tableContainerRef,
+    getItemKey: getBodyItemKey,
+  });
+
+  // -------------------------------------------------------------------------
+  // INFINITE SCROLL – cursor mode loads the next batch near the bottom
+  // -------------------------------------------------------------------------
+
+  const loadMoreThreshold = paginationConfig.loadMoreThreshold ?? 200;
+
+  useEffect(() => {
+    const el = tableContainerRef.current;
+    if (!isCursorMode || !el) return;
+
+    const checkScroll = () => {
+      if (el.scrollHeight - el.scrollTop - el.clientHeight <= loadMoreThreshold) loadMore();
+    };
+    // Also runs after each batch, so a batch that does not fill the viewport
+    // keeps loading until the container can scroll (or rows run out)
+    checkScroll();
+    el.addEventListener('scroll', checkScroll, { passive: true });
+    return () => el.removeEventListener('scroll', checkScroll);
+  }, [isCursorMode, loadMore, loadMoreThreshold, data.length]);
+
   // -------------------------------------------------------------------------
   // VIEWPORT-AWARE COLUMN LIST
   // -------------------------------------------------------------------------
@@ -376,6 +596,71 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
     [columns, isMobile, isTablet]
   );
 
+  // -------------------------------------------------------------------------
+  // COLUMN SIZING
+  // -------------------------------------------------------------------------
+
+  const {
+    getColumnWidth,
+    isColumnSized,
+    stickyOffsets,
+    resizingColumnId,
+    getResizeHandleProps,
+  } = useColumnSizing({
+    columns: visibleColumnsForViewport,
+    columnWidths,
+    onColumnWidthChange: setColumnWidth,
+    headerRowRef,
+  });
+
+  // -------------------------------------------------------------------------
+  // COLUMN PINNING – pinned columns arrive with `sticky` set by useDataTable
+  // -------------------------------------------------------------------------
+
+  const [pinMenu, setPinMenu] = useState<{ anchorEl: HTMLElement; columnId: string } | null>(null);
+
+  const canPinColumn = (column: DataTableColumn<T>) => enableColumnPinning && column.pinnable !== false;
+
+  const lastLeftPinnedId = visibleColumnsForViewport.filter(col => col.sticky === 'left').pop()?.id;
+  const firstRightPinnedId = visibleColumnsForViewport.find(col => col.sticky === 'right')?.id;
+
+  // Box shadows have no logical form; the RTL style plugin mirrors them only for an RTL theme
+  const shadowSign = flipPhysical ? -1 : 1;
+
+  /** Shadow the innermost pinned column on each side casts over the scrolling columns */
+  const getPinShadow = (column: DataTableColumn<T>) => {
+    const color = alpha(theme.palette.common.black, theme.palette.mode === 'dark' ? 0.5 : 0.16);
+    if (column.id === lastLeftPinnedId) return `${4 * shadowSign}px 0 6px -2px ${color}`;
+    if (column.id === firstRightPinnedId) return `${-4 * shadowSign}px 0 6px -2px ${color}`;
+    return undefined;
+  };
+
+  const joinShadows = (...shadows: (string | undefined)[]) => shadows.filter(Boolean).join(', ') || undefined;
+
+  /** Cycle a column through unpinned → left → right from the column menu */
+  const cycleColumnPin = (columnId: string) => {
+    const pin = getColumnPin(columnId);
+    pinColumn(columnId, pin === null ? 'left' : pin === 'left' ? 'right' : null);
+  };
+
+  /** Width constraints for a column's cells; a user-sized column is held at its width */
+  const getColumnWidthSx = (column: DataTableColumn<T>) => {
+    const width = getColumnWidth(column);
+    return isColumnSized(column)
+      ? { width, minWidth: width, maxWidth: width }
+      : { width, minWidth: column.minWidth, maxWidth: column.maxWidth };
+  };
+
+  /** Edit mode adds a trailing cell with the remove / restore button */
+  const showRowEditActions = isEditMode && editModeConfig.allowRemove !== false;
+
+  const hasDetailPanel = !!renderDetailPanel;
+
+  const columnCount = visibleColumnsForViewport.length
+    + (selectionConfig.enabled ? 1 : 0)
+    + (hasDetailPanel ? 1 : 0)
+    + (showRowEditActions ? 1 : 0);
+
   // -------------------------------------------------------------------------
   // CELL RENDERING
   // -------------------------------------------------------------------------
@@ -386,57 +671,387 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
     return (key !== null && key !== undefined) ? String(key) : index;
   }, [props.rowKeyField]);
 
+  // -------------------------------------------------------------------------
+  // DETAIL PANELS
+  // -------------------------------------------------------------------------
+
+  const getRowKeyValue = useCallback(
+    (row: T): RowKey => row[props.rowKeyField || 'id'] as RowKey,
+    [props.rowKeyField]
+  );
+
+  const {
+    isRowExpanded,
+    toggleRowExpanded,
+    getDetailState,
+    reloadDetail,
+  } = useDetailPanels({
+    rows: data,
+    getRowKey: getRowKeyValue,
+    mode: detailPanelConfig.mode,
+    expandedRowKeys,
+    defaultExpandedRowKeys: detailPanelConfig.defaultExpandedRowKeys,
+    onExpandedRowKeysChange,
+    loadDetailPanel,
+    loadErrorMessage: text.detailLoadError,
+  });
+
+  const renderDetailContent = (row: T) => {
+    const state = getDetailState(row);
+    if (!state) return renderDetailPanel?.(row);
+    if (state.status === 'loading') {
+      return (
+        <Stack direction="row" spacing={1.5} alignItems="center" role="status">
+          <CircularProgress size={18} />
+          <Typography variant="body2" color="text.secondary">{text.detailLoading}</Typography>
+        </Stack>
+      );
+    }
+    if (state.status === 'error') {
+      return (
+        <Alert
+          severity="error"
+          action={<Button color="inherit" size="small" onClick={() => reloadDetail(row)}>{text.retry}</Button>}
+        >
+          {state.error}
+        </Alert>
+      );
+    }
+    return renderDetailPanel?.(row, state.data);
+  };
+
   const renderCellContent = useCallback((row: T, column: DataTableColumn<T>, rowIndex: number) => {
     const value = getNestedValue(row as Record<string, unknown>, column.id);
 
     if (column.format) return column.format(value, row, rowIndex);
     if (value === null || value === undefined) return <Typography color="text.secondary">—</Typography>;
-    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
-    return String(value);
-  }, []);
+    return formatCellValue(value, column, locale);
+  }, [locale]);
+
+  // -------------------------------------------------------------------------
+  // ROW GROUPS
+  // -------------------------------------------------------------------------
+
+  const groupingEnabled = !!grouping && grouping.enabled !== false;
+  const groupAggregates = grouping?.aggregates ?? {};
+  const hasGroupAggregates = visibleColumnsForViewport.some(col => groupAggregates[col.id]);
+  const cellPaddingLeft = cellPadding.split(' ')[1];
+  /** Inline-start padding that nests a row or group header under its parent group */
+  const getGroupIndent = (depth: number) => `calc(${cellPaddingLeft} + ${theme.spacing(depth * 3)})`;
+  // Collapsed chevrons point along the reading direction
+  const collapsedChevronTransform = isRtl ? 'rotate(180deg)' : 'none';
+  // Pin icons point towards the edge the column is pinned to – 'left' is the start edge
+  const getPinIconTransform = (side: 'left' | 'right') =>
+    `rotate(${(side === 'left') !== isRtl ? -90 : 90}deg)`;
+
+  const renderGroupRow = (item: Extract<GroupedItem<T>, { type: 'group' }>, rowIndex: number) => {
+    const { group, continued } = item;
+    const collapsed = isGroupCollapsed(group.key);
+    const groupColumn = allColumns.find(col => col.id === group.columnId);
+    const [firstColumn, ...otherColumns] = visibleColumnsForViewport;
+    const gridRow = rowIndex + headerRowCount;
+
+    return (
+      <TableRow
+        key={group.key}
+        ref={virtualization.enabled ? measureRow(rowIndex) : undefined}
+        data-grid-row={gridRow}
+        aria-rowindex={getAriaRowIndex(rowIndex)}
+        aria-expanded={!collapsed}
+        onClick={() => toggleGroupCollapsed(group.key)}
+        sx={{ cursor: 'pointer', bgcolor: alpha(theme.palette.primary.main, 0.04) }}
+      >
+        {selectionConfig.enabled && <TableCell padding="checkbox" tabIndex={getCellTabIndex(gridRow, 0)} />}
+        {hasDetailPanel && <TableCell padding="checkbox" tabIndex={getCellTabIndex(gridRow, leadingCellCount - 1)} />}
+        <TableCell
+          colSpan={hasGroupAggregates ? 1 : visibleColumnsForViewport.length}
+          tabIndex={getCellTabIndex(gridRow, leadingCellCount)}
+          sx={{ padding: cellPadding, paddingInlineStart: getGroupIndent(group.depth), whiteSpace: 'nowrap' }}
+        >
+          <Stack direction="row" spacing={0.5} alignItems="center">
+            <IconButton
+              size="small"
+              tabIndex={-1}
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleGroupCollapsed(group.key);
+              }}
+              aria-expanded={!collapsed}
+              aria-label={collapsed ? text.groupExpand : text.groupCollapse}
+              sx={{ marginInlineStart: -1 }}
+            >
+              <KeyboardArrowRight
+                fontSize="small"
+                sx={{
+                  transition: theme.transitions.create('transform'),
+                  transform: collapsed ? collapsedChevronTransform : 'rotate(90deg)',
+                }}
+              />
+            </IconButton>
+            <Typography variant="body2" component="span" color="text.secondary">
+              {groupColumn?.label ?? group.columnId}:
+            </Typography>
+            <Typography variant="body2" component="span" fontWeight={600}>
+              {groupColumn ? renderCellContent(group.rows[0], groupColumn, -1) : String(group.value ?? '—')}
+            </Typography>
+            <Typography variant="body2" component="span" color="text.secondary">
+              ({formatNumber(group.rows.length, locale.code)}){continued ? ` ${text.groupContinued}` : ''}
+            </Typography>
+            {/* The label takes the first column's cell, so its aggregate goes beside it */}
+            {firstColumn && groupAggregates[firstColumn.id] && (
+              <Typography variant="body2" component="span" fontWeight={600} sx={{ paddingInlineStart: 1 }}>
+                {renderAggregate(group.rows, firstColumn, groupAggregates[firstColumn.id], locale.code)}
+              </Typography>
+            )}
+          </Stack>
+        </TableCell>
+        {hasGroupAggregates && otherColumns.map((column, columnIndex) => (
+          <TableCell
+            key={column.id}
+            align={column.align || 'left'}
+            tabIndex={getCellTabIndex(gridRow, leadingCellCount + 1 + columnIndex)}
+            sx={{ padding: cellPadding, fontWeight: 600 }}
+          >
+            {groupAggregates[column.id] && renderAggregate(group.rows, column, groupAggregates[column.id], locale.code)}
+          </TableCell>
+        ))}
+        {showRowEditActions && (
+          <TableCell
+            padding="checkbox"
+            tabIndex={getCellTabIndex(gridRow, leadingCellCount + (hasGroupAggregates ? visibleColumnsForViewport.length : 1))}
+          />
+        )}
+      </TableRow>
+    );
+  };
+
+  // -------------------------------------------------------------------------
+  // TREE DATA
+  // -------------------------------------------------------------------------
+
+  const treeIndent = treeData?.indent ?? 24;
+  const getTreeIndent = (depth: number) => `calc(${cellPaddingLeft} + ${depth * treeIndent}px)`;
+
+  /** Expand toggle in front of a tree row's first cell – a spacer for leaf rows */
+  const renderTreeToggle = (row: T, info: TreeRowInfo) => {
+    if (info.loading) {
+      return (
+        <Box sx={{ width: 30, flexShrink: 0, display: 'flex', justifyContent: 'center' }} role="status">
+          <CircularProgress size={16} aria-label={text.treeLoading} />
+        </Box>
+      );
+    }
+    if (info.error) {
+      return (
+        <Tooltip title={text.treeRetryHint(info.error)}>
+          <IconButton
+            size="small"
+            color="error"
+            onClick={(e) => {
+              e.stopPropagation();
+              reloadTreeChildren(row);
+            }}
+            aria-label={text.treeRetry}
+            sx={{ width: 30, height: 30 }}
+          >
+            <ErrorOutline fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      );
+    }
+    if (!info.hasChildren) return <Box sx={{ width: 30, flexShrink: 0 }} />;
+    return (
+      <IconButton
+        size="small"
+        onClick={(e) => {
+          e.stopPropagation();
+          toggleTreeRowExpanded(row);
+        }}
+        aria-expanded={info.expanded}
+        aria-label={info.expanded ? text.treeCollapse : text.treeExpand}
+        sx={{ width: 30, height: 30 }}
+      >
+        <KeyboardArrowRight
+          fontSize="small"
+          sx={{
+            transition: theme.transitions.create('transform'),
+            transform: info.expanded ? 'rotate(90deg)' : collapsedChevronTransform,
+          }}
+        />
+      </IconButton>
+    );
+  };
+
+  // -------------------------------------------------------------------------
+  // COLUMN REORDERING – drag a header, or use the column menu
+  // -------------------------------------------------------------------------
+
+  const [draggedColumnId, setDraggedColumnId] = useState<string | null>(null);
+  const [columnDropTarget, setColumnDropTarget] = useState<{ columnId: string; after: boolean } | null>(null);
+
+  const endColumnDrag = () => {
+    setDraggedColumnId(null);
+    setColumnDropTarget(null);
+  };
+
+  const handleColumnDrop = () => {
+    if (draggedColumnId && columnDropTarget && columnDropTarget.columnId !== draggedColumnId) {
+      // moveColumn takes the position once the dragged column is taken out
+      const ids = allColumns.map(col => col.id).filter(colId => colId !== draggedColumnId);
+      const targetIndex = ids.indexOf(columnDropTarget.columnId) + (columnDropTarget.after ? 1 : 0);
+      moveColumn(draggedColumnId, targetIndex);
+    }
+    endColumnDrag();
+  };
+
+  /** Move a column one step from the column menu, keeping focus on its menu item */
+  const stepColumn = (columnId: string, step: -1 | 1, menuItem: HTMLElement) => {
+    const list = menuItem.parentElement;
+    moveColumn(columnId, allColumns.findIndex(col => col.id === columnId) + step);
+    requestAnimationFrame(() => {
+      const items = list?.querySelectorAll<HTMLElement>('[data-column-id]') ?? [];
+      Array.from(items).find(item => item.dataset.columnId === columnId)?.focus();
+    });
+  };
+
+  // -------------------------------------------------------------------------
+  // TOTALS FOOTER
+  // -------------------------------------------------------------------------
+
+  const hasColumnTotal = (column: DataTableColumn<T>) =>
+    !!column.aggregate || serverAggregates?.[column.id] !== undefined;
+  const showTotalsFooter = visibleColumnsForViewport.some(hasColumnTotal);
+  const totalsLabel = aggregation.label ?? (aggregation.scope === 'page' ? text.totalsPageLabel : text.totalsLabel);
+
+  const renderTotal = (column: DataTableColumn<T>) => {
+    const serverValue = serverAggregates?.[column.id];
+    if (serverValue === undefined) {
+      return column.aggregate ? renderAggregate(aggregateRows, column, column.aggregate, locale.code) : null;
+    }
+    if (column.format && aggregateRows.length > 0) return column.format(serverValue, aggregateRows[0], -1);
+    return typeof serverValue === 'number' ? formatAggregateNumber(serverValue, locale.code) : String(serverValue ?? '');
+  };
+
+  // -------------------------------------------------------------------------
+  // HEADER RENDERING
+  // -------------------------------------------------------------------------
+
+  /** aria-sort goes on the primary sort column only, as the grid pattern asks */
+  const getAriaSort = (column: DataTableColumn<T>): 'ascending' | 'descending' | 'none' | undefined => {
+    if (column.sortable === false) return undefined;
+    const primary = sortModel[0];
+    if (primary?.column !== column.id) return 'none';
+    return primary.direction === 'asc' ? 'ascending' : 'descending';
+  };
+
+  const renderHeaderLabel = useCallback((column: DataTableColumn<T>) => {
+    const content = column.renderHeader ? column.renderHeader(column) : column.label;
+    if (column.sortable === false) return content;
+
+    const sortIndex = sortModel.findIndex(item => item.column === column.id);
+    const sortItem = sortIndex >= 0 ? sortModel[sortIndex] : null;
+
+    return (
+      <TableSortLabel
+        // The header cell takes focus and sorts on Enter
+        tabIndex={-1}
+        active={!!sortItem}
+        direction={sortItem ? sortItem.direction : 'asc'}
+        onClick={(e) => handleSortChange(column.id, e.shiftKey)}
+        title={sortConfig.multiSort ? text.columnHeaderMultiSortHint : undefined}
+      >
+        {content}
+        {sortItem && sortModel.length > 1 && (
+          <Box
+            component="span"
+            aria-label={text.columnHeaderSortPriority(sortIndex + 1)}
+            sx={{
+              marginInlineStart: 0.5,
+              minWidth: 16,
+              height: 16,
+              px: 0.5,
+              borderRadius: 8,
+              bgcolor: alpha(theme.palette.primary.main, 0.12),
+              color: 'primary.main',
+              fontSize: '0.6875rem',
+              fontWeight: 600,
+              lineHeight: '16px',
+              textAlign: 'center',
+            }}
+          >
+            {sortIndex + 1}
+          </Box>
+        )}
+      </TableSortLabel>
+    );
+  }, [sortModel, sortConfig.multiSort, handleSortChange, theme, text]);
 
   // -------------------------------------------------------------------------
   // SKELETON ROWS (loading state)
   // -------------------------------------------------------------------------
 
   const renderSkeletonRows = useCallback(() =>
-    Array.from({ length: rowsPerPage }).map((_, index) => (
+    Array.from({ length: isPaginated ? rowsPerPage : 10 }).map((_, index) => (
       <TableRow key={`skeleton-${index}`}>
         {selectionConfig.enabled && (
           <TableCell padding="checkbox">
             <Skeleton variant="rectangular" width={24} height={24} />
           </TableCell>
         )}
+        {hasDetailPanel && <TableCell padding="checkbox" />}
         {visibleColumnsForViewport.map((col) => (
           <TableCell key={col.id} sx={{ padding: cellPadding }}>
             <Skeleton variant="text" />
           </TableCell>
         ))}
+        {showRowEditActions && <TableCell padding="checkbox" />}
       </TableRow>
     )),
-    [rowsPerPage, selectionConfig.enabled, visibleColumnsForViewport, cellPadding]
+    [
+      isPaginated, rowsPerPage, selectionConfig.enabled, hasDetailPanel, visibleColumnsForViewport,
+      cellPadding, showRowEditActions,
+    ]
   );
 
+  // -------------------------------------------------------------------------
+  // KEYBOARD SELECTION – Space on a row is handled by the row itself
+  // -------------------------------------------------------------------------
+
+  // Ctrl / Cmd+A selects the select-all scope, unless typing in a field
+  const handleTableKeyDown = useCallback((e: React.KeyboardEvent<HTMLElement>) => {
+    if (e.key.toLowerCase() !== 'a' || !(e.ctrlKey || e.metaKey) || e.shiftKey || e.altKey) return;
+    if (!selectionConfig.enabled || selectionConfig.mode === 'single') return;
+    const target = e.target as HTMLElement;
+    if (target.closest('input:not([type="checkbox"]), textarea, select, [contenteditable="true"]')) return;
+    e.preventDefault();
+    handleSelectAll(true);
+  }, [selectionConfig.enabled, selectionConfig.mode, handleSelectAll]);
+
   // -------------------------------------------------------------------------
   // EXPORT
   // -------------------------------------------------------------------------
 
   const exportFormats: readonly ExportFormat[] = exportConfig.formats || ['csv', 'excel', 'pdf', 'word'];
 
-  const handleExport = useCallback((format: ExportFormat) => {
+  // With `rows` (the bulk "Export selected") only those rows are exported, and
+  // table-wide totals are left out because they would not match them
+  const handleExport = useCallback((format: ExportFormat, rows?: T[]) => {
     const config = {
       ...exportConfig,
       filename: exportConfig.filename || title || 'export',
       title: exportConfig.title || title,
+      locale: exportConfig.locale ?? locale,
     };
-    const dataToExport = exportConfig.filteredDataOnly !== false
-      ? allProcessedData
-      : (props.data || []);
+    const dataToExport = rows
+      ?? (exportConfig.filteredDataOnly !== false ? allProcessedData : (props.data || []));
     const columnsToExport = exportConfig.visibleColumnsOnly !== false ? columns : allColumns;
 
-    exportData(format, dataToExport, columnsToExport, config);
+    exportData(format, dataToExport, columnsToExport, {
+      ...config,
+      totals: rows ? undefined : exportConfig.totals ?? serverAggregates ?? undefined,
+    });
     setExportAnchorEl(null);
-  }, [exportConfig, title, allProcessedData, props.data, columns, allColumns]);
+  }, [exportConfig, title, locale, allProcessedData, props.data, columns, allColumns, serverAggregates]);
 
   // =========================================================================
   // TOOLBAR VISIBILITY
@@ -446,12 +1061,40 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
   const showAdvancedSearch = toolbarConfig.showAdvancedSearch !== false
     && searchConfig.enabled === true
     && searchableFields.length > 0;
-  const showRefresh = toolbarConfig.showRefresh !== false && !!onRefresh;
+  const isServerSide = !!props.onFetchData;
+  const showRefresh = toolbarConfig.showRefresh !== false && (!!onRefresh || isServerSide);
+
+  // In server mode Refresh always goes back to onFetchData, bypassing the cache
+  const handleRefresh = useCallback(() => {
+    onRefresh?.();
+    if (isServerSide) refetch({ force: true });
+  }, [onRefresh, isServerSide, refetch]);
   const showDensity = toolbarConfig.showDensityToggle !== false;
   const showColumns = toolbarConfig.showColumnVisibility !== false;
   const showExport = toolbarConfig.showExport !== false && exportConfig.enabled !== false;
   const showTitleSubtitle = toolbarConfig.showTitle !== false && (!!title || !!subtitle);
 
+  // Gmail-style: once the page is selected, offer the rest of the matching rows
+  const showSelectAllMatchingBanner = !!selectionConfig.enabled
+    && selectionConfig.mode !== 'single'
+    && selectionConfig.showSelectAll !== false
+    && selectionConfig.showSelectAllMatching !== false
+    && matchingRowCount > data.length
+    && (isAllMatchingSelected || isAllSelected);
+
+  const activeCriteriaCount = advancedSearch.criteria.filter(c => c.value).length;
+  const densityLabels = {
+    compact: text.toolbarDensityCompact,
+    normal: text.toolbarDensityNormal,
+    comfortable: text.toolbarDensityComfortable,
+  };
+
+  const selectionSummary = selectionConfig.enabled && selectedCount > 0 ? (
+    <Typography variant="body2" color="text.secondary" sx={{ marginInlineEnd: 'auto' }}>
+      {text.selectionCount(selectedCount)}
+    </Typography>
+  ) : null;
+
   // =========================================================================
   // ACTION BUTTONS
   // =========================================================================
@@ -465,10 +1108,10 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
     viewEnabled,
     editEnabled,
     deleteEnabled,
-    addLabel = 'Add',
-    viewLabel = 'View',
-    editLabel = 'Edit',
-    deleteLabel = 'Delete',
+    addLabel = text.actionAdd,
+    viewLabel = text.actionView,
+    editLabel = text.actionEdit,
+    deleteLabel = text.actionDelete,
     addTooltip,
     viewTooltip,
     editTooltip,
@@ -488,21 +1131,127 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
   const isEditEnabled = (editEnabled ?? true) && hasSingleSelection;
   const isDeleteEnabled = (deleteEnabled ?? true) && hasSingleSelection;
 
-  const resolvedViewTooltip = viewTooltip
-    || (hasMultipleSelection ? 'Select only one row to view'
-      : hasSingleSelection ? `View selected item`
-      : 'Select a row to view');
-  const resolvedEditTooltip = editTooltip
-    || (hasMultipleSelection ? 'Select only one row to edit'
-      : hasSingleSelection ? `Edit selected item`
-      : 'Select a row to edit');
-  const resolvedDeleteTooltip = deleteTooltip
-    || (hasMultipleSelection ? `Select only one row to ${deleteLabel.toLowerCase()}`
-      : hasSingleSelection ? `${deleteLabel} selected item`
-      : `Select a row to ${deleteLabel.toLowerCase()}`);
+  const getActionTooltip = (action: string) =>
+    hasMultipleSelection ? text.actionSelectOnlyOneRow(action)
+      : hasSingleSelection ? text.actionOnSelectedRow(action)
+      : text.actionSelectRow(action);
+  const resolvedViewTooltip = viewTooltip || getActionTooltip(viewLabel);
+  const resolvedEditTooltip = editTooltip || getActionTooltip(editLabel);
+  const resolvedDeleteTooltip = deleteTooltip || getActionTooltip(deleteLabel);
+
+  const {
+    allowAdd = true,
+    editModeLabel = text.editModeStart,
+    saveLabel = text.editModeSave,
+    discardLabel = text.editModeDiscard,
+    addRowLabel = text.editModeAddRow,
+  } = editModeConfig;
 
   const hasActionButtons = (showAdd && !!onAdd) || (showView && !!onView)
-    || (showEdit && !!onEdit) || (showDelete && !!onDelete);
+    || (showEdit && !!onEdit) || (showDelete && !!onDelete) || !!onBatchSave;
+
+  // =========================================================================
+  // GRID NAVIGATION – WAI-ARIA grid: roving tabindex, arrow keys, Enter / Space
+  // =========================================================================
+
+  /** Selection and detail-panel cells in front of the data columns */
+  const leadingCellCount = (selectionConfig.enabled ? 1 : 0) + (hasDetailPanel ? 1 : 0);
+  const headerRowCount = filterConfig.showFilterRow ? 2 : 1;
+  // Paged rows are numbered across pages; grouped pages are numbered on their own
+  const ariaRowOffset = isPaginated && !groupedItems ? page * rowsPerPage : 0;
+  const ariaBodyRowCount = (isPaginated && !groupedItems) || isCursorMode ? totalCount : bodyItems.length;
+  const hasTotalsRow = showTotalsFooter && !loading && bodyItems.length > 0;
+  const ariaRowCount = headerRowCount + ariaBodyRowCount + (hasTotalsRow ? 1 : 0);
+  const getAriaRowIndex = (rowIndex: number) => headerRowCount + ariaRowOffset + rowIndex + 1;
+
+  const handleGridCellAction = useCallback((position: GridPosition, e: React.KeyboardEvent<HTMLElement>): boolean => {
+    const isSpace = e.key === ' ';
+    // The filter row has no action of its own – Enter moves focus to its editor
+    if (position.row > 0 && position.row < headerRowCount) return false;
+    if (position.row === 0) {
+      if (selectionConfig.enabled && position.col === 0) {
+        if (selectionConfig.showSelectAll === false || selectionConfig.mode === 'single') return false;
+        handleSelectAll(!isAllSelected);
+        return true;
+      }
+      const column = visibleColumnsForViewport[position.col - leadingCellCount];
+      if (!column || column.sortable === false || isSpace) return false;
+      handleSortChange(column.id, e.shiftKey);
+      return true;
+    }
+
+    const item = bodyItems[position.row - headerRowCount];
+    if (!item) return false;
+    if (item.type === 'group') {
+      toggleGroupCollapsed(item.group.key);
+      return true;
+    }
+    const { row } = item;
+    if (isSpace) {
+      if (!selectionConfig.enabled) return false;
+      handleRowSelectionClick(row, { shiftKey: e.shiftKey, toggleKey: true });
+      return true;
+    }
+    if (hasDetailPanel && position.col === (selectionConfig.enabled ? 1 : 0)) {
+      toggleRowExpanded(row);
+      return true;
+    }
+    // Enter on the remove / restore cell moves focus to its button
+    if (showRowEditActions && position.col === columnCount - 1) return false;
+    if (showView && onView && (viewEnabled ?? true)) {
+      onView(row);
+      return true;
+    }
+    if (onRowDoubleClick) {
+      onRowDoubleClick(row, position.row - headerRowCount, e);
+      return true;
+    }
+    return false;
+  }, [
+    headerRowCount, selectionConfig.enabled, selectionConfig.showSelectAll, selectionConfig.mode, handleSelectAll, isAllSelected,
+    visibleColumnsForViewport, leadingCellCount, handleSortChange, bodyItems, toggleGroupCollapsed,
+    handleRowSelectionClick, hasDetailPanel, toggleRowExpanded, showRowEditActions, columnCount,
+    showView, onView, viewEnabled, onRowDoubleClick,
+  ]);
+
+  const { getCellTabIndex, gridProps } = useGridNavigation({
+    rowCount: headerRowCount + (loading ? 0 : bodyItems.length),
+    headerRowCount,
+    colCount: columnCount,
+    containerRef: tableContainerRef,
+    renderedRows: { start: virtualStart + headerRowCount, end: virtualEnd + headerRowCount },
+    scrollToBodyRow: scrollToIndex,
+    onCellAction: handleGridCellAction,
+  });
+
+  // -------------------------------------------------------------------------
+  // LIVE ANNOUNCEMENTS – sort, filter and page changes for screen readers
+  // -------------------------------------------------------------------------
+
+  const sortAnnouncement = sortModel.length === 0
+    ? text.announceSortCleared
+    : text.announceSort(sortModel.map(item => ({
+        column: allColumns.find(col => col.id === item.column)?.label ?? item.column,
+        direction: item.direction,
+      })));
+  const filterQueryKey = JSON.stringify([filters, clientFilterTerm, serverSearch, advancedSearch]);
+  const lastAnnouncedRef = useRef({ sort: sortAnnouncement, query: filterQueryKey, page, queryPending: false });
+
+  useEffect(() => {
+    const last = lastAnnouncedRef.current;
+    let message: string | null = null;
+    if (sortAnnouncement !== last.sort) message = sortAnnouncement;
+    if (filterQueryKey !== last.query) last.queryPending = true;
+    // Filtering resets the page, so the row count is the news, once it is known
+    if (last.queryPending && !loading) {
+      message = text.announceRowsFound(matchingRowCount);
+      last.queryPending = false;
+    } else if (page !== last.page && !last.queryPending && isPaginated) {
+      message = text.paginationPageOf(page + 1, Math.max(1, totalPages));
+    }
+    lastAnnouncedRef.current = { ...last, sort: sortAnnouncement, query: filterQueryKey, page };
+    if (message) setAnnouncement(message);
+  }, [sortAnnouncement, filterQueryKey, page, loading, matchingRowCount, isPaginated, totalPages, text]);
 
   // =========================================================================
   // RENDER
@@ -521,6 +1270,7 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
       }}
       id={id}
       data-testid={testId}
+      dir={localeDir}
     >
       {/* ================================================================= */}
       {/* TOOLBAR                                                             */}
@@ -561,7 +1311,7 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
           {/* CRUD action buttons */}
           {hasActionButtons && (
             <Stack direction="row" spacing={1} alignItems="center">
-              {showAdd && onAdd && (
+              {showAdd && onAdd && !isEditMode && (
                 <Tooltip title={addTooltip || ''}>
                   <span>
                     <Button
@@ -578,7 +1328,7 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
                 </Tooltip>
               )}
 
-              {showView && onView && (
+              {showView && onView && !isEditMode && (
                 <Tooltip title={resolvedViewTooltip}>
                   <span>
                     <Button
@@ -595,7 +1345,7 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
                 </Tooltip>
               )}
 
-              {showEdit && onEdit && (
+              {showEdit && onEdit && !isEditMode && (
                 <Tooltip title={resolvedEditTooltip}>
                   <span>
                     <Button
@@ -612,7 +1362,7 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
                 </Tooltip>
               )}
 
-              {showDelete && onDelete && (
+              {showDelete && onDelete && !isEditMode && (
                 <Tooltip title={resolvedDeleteTooltip}>
                   <span>
                     <Button
@@ -628,12 +1378,64 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
                   </span>
                 </Tooltip>
               )}
+
+              {onBatchSave && !isEditMode && (
+                <Button
+                  variant="outlined"
+                  size="small"
+                  startIcon={<EditNote />}
+                  onClick={() => setEditMode(true)}
+                >
+                  {editModeLabel}
+                </Button>
+              )}
+
+              {onBatchSave && isEditMode && (
+                <>
+                  <Typography variant="body2" color="text.secondary" role="status" sx={{ mr: 1 }}>
+                    {dirtyCount === 0 ? text.editModeNoChanges : text.editModeUnsavedChanges(dirtyCount)}
+                  </Typography>
+                  {allowAdd && (
+                    <Button
+                      variant="outlined"
+                      size="small"
+                      startIcon={<Add />}
+                      onClick={addBatchRow}
+                      disabled={batchSaving}
+                    >
+                      {addRowLabel}
+                    </Button>
+                  )}
+                  <Button
+                    variant="outlined"
+                    size="small"
+                    startIcon={<Close />}
+                    onClick={discardBatch}
+                    disabled={batchSaving}
+                  >
+                    {discardLabel}
+                  </Button>
+                  <Tooltip title={hasCellErrors ? text.editModeFixErrors : ''}>
+                    <span>
+                      <Button
+                        variant="contained"
+                        size="small"
+                        startIcon={batchSaving ? <CircularProgress size={16} color="inherit" /> : <Save />}
+                        onClick={saveBatch}
+                        disabled={batchSaving || dirtyCount === 0 || hasCellErrors}
+                      >
+                        {saveLabel}
+                      </Button>
+                    </span>
+                  </Tooltip>
+                </>
+              )}
             </Stack>
           )}
         </Stack>
 
         {/* Second row: filter / search + toolbar icons */}
-        {(showFilter || showAdvancedSearch || showRefresh || showDensity || showColumns || showExport || toolbarActions) && (
+        {(showFilter || showAdvancedSearch || showRefresh || showDensity || showColumns || showExport || toolbarActions || savedViews) && (
           <Stack
             direction={{ xs: 'column', md: 'row' }}
             spacing={2}
@@ -651,7 +1453,7 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
                 <TextField
                   size="small"
                   sx={{ minWidth: 200, flex: 1 }}
-                  placeholder={clientFilterConfig.placeholder || 'Filter loaded data…'}
+                  placeholder={clientFilterConfig.placeholder || text.toolbarFilterPlaceholder}
                   value={localFilterValue}
                   onChange={(e) => handleFilterInputChange(e.target.value)}
                   InputProps={{
@@ -692,13 +1494,15 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
                     color={hasActiveAdvancedSearch ? 'primary' : 'inherit'}
                   >
                     {hasActiveAdvancedSearch
-                      ? `${toolbarConfig.advancedSearchLabel || 'Search'} (${advancedSearch.criteria.filter(c => c.value).length})`
-                      : (toolbarConfig.advancedSearchLabel || 'Advanced Search')
+                      ? (toolbarConfig.advancedSearchLabel
+                        ? `${toolbarConfig.advancedSearchLabel} (${activeCriteriaCount})`
+                        : text.toolbarActiveSearch(activeCriteriaCount))
+                      : (toolbarConfig.advancedSearchLabel || text.toolbarAdvancedSearch)
                     }
                   </Button>
 
                   {hasActiveAdvancedSearch && (
-                    <Tooltip title="Clear search">
+                    <Tooltip title={text.toolbarClearSearch}>
                       <IconButton
                         size="small"
                         onClick={handleClearAdvancedSearch}
@@ -720,7 +1524,7 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
               {/* Active column-filter chips */}
               {hasActiveFilters && (
                 <Chip
-                  label={`${Object.keys(filters).length} filter${Object.keys(filters).length > 1 ? 's' : ''}`}
+                  label={text.toolbarFilterCount(Object.keys(filters).length)}
                   size="small"
                   onDelete={handleClearFilters}
                   color="primary"
@@ -728,13 +1532,18 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
                 />
               )}
 
+              {/* Saved views */}
+              {savedViews && (
+                <ViewsMenu views={savedViewsState} label={savedViews.label} localeText={text} dir={localeDir} />
+              )}
+
               {/* Consumer-provided custom toolbar actions */}
               {toolbarActions}
 
               {/* Refresh */}
               {showRefresh && (
-                <Tooltip title={toolbarConfig.refreshLabel || 'Refresh'}>
-                  <IconButton onClick={onRefresh} disabled={loading}>
+                <Tooltip title={toolbarConfig.refreshLabel || text.toolbarRefresh}>
+                  <IconButton onClick={handleRefresh} disabled={loading}>
                     {loading ? <CircularProgress size={20} /> : <Refresh />}
                   </IconButton>
                 </Tooltip>
@@ -743,7 +1552,7 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
               {/* Density toggle */}
               {showDensity && (
                 <>
-                  <Tooltip title={toolbarConfig.densityLabel || 'Table density'}>
+                  <Tooltip title={toolbarConfig.densityLabel || text.toolbarDensity}>
                     <IconButton onClick={(e) => setDensityAnchorEl(e.currentTarget)}>
                       {density === 'compact'
                         ? <DensitySmall />
@@ -756,6 +1565,7 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
                     anchorEl={densityAnchorEl}
                     open={Boolean(densityAnchorEl)}
                     onClose={() => setDensityAnchorEl(null)}
+                    dir={localeDir}
                   >
                     {(['compact', 'normal', 'comfortable'] as const).map((d) => (
                       <MenuItem
@@ -770,7 +1580,7 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
                               ? <DensityLarge fontSize="small" />
                               : <DensityMedium fontSize="small" />}
                         </ListItemIcon>
-                        <ListItemText primary={d.charAt(0).toUpperCase() + d.slice(1)} />
+                        <ListItemText primary={densityLabels[d]} />
                         {density === d && <Check fontSize="small" color="primary" />}
                       </MenuItem>
                     ))}
@@ -781,7 +1591,7 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
               {/* Column visibility */}
               {showColumns && (
                 <>
-                  <Tooltip title={toolbarConfig.columnVisibilityLabel || 'Show / hide columns'}>
+                  <Tooltip title={toolbarConfig.columnVisibilityLabel || text.toolbarColumns}>
                     <IconButton onClick={(e) => setColumnAnchorEl(e.currentTarget)}>
                       <ViewColumn />
                     </IconButton>
@@ -790,24 +1600,116 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
                     anchorEl={columnAnchorEl}
                     open={Boolean(columnAnchorEl)}
                     onClose={() => setColumnAnchorEl(null)}
-                    PaperProps={{ sx: { maxHeight: 400, width: 250 } }}
+                    dir={localeDir}
+                    PaperProps={{ sx: { maxHeight: 400, width: 280 } }}
                   >
                     <Box sx={{ px: 2, py: 1 }}>
                       <Typography variant="subtitle2">
-                        {toolbarConfig.columnMenuTitle || 'Toggle Columns'}
+                        {toolbarConfig.columnMenuTitle || text.columnMenuTitle}
                       </Typography>
                     </Box>
                     <Divider />
-                    {allColumns.map((col) => (
+                    {allColumns.map((col, colIndex) => (
                       <MenuItem
                         key={col.id}
                         dense
+                        data-column-id={col.id}
+                        aria-keyshortcuts={enableColumnReorder ? 'Alt+ArrowUp Alt+ArrowDown' : undefined}
                         onClick={() => handleColumnVisibilityChange(col.id, !visibleColumns.includes(col.id))}
+                        onKeyDown={enableColumnReorder ? (e) => {
+                          if (!e.altKey || (e.key !== 'ArrowUp' && e.key !== 'ArrowDown')) return;
+                          // Keep the menu from moving focus to the next item
+                          e.preventDefault();
+                          e.stopPropagation();
+                          stepColumn(col.id, e.key === 'ArrowUp' ? -1 : 1, e.currentTarget);
+                        } : undefined}
                       >
                         <Checkbox checked={visibleColumns.includes(col.id)} size="small" />
                         <ListItemText primary={col.label} />
+                        {enableColumnReorder && (
+                          <>
+                            <IconButton
+                              size="small"
+                              tabIndex={-1}
+                              disabled={colIndex === 0}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                stepColumn(col.id, -1, e.currentTarget.closest('li') as HTMLElement);
+                              }}
+                              aria-label={text.columnMenuMoveUp(col.label)}
+                            >
+                              <KeyboardArrowUp fontSize="small" />
+                            </IconButton>
+                            <IconButton
+                              size="small"
+                              tabIndex={-1}
+                              disabled={colIndex === allColumns.length - 1}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                stepColumn(col.id, 1, e.currentTarget.closest('li') as HTMLElement);
+                              }}
+                              aria-label={text.columnMenuMoveDown(col.label)}
+                            >
+                              <KeyboardArrowDown fontSize="small" />
+                            </IconButton>
+                          </>
+                        )}
                       </MenuItem>
                     ))}
+                    {/* Menu children must not be Fragments, hence the array */}
+                    {groupingEnabled && [
+                      <Divider key="group-by-divider" />,
+                      <Box key="group-by-title" sx={{ px: 2, py: 1 }}>
+                        <Typography variant="subtitle2">{text.columnMenuGroupBy}</Typography>
+                      </Box>,
+                      ...allColumns.filter(col => col.groupable !== false).map((col) => {
+                        const groupIndex = groupBy.indexOf(col.id);
+                        return (
+                          <MenuItem key={`group-by-${col.id}`} dense onClick={() => toggleGroupByColumn(col.id)}>
+                            <Checkbox checked={groupIndex >= 0} size="small" />
+                            <ListItemText
+                              primary={col.label}
+                              secondary={groupIndex >= 0 && groupBy.length > 1 ? text.columnMenuGroupLevel(groupIndex + 1) : undefined}
+                            />
+                          </MenuItem>
+                        );
+                      }),
+                    ]}
+                    {enableColumnPinning && [
+                      <Divider key="pin-divider" />,
+                      <Box key="pin-title" sx={{ px: 2, py: 1 }}>
+                        <Typography variant="subtitle2">{text.columnMenuPinColumns}</Typography>
+                      </Box>,
+                      ...allColumns.filter(col => col.pinnable !== false).map((col) => {
+                        const pin = getColumnPin(col.id);
+                        return (
+                          <MenuItem key={`pin-${col.id}`} dense onClick={() => cycleColumnPin(col.id)}>
+                            <ListItemText
+                              primary={col.label}
+                              secondary={pin ? text.columnMenuPinned(pin) : undefined}
+                            />
+                            {(['left', 'right'] as const).map(side => (
+                              <IconButton
+                                key={side}
+                                size="small"
+                                tabIndex={-1}
+                                color={pin === side ? 'primary' : 'default'}
+                                aria-pressed={pin === side}
+                                aria-label={text.columnMenuPinColumn(col.label, side)}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  pinColumn(col.id, pin === side ? null : side);
+                                }}
+                              >
+                                {pin === side
+                                  ? <PushPin fontSize="small" sx={{ transform: getPinIconTransform(side) }} />
+                                  : <PushPinOutlined fontSize="small" sx={{ transform: getPinIconTransform(side) }} />}
+                              </IconButton>
+                            ))}
+                          </MenuItem>
+                        );
+                      }),
+                    ]}
                   </Menu>
                 </>
               )}
@@ -815,7 +1717,7 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
               {/* Export */}
               {showExport && (
                 <>
-                  <Tooltip title={exportConfig.buttonLabel || 'Export data'}>
+                  <Tooltip title={exportConfig.buttonLabel || text.toolbarExportTooltip}>
                     <Button
                       variant="outlined"
                       size="small"
@@ -824,10 +1726,10 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
                       onClick={(e) => setExportAnchorEl(e.currentTarget)}
                       sx={{ display: { xs: 'none', sm: 'flex' } }}
                     >
-                      {exportConfig.buttonLabel || 'Export'}
+                      {exportConfig.buttonLabel || text.toolbarExport}
                     </Button>
                   </Tooltip>
-                  <Tooltip title={exportConfig.buttonLabel || 'Export data'}>
+                  <Tooltip title={exportConfig.buttonLabel || text.toolbarExportTooltip}>
                     <IconButton
                       onClick={(e) => setExportAnchorEl(e.currentTarget)}
                       sx={{ display: { xs: 'flex', sm: 'none' } }}
@@ -839,6 +1741,7 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
                     anchorEl={exportAnchorEl}
                     open={Boolean(exportAnchorEl)}
                     onClose={() => setExportAnchorEl(null)}
+                    dir={localeDir}
                   >
                     {exportFormats.map((format) => (
                       <MenuItem key={format} onClick={() => handleExport(format)}>
@@ -848,7 +1751,7 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
                            format === 'word'  ? <Description fontSize="small" /> :
                                                <TextSnippet fontSize="small" />}
                         </ListItemIcon>
-                        <ListItemText primary={`Export as ${getExportFormatLabel(format)}`} />
+                        <ListItemText primary={text.toolbarExportAs(getExportFormatLabel(format))} />
                       </MenuItem>
                     ))}
                   </Menu>
@@ -859,12 +1762,81 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
         )}
       </Box>
 
+      {/* ================================================================= */}
+      {/* BULK ACTIONS                                                        */}
+      {/* ================================================================= */}
+      {bulkActions && (
+        <BulkActionsBar
+          config={bulkActions}
+          selectedRows={selectedRows}
+          selection={selectionModel}
+          onSelectionChange={setSelection}
+          onDeleteRow={onDelete}
+          deleteLabel={deleteLabel}
+          exportFormats={showExport ? exportFormats : []}
+          onExport={handleExport}
+          getRowLabel={bulkActions.getRowLabel ?? ((row) => String(getRowKeyValue(row)))}
+          onActionComplete={invalidate}
+          localeText={text}
+          dir={localeDir}
+        />
+      )}
+
+      {/* ================================================================= */}
+      {/* SELECT ALL MATCHING                                                 */}
+      {/* ================================================================= */}
+      {showSelectAllMatchingBanner && (
+        <Box
+          role="status"
+          sx={{
+            px: 2,
+            py: 1,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            flexWrap: 'wrap',
+            gap: 1,
+            borderBottom: '1px solid',
+            borderColor: 'divider',
+            bgcolor: 'action.hover',
+          }}
+        >
+          {isAllMatchingSelected ? (
+            <>
+              <Typography variant="body2">
+                {selectionModel.excludedKeys.length > 0
+                  ? text.selectionSomeMatching(selectedCount, matchingRowCount)
+                  : text.selectionAllMatching(matchingRowCount)}
+              </Typography>
+              <Button size="small" onClick={clearSelection}>{text.selectionClear}</Button>
+            </>
+          ) : (
+            <>
+              <Typography variant="body2">
+                {text.selectionPageSelected(data.length)}
+              </Typography>
+              <Button size="small" onClick={selectAllMatching}>
+                {text.selectionSelectAllMatching(matchingRowCount)}
+              </Button>
+            </>
+          )}
+        </Box>
+      )}
+
       {/* ================================================================= */}
       {/* ERROR STATE                                                         */}
       {/* ================================================================= */}
-      {error && (
-        <Alert severity="error" sx={{ m: 2 }}>
-          {error}
+      {(error || fetchError || batchSaveError) && (
+        <Alert
+          severity="error"
+          sx={{ m: 2 }}
+          action={fetchError && (
+            <Button color="inherit" size="small" onClick={retryFetch} disabled={loading || loadingMore}>
+              {text.retry}
+            </Button>
+          )}
+        >
+          {error || fetchError?.message || batchSaveError || text.loadError}
         </Alert>
       )}
 
@@ -872,8 +1844,12 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
       {/* TABLE                                                               */}
       {/* ================================================================= */}
       <TableContainer
+        ref={tableContainerRef}
+        onKeyDown={handleTableKeyDown}
         sx={{
-          maxHeight: { xs: 'calc(100vh - 350px)', md: 'calc(100vh - 320px)' },
+          maxHeight: virtualization.height
+            ?? { xs: 'calc(100vh - 350px)', md: 'calc(100vh - 320px)' },
+          height: virtualization.enabled ? virtualization.height : undefined,
           minHeight: 200,
           overflowX: 'auto',
         }}
@@ -881,15 +1857,29 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
         <Table
           stickyHeader
           size={density === 'compact' ? 'small' : 'medium'}
-          aria-label={ariaLabel || title || 'Data table'}
-          sx={{ minWidth: { xs: 'auto', sm: 650 }, tableLayout: 'auto' }}
+          role="grid"
+          aria-label={ariaLabel || title || text.tableLabel}
+          aria-rowcount={ariaRowCount}
+          aria-colcount={columnCount}
+          aria-multiselectable={selectionConfig.enabled && selectionConfig.mode !== 'single' ? true : undefined}
+          aria-busy={loading || undefined}
+          {...gridProps}
+          sx={{
+            minWidth: { xs: 'auto', sm: 650 },
+            tableLayout: 'auto',
+            '& [data-grid-row] > :focus-visible': {
+              outline: `2px solid ${theme.palette.primary.main}`,
+              outlineOffset: -2,
+            },
+          }}
         >
           {/* Head */}
           <TableHead>
-            <TableRow>
+            <TableRow ref={headerRowRef} data-grid-row={0} aria-rowindex={1}>
               {selectionConfig.enabled && (
                 <TableCell
                   padding="checkbox"
+                  tabIndex={getCellTabIndex(0, 0)}
                   sx={{ bgcolor: styleConfig.headerBackgroundColor || 'background.paper' }}
                 >
                   {selectionConfig.showSelectAll !== false && selectionConfig.mode !== 'single' && (
@@ -897,175 +1887,619 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
                       indeterminate={isIndeterminate}
                       checked={isAllSelected}
                       onChange={(e) => handleSelectAll(e.target.checked)}
+                      tabIndex={-1}
+                      inputProps={{ 'aria-label': text.selectAllRows }}
                       size={density === 'compact' ? 'small' : 'medium'}
                     />
                   )}
                 </TableCell>
               )}
 
-              {visibleColumnsForViewport.map((column) => (
+              {hasDetailPanel && (
+                <TableCell
+                  padding="checkbox"
+                  tabIndex={getCellTabIndex(0, leadingCellCount - 1)}
+                  sx={{ bgcolor: styleConfig.headerBackgroundColor || 'background.paper' }}
+                />
+              )}
+
+              {visibleColumnsForViewport.map((column, columnIndex) => (
                 <TableCell
                   key={column.id}
                   align={column.align || 'left'}
+                  data-column-id={column.id}
+                  tabIndex={getCellTabIndex(0, leadingCellCount + columnIndex)}
+                  aria-sort={getAriaSort(column)}
+                  draggable={enableColumnReorder && !resizingColumnId}
+                  onDragStart={enableColumnReorder ? (e) => {
+                    // Dragging a resize handle must not move the column
+                    if (resizingColumnId) {
+                      e.preventDefault();
+                      return;
+                    }
+                    e.dataTransfer.effectAllowed = 'move';
+                    e.dataTransfer.setData('text/plain', column.id);
+                    setDraggedColumnId(column.id);
+                  } : undefined}
+                  onDragOver={enableColumnReorder ? (e) => {
+                    if (!draggedColumnId) return;
+                    e.preventDefault();
+                    e.dataTransfer.dropEffect = 'move';
+                    const rect = e.currentTarget.getBoundingClientRect();
+                    const after = isRtl ? e.clientX < rect.left + rect.width / 2 : e.clientX > rect.left + rect.width / 2;
+                    if (columnDropTarget?.columnId !== column.id || columnDropTarget.after !== after) {
+                      setColumnDropTarget({ columnId: column.id, after });
+                    }
+                  } : undefined}
+                  onDrop={enableColumnReorder ? (e) => {
+                    e.preventDefault();
+                    handleColumnDrop();
+                  } : undefined}
+                  onDragEnd={enableColumnReorder ? endColumnDrag : undefined}
                   sx={{
-                    minWidth: column.minWidth,
-                    maxWidth: column.maxWidth,
-                    width: column.width,
+                    ...getColumnWidthSx(column),
                     fontWeight: 600,
                     bgcolor: styleConfig.headerBackgroundColor || 'background.paper',
                     color: styleConfig.headerTextColor,
                     padding: cellPadding,
                     position: column.sticky ? 'sticky' : undefined,
-                    left: column.sticky === 'left' ? 0 : undefined,
-                    right: column.sticky === 'right' ? 0 : undefined,
+                    insetInlineStart: column.sticky === 'left' ? stickyOffsets[column.id] : undefined,
+                    insetInlineEnd: column.sticky === 'right' ? stickyOffsets[column.id] : undefined,
                     zIndex: column.sticky ? 3 : 2,
+                    opacity: draggedColumnId === column.id ? 0.5 : undefined,
+                    boxShadow: joinShadows(
+                      columnDropTarget?.columnId === column.id && draggedColumnId !== column.id
+                        ? `inset ${(columnDropTarget.after ? -3 : 3) * shadowSign}px 0 0 ${theme.palette.primary.main}`
+                        : undefined,
+                      getPinShadow(column)
+                    ),
                   }}
                 >
                   {column.tooltip ? (
                     <Tooltip title={column.tooltip} placement="top">
-                      <span>
-                        {column.sortable !== false ? (
-                          <TableSortLabel
-                            active={sort.column === column.id}
-                            direction={sort.column === column.id && sort.direction ? sort.direction : 'asc'}
-                            onClick={() => handleSortChange(column.id)}
-                          >
-                            {column.renderHeader ? column.renderHeader(column) : column.label}
-                          </TableSortLabel>
-                        ) : (
-                          column.renderHeader ? column.renderHeader(column) : column.label
-                        )}
-                      </span>
+                      <span>{renderHeaderLabel(column)}</span>
                     </Tooltip>
-                  ) : column.sortable !== false ? (
-                    <TableSortLabel
-                      active={sort.column === column.id}
-                      direction={sort.column === column.id && sort.direction ? sort.direction : 'asc'}
-                      onClick={() => handleSortChange(column.id)}
-                    >
-                      {column.renderHeader ? column.renderHeader(column) : column.label}
-                    </TableSortLabel>
                   ) : (
-                    column.renderHeader ? column.renderHeader(column) : column.label
+                    renderHeaderLabel(column)
+                  )}
+                  {canPinColumn(column) && (
+                    <IconButton
+                      size="small"
+                      tabIndex={-1}
+                      aria-label={text.columnHeaderPinOptions(column.label)}
+                      aria-haspopup="menu"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setPinMenu({ anchorEl: e.currentTarget, columnId: column.id });
+                      }}
+                      sx={{
+                        marginInlineStart: 0.5,
+                        p: 0.25,
+                        color: column.sticky ? 'primary.main' : 'text.secondary',
+                        opacity: column.sticky || pinMenu?.columnId === column.id ? 1 : 0,
+                        transition: theme.transitions.create('opacity'),
+                        'th:hover &, &:focus-visible': { opacity: 1 },
+                      }}
+                    >
+                      {column.sticky ? <PushPin sx={{ fontSize: 16 }} /> : <PushPinOutlined sx={{ fontSize: 16 }} />}
+                    </IconButton>
+                  )}
+                  {enableColumnResize && column.resizable !== false && (
+                    <Box
+                      data-resize-handle
+                      role="separator"
+                      aria-orientation="vertical"
+                      aria-label={text.columnHeaderResize(column.label)}
+                      aria-valuenow={getColumnWidth(column)}
+                      aria-valuemin={column.minWidth}
+                      aria-valuemax={column.maxWidth}
+                      tabIndex={-1}
+                      draggable={false}
+                      {...getResizeHandleProps(column)}
+                      sx={{
+                        position: 'absolute',
+                        top: 0,
+                        bottom: 0,
+                        insetInlineEnd: 0,
+                        width: 8,
+                        cursor: 'col-resize',
+                        touchAction: 'none',
+                        zIndex: 1,
+                        '&::after': {
+                          content: '""',
+                          position: 'absolute',
+                          top: '25%',
+                          bottom: '25%',
+                          insetInlineEnd: 3,
+                          width: 2,
+                          borderRadius: 1,
+                          bgcolor: resizingColumnId === column.id ? 'primary.main' : 'divider',
+                          opacity: resizingColumnId === column.id ? 1 : 0,
+                          transition: 'opacity 0.15s',
+                        },
+                        '&:hover::after, &:focus-visible::after': { opacity: 1 },
+                        '&:focus-visible': { outline: 'none' },
+                        '&:focus-visible::after': { bgcolor: 'primary.main' },
+                      }}
+                    />
                   )}
                 </TableCell>
               ))}
+
+              {showRowEditActions && (
+                <TableCell
+                  padding="checkbox"
+                  tabIndex={getCellTabIndex(0, columnCount - 1)}
+                  sx={{ bgcolor: styleConfig.headerBackgroundColor || 'background.paper' }}
+                />
+              )}
             </TableRow>
+
+            {filterConfig.showFilterRow && (
+              <FilterRow
+                columns={visibleColumnsForViewport}
+                filters={filters}
+                onFilterChange={handleFilterChange}
+                debounceMs={filterConfig.filterDebounceMs ?? 300}
+                hasSelectionColumn={!!selectionConfig.enabled}
+                hasExpandColumn={hasDetailPanel}
+                hasActionsColumn={showRowEditActions}
+                cellPadding={density === 'compact' ? '2px 4px' : '4px 8px'}
+                backgroundColor={styleConfig.headerBackgroundColor}
+                top={headerRowHeight}
+                stickyOffsets={stickyOffsets}
+                getColumnWidth={getColumnWidth}
+                getPinShadow={getPinShadow}
+                gridRow={1}
+                getCellTabIndex={getCellTabIndex}
+                localeText={text}
+                dir={localeDir}
+                ariaRowIndex={2}
+              />
+            )}
           </TableHead>
 
           {/* Body */}
           <TableBody>
             {loading ? (
               renderSkeletonRows()
-            ) : data.length === 0 ? (
+            ) : bodyItems.length === 0 ? (
               <TableRow>
                 <TableCell
-                  colSpan={visibleColumnsForViewport.length + (selectionConfig.enabled ? 1 : 0)}
+                  colSpan={columnCount}
                   sx={{ py: 8, textAlign: 'center' }}
                 >
                   {emptyComponent || (
                     <Box>
                       <TableChart sx={{ fontSize: 48, color: 'text.disabled', mb: 2 }} />
-                      <Typography color="text.secondary">{emptyMessage}</Typography>
+                      <Typography color="text.secondary">{emptyMessage ?? text.noRows}</Typography>
                     </Box>
                   )}
                 </TableCell>
               </TableRow>
             ) : (
-              data.map((row, rowIndex) => {
-                const rowKey = getRowKey(row, rowIndex);
-                const isSelected = isRowSelected(row);
-
-                return (
-                  <TableRow
-                    key={rowKey}
-                    hover={styleConfig.hoverEffect !== false}
-                    selected={isSelected}
-                    onClick={(e) => {
-                      if (selectionConfig.enabled) handleSelectionChange(row);
-                      onRowClick?.(row, rowIndex, e);
-                    }}
-                    onDoubleClick={(e) => {
-                      handleDoubleClickSelection(row);
-                      if (onView && (viewEnabled ?? true)) {
-                        onView(row);
-                      } else {
-                        onRowDoubleClick?.(row, rowIndex, e);
-                      }
-                    }}
-                    sx={{
-                      ...getRowStyle(rowIndex),
-                      cursor: (onRowClick || onRowDoubleClick || onView || selectionConfig.enabled)
-                        ? 'pointer'
-                        : 'default',
-                      '&:hover': styleConfig.hoverEffect !== false ? {
-                        bgcolor: styleConfig.hoverColor || alpha(theme.palette.primary.main, 0.08),
-                      } : undefined,
-                    }}
-                  >
-                    {selectionConfig.enabled && (
-                      <TableCell padding="checkbox">
-                        <Checkbox
-                          checked={isSelected}
-                          onChange={() => handleSelectionChange(row)}
-                          onClick={(e) => e.stopPropagation()}
-                          size={density === 'compact' ? 'small' : 'medium'}
-                        />
-                      </TableCell>
-                    )}
-
-                    {visibleColumnsForViewport.map((column) => (
-                      <TableCell
-                        key={column.id}
-                        align={column.align || 'left'}
+              <>
+                {virtualPaddingTop > 0 && (
+                  <TableRow aria-hidden sx={{ height: virtualPaddingTop }}>
+                    <TableCell colSpan={columnCount} sx={{ p: 0, border: 0 }} />
+                  </TableRow>
+                )}
+                {bodyItems.slice(virtualStart, virtualEnd).map((item, sliceIndex) => {
+                  const rowIndex = virtualStart + sliceIndex;
+                  if (item.type === 'group') return renderGroupRow(item, rowIndex);
+                  const { row, depth } = item;
+                  const rowKey = getRowKey(row, rowIndex);
+                  const gridRow = rowIndex + headerRowCount;
+                  const isSelected = isRowSelected(row);
+                  const removed = isEditMode && isRowRemoved(row);
+                  const expanded = hasDetailPanel && isRowExpanded(row);
+                  // Edit mode: a coloured edge marks added, removed and changed rows
+                  const rowMarkerColor = !isEditMode ? undefined
+                    : isRowAdded(row) ? theme.palette.success.main
+                    : removed ? theme.palette.error.main
+                    : isRowDirty(row) ? theme.palette.warning.main
+                    : undefined;
+
+                  return (
+                    <React.Fragment key={rowKey}>
+                      <TableRow
+                        ref={virtualization.enabled ? measureRow(rowIndex) : undefined}
+                        hover={styleConfig.hoverEffect !== false}
+                        selected={isSelected}
+                        data-grid-row={gridRow}
+                        aria-rowindex={getAriaRowIndex(rowIndex)}
+                        aria-selected={selectionConfig.enabled ? isSelected : undefined}
+                        aria-expanded={hasDetailPanel ? expanded : undefined}
+                        onMouseDown={(e) => {
+                          // Keep Shift-click from selecting the text between the two rows
+                          if (selectionConfig.enabled && e.shiftKey) e.preventDefault();
+                        }}
+                        onClick={(e) => {
+                          if (selectionConfig.enabled) {
+                            handleRowSelectionClick(row, { shiftKey: e.shiftKey, toggleKey: e.ctrlKey || e.metaKey });
+                          }
+                          if (hasDetailPanel && detailPanelConfig.expandOnRowClick) toggleRowExpanded(row);
+                          onRowClick?.(row, rowIndex, e);
+                        }}
+                        onDoubleClick={(e) => {
+                          handleDoubleClickSelection(row);
+                          if (onView && (viewEnabled ?? true)) {
+                            onView(row);
+                          } else {
+                            onRowDoubleClick?.(row, rowIndex, e);
+                          }
+                        }}
                         sx={{
-                          padding: cellPadding,
-                          position: column.sticky ? 'sticky' : undefined,
-                          left: column.sticky === 'left' ? 0 : undefined,
-                          right: column.sticky === 'right' ? 0 : undefined,
-                          bgcolor: column.sticky ? 'background.paper' : 'inherit',
-                          zIndex: column.sticky ? 1 : undefined,
+                          ...getRowStyle(rowIndex),
+                          cursor: (onRowClick || onRowDoubleClick || onView || selectionConfig.enabled)
+                            ? 'pointer'
+                            : 'default',
+                          '&:hover': styleConfig.hoverEffect !== false ? {
+                            bgcolor: styleConfig.hoverColor || alpha(theme.palette.primary.main, 0.08),
+                          } : undefined,
+                          ...(rowMarkerColor && {
+                            '& > td:first-of-type': { boxShadow: `inset ${3 * shadowSign}px 0 0 ${rowMarkerColor}` },
+                          }),
+                          ...(removed && { opacity: 0.5, textDecoration: 'line-through' }),
                         }}
-                        className={column.className}
                       >
-                        {renderCellContent(row, column, rowIndex)}
-                      </TableCell>
-                    ))}
+                        {selectionConfig.enabled && (
+                          <TableCell padding="checkbox" tabIndex={getCellTabIndex(gridRow, 0)}>
+                            <Checkbox
+                              checked={isSelected}
+                              indeterminate={isRowIndeterminate(row)}
+                              tabIndex={-1}
+                              inputProps={{ 'aria-label': text.selectRow }}
+                              // Handled on click rather than change, to see the Shift key
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleRowSelectionClick(row, { shiftKey: e.shiftKey, toggleKey: true });
+                              }}
+                              size={density === 'compact' ? 'small' : 'medium'}
+                            />
+                          </TableCell>
+                        )}
+
+                        {hasDetailPanel && (
+                          <TableCell padding="checkbox" tabIndex={getCellTabIndex(gridRow, leadingCellCount - 1)}>
+                            <IconButton
+                              size="small"
+                              tabIndex={-1}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                toggleRowExpanded(row);
+                              }}
+                              aria-expanded={expanded}
+                              aria-label={expanded ? text.detailCollapse : text.detailExpand}
+                            >
+                              <KeyboardArrowRight
+                                fontSize="small"
+                                sx={{
+                                  transition: theme.transitions.create('transform'),
+                                  transform: expanded ? 'rotate(90deg)' : collapsedChevronTransform,
+                                }}
+                              />
+                            </IconButton>
+                          </TableCell>
+                        )}
+
+                        {visibleColumnsForViewport.map((column, columnIndex) => {
+                          const editable = isCellEditable(row, column);
+                          const showBatchEditor = isEditMode && editable && !removed;
+                          const isEditing = editable && !isEditMode
+                            && editingCell?.columnId === column.id
+                            && editingCell.rowKey === String(row[props.rowKeyField || 'id']);
+                          const cellError = editable ? getCellError(row, column.id) : undefined;
+                          const dirty = isEditMode && isCellDirty(row, column.id);
+                          const canStartEdit = editable && !isEditMode;
+                          const treeInfo = isTreeData && columnIndex === 0 ? getTreeRowInfo(row) : undefined;
+
+                          const cellContent = showBatchEditor ? (
+                            <CellEditor
+                              column={column}
+                              value={getBatchValue(row, column.id)}
+                              error={cellError}
+                              size="small"
+                              autoFocus={false}
+                              localeText={text}
+                              dir={localeDir}
+                              onCommit={(value) => updateBatchCell(row, column.id, value)}
+                              onCancel={() => undefined}
+                            />
+                          ) : isEditing ? (
+                            <CellEditor
+                              column={column}
+                              value={getNestedValue(row, column.id)}
+                              error={cellError}
+                              size={density === 'compact' ? 'small' : 'medium'}
+                              localeText={text}
+                              dir={localeDir}
+                              onCommit={(value) => { commitCellEdit(row, column.id, value); }}
+                              onCancel={cancelCellEdit}
+                            />
+                          ) : cellError ? (
+                            <Tooltip title={cellError}>
+                              <Box component="span">{renderCellContent(row, column, rowIndex)}</Box>
+                            </Tooltip>
+                          ) : (
+                            renderCellContent(row, column, rowIndex)
+                          );
+
+                          return (
+                            <TableCell
+                              key={column.id}
+                              align={column.align || 'left'}
+                              data-column-id={column.id}
+                              tabIndex={getCellTabIndex(gridRow, leadingCellCount + columnIndex)}
+                              onDoubleClick={canStartEdit ? (e) => {
+                                e.stopPropagation();
+                                startCellEdit(row, column.id);
+                              } : undefined}
+                              onKeyDown={canStartEdit ? (e) => {
+                                if (!isEditing && e.key === 'Enter' && e.target === e.currentTarget) {
+                                  e.preventDefault();
+                                  startCellEdit(row, column.id);
+                                } else if (isEditing && (e.key === 'Enter' || e.key === 'Escape')) {
+                                  // Return focus to the cell once the editor closes
+                                  const cell = e.currentTarget;
+                                  requestAnimationFrame(() => {
+                                    if (!cell.contains(document.activeElement)) cell.focus();
+                                  });
+                                }
+                              } : undefined}
+                              sx={{
+                                padding: cellPadding,
+                                ...(depth > 0 && columnIndex === 0 && { paddingInlineStart: getGroupIndent(depth) }),
+                                ...(treeInfo && { paddingInlineStart: getTreeIndent(treeInfo.depth) }),
+                                ...(isColumnSized(column) && {
+                                  maxWidth: getColumnWidth(column),
+                                  overflow: 'hidden',
+                                  textOverflow: 'ellipsis',
+                                }),
+                                position: column.sticky ? 'sticky' : undefined,
+                                insetInlineStart: column.sticky === 'left' ? stickyOffsets[column.id] : undefined,
+                                insetInlineEnd: column.sticky === 'right' ? stickyOffsets[column.id] : undefined,
+                                bgcolor: column.sticky ? 'background.paper' : 'inherit',
+                                zIndex: column.sticky ? 1 : undefined,
+                                cursor: canStartEdit ? 'text' : undefined,
+                                backgroundImage: dirty
+                                  ? `linear-gradient(${alpha(theme.palette.warning.main, 0.14)}, ${alpha(theme.palette.warning.main, 0.14)})`
+                                  : undefined,
+                                boxShadow: joinShadows(
+                                  cellError && !isEditing && !showBatchEditor
+                                    ? `inset 0 0 0 2px ${theme.palette.error.main}`
+                                    : undefined,
+                                  getPinShadow(column)
+                                ),
+                              }}
+                              className={column.className}
+                            >
+                              {treeInfo ? (
+                                <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, marginInlineStart: -0.5 }}>
+                                  {renderTreeToggle(row, treeInfo)}
+                                  <Box sx={{ flex: 1, minWidth: 0 }}>{cellContent}</Box>
+                                </Box>
+                              ) : (
+                                cellContent
+                              )}
+                            </TableCell>
+                          );
+                        })}
+
+                        {showRowEditActions && (
+                          <TableCell
+                            padding="checkbox"
+                            tabIndex={getCellTabIndex(gridRow, columnCount - 1)}
+                            onClick={(e) => e.stopPropagation()}
+                          >
+                            <Tooltip title={removed ? text.editModeRestoreRow : text.editModeRemoveRow}>
+                              <IconButton
+                                size="small"
+                                tabIndex={-1}
+                                onClick={() => toggleBatchRowRemoved(row)}
+                                disabled={batchSaving}
+                                aria-label={removed ? text.editModeRestoreRow : text.editModeRemoveRow}
+                              >
+                                {removed ? <RestoreFromTrash fontSize="small" /> : <DeleteOutline fontSize="small" />}
+                              </IconButton>
+                            </Tooltip>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                      {hasDetailPanel && expanded && (
+                        <TableRow data-detail-panel>
+                          <TableCell colSpan={columnCount} sx={{ p: 0, bgcolor: 'action.hover' }}>
+                            <Box sx={{ px: 3, py: 2 }}>
+                              {renderDetailContent(row)}
+                            </Box>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+                {virtualPaddingBottom > 0 && (
+                  <TableRow aria-hidden sx={{ height: virtualPaddingBottom }}>
+                    <TableCell colSpan={columnCount} sx={{ p: 0, border: 0 }} />
                   </TableRow>
-                );
-              })
+                )}
+              </>
             )}
           </TableBody>
+
+          {/* Totals footer */}
+          {hasTotalsRow && (
+            <TableFooter>
+              <TableRow
+                aria-rowindex={ariaRowCount}
+                sx={{
+                  '& > td': {
+                    position: aggregation.sticky !== false ? 'sticky' : undefined,
+                    bottom: 0,
+                    zIndex: 2,
+                    bgcolor: 'background.paper',
+                    borderTop: `2px solid ${theme.palette.divider}`,
+                    borderBottom: 0,
+                    color: 'text.primary',
+                    fontSize: '0.875rem',
+                    fontWeight: 600,
+                  },
+                }}
+              >
+                {selectionConfig.enabled && <TableCell padding="checkbox" />}
+                {hasDetailPanel && <TableCell padding="checkbox" />}
+                {visibleColumnsForViewport.map((column, columnIndex) => (
+                  <TableCell
+                    key={column.id}
+                    align={column.align || 'left'}
+                    data-column-id={column.id}
+                    sx={{
+                      padding: cellPadding,
+                      insetInlineStart: column.sticky === 'left' ? stickyOffsets[column.id] : undefined,
+                      insetInlineEnd: column.sticky === 'right' ? stickyOffsets[column.id] : undefined,
+                      zIndex: column.sticky ? 3 : undefined,
+                      boxShadow: getPinShadow(column),
+                    }}
+                  >
+                    {columnIndex === 0 && !hasColumnTotal(column) ? totalsLabel : renderTotal(column)}
+                  </TableCell>
+                ))}
+                {showRowEditActions && <TableCell padding="checkbox" />}
+              </TableRow>
+            </TableFooter>
+          )}
         </Table>
       </TableContainer>
 
+      {/* Header pin menu */}
+      <Menu
+        anchorEl={pinMenu?.anchorEl}
+        open={Boolean(pinMenu)}
+        onClose={() => setPinMenu(null)}
+        dir={localeDir}
+      >
+        {([['left', text.pinToLeft], ['right', text.pinToRight], [null, text.unpin]] as const).map(([side, label]) => {
+          const current = pinMenu ? getColumnPin(pinMenu.columnId) : null;
+          return (
+            <MenuItem
+              key={label}
+              dense
+              disabled={side === null && current === null}
+              onClick={() => {
+                if (pinMenu) pinColumn(pinMenu.columnId, side);
+                setPinMenu(null);
+              }}
+            >
+              <ListItemText primary={label} />
+              {side !== null && current === side && <Check fontSize="small" color="primary" />}
+            </MenuItem>
+          );
+        })}
+      </Menu>
+
       {/* ================================================================= */}
       {/* PAGINATION                                                          */}
       {/* ================================================================= */}
-      <TablePagination
-        component="div"
-        count={totalCount}
-        page={page}
-        rowsPerPage={rowsPerPage}
-        onPageChange={(_, newPage) => handlePageChange(newPage)}
-        onRowsPerPageChange={(e) => handleRowsPerPageChange(parseInt(e.target.value, 10))}
-        rowsPerPageOptions={rowsPerPageOptions}
-        labelRowsPerPage={isMobile ? 'Rows:' : (paginationConfig.rowsPerPageLabel || 'Rows per page:')}
-        ActionsComponent={(actionProps) => (
-          <TablePaginationActions
-            {...actionProps}
-            showFirstLastButtons={paginationConfig.showFirstLastButtons !== false}
+      {isPaginated ? (
+        <Box
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            flexWrap: 'wrap',
+            paddingInlineStart: selectionSummary ? 2 : 0,
+            borderTop: '1px solid',
+            borderColor: 'divider',
+          }}
+        >
+          {selectionSummary}
+          <TablePagination
+            component="div"
+            count={totalCount}
+            page={page}
+            rowsPerPage={rowsPerPage}
+            onPageChange={(_, newPage) => handlePageChange(newPage)}
+            onRowsPerPageChange={(e) => handleRowsPerPageChange(parseInt(e.target.value, 10))}
+            rowsPerPageOptions={rowsPerPageOptions}
+            labelRowsPerPage={
+              paginateByGroups
+                ? (isMobile ? text.paginationGroupsPerPageShort : text.paginationGroupsPerPage)
+                : (isMobile
+                  ? text.paginationRowsPerPageShort
+                  : (paginationConfig.rowsPerPageLabel || text.paginationRowsPerPage))
+            }
+            labelDisplayedRows={text.paginationDisplayedRows}
+            ActionsComponent={(actionProps) => (
+              <TablePaginationActions
+                {...actionProps}
+                showFirstLastButtons={paginationConfig.showFirstLastButtons !== false}
+                localeText={text}
+                rtl={isRtl}
+              />
+            )}
+            sx={{
+              flexGrow: 1,
+              '.MuiTablePagination-toolbar': { flexWrap: 'wrap', justifyContent: 'flex-end' },
+              '.MuiTablePagination-selectLabel, .MuiTablePagination-displayedRows': {
+                fontSize: { xs: '0.75rem', sm: '0.875rem' },
+              },
+            }}
           />
-        )}
-        sx={{
-          borderTop: '1px solid',
-          borderColor: 'divider',
-          '.MuiTablePagination-toolbar': { flexWrap: 'wrap', justifyContent: 'flex-end' },
-          '.MuiTablePagination-selectLabel, .MuiTablePagination-displayedRows': {
-            fontSize: { xs: '0.75rem', sm: '0.875rem' },
-          },
-        }}
-      />
+        </Box>
+      ) : isCursorMode ? (
+        <Box
+          sx={{
+            px: 2,
+            py: 1,
+            borderTop: '1px solid',
+            borderColor: 'divider',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'flex-end',
+            gap: 2,
+          }}
+        >
+          {selectionSummary}
+          {loadingMore && <CircularProgress size={16} />}
+          <Typography variant="body2" color="text.secondary" role="status">
+            {text.footerLoadedRows(data.length, hasMore && totalCount > data.length ? totalCount : null)}
+          </Typography>
+          {fetchError ? (
+            <>
+              <Typography variant="body2" color="error" role="alert">
+                {text.footerLoadMoreError}
+              </Typography>
+              <Button size="small" onClick={retryFetch} disabled={loading || loadingMore}>
+                {text.retry}
+              </Button>
+            </>
+          ) : hasMore && (
+            <Button size="small" onClick={loadMore} disabled={loading || loadingMore}>
+              {text.footerLoadMore}
+            </Button>
+          )}
+        </Box>
+      ) : (
+        <Box
+          sx={{
+            px: 2,
+            py: 1.5,
+            borderTop: '1px solid',
+            borderColor: 'divider',
+            display: 'flex',
+            justifyContent: 'flex-end',
+          }}
+        >
+          {selectionSummary}
+          <Typography variant="body2" color="text.secondary">
+            {text.footerRowCount(totalCount)}
+          </Typography>
+        </Box>
+      )}
+
+      {/* Live region for sort, filter and page announcements */}
+      <Box role="status" aria-live="polite" aria-atomic="true" sx={visuallyHiddenSx}>
+        {announcement}
+      </Box>
 
       {/* ================================================================= */}
       {/* ADVANCED SEARCH DIALOG                                             */}
@@ -1076,10 +2510,12 @@ function DataTable<T extends Record<string, unknown>>(props: DataTableProps<T>)
           onClose={() => setSearchDialogOpen(false)}
           onSearch={handleAdvancedSearch}
           searchableFields={searchableFields}
-          title={searchConfig.dialogTitle || 'Advanced Search'}
+          title={searchConfig.dialogTitle}
           defaultField={searchConfig.defaultSearchField || searchableFields[0]?.id}
           initialCriteria={advancedSearch.criteria.length > 0 ? advancedSearch.criteria : undefined}
           maxCriteria={searchConfig.maxCriteria || 10}
+          localeText={text}
+          dir={localeDir}
         />
       )}
     </Paper>
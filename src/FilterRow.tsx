@@ -0,0 +1,473 @@
+'use client';
+
+/**
+ * Next Nice DataTable - Inline Filter Row
+ * Per-column filter editors rendered beneath the table header.
+ *
+ * @author Stellarx Team
+ * @version 2.1.0
+ */
+
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  TableRow,
+  TableCell,
+  TextField,
+  Select,
+  MenuItem,
+  Menu,
+  ListItemText,
+  InputAdornment,
+  Tooltip,
+  ButtonBase,
+  Checkbox,
+  Stack,
+} from '@mui/material';
+import { Check } from '@mui/icons-material';
+import { DataTableColumn, ColumnFilter, DataTableLocaleText, FilterOperator, FilterState } from './types';
+import { VALUELESS_FILTER_OPERATORS } from './filterUtils';
+
+export interface FilterRowProps<T> {
+  columns: DataTableColumn<T>[];
+  filters: FilterState;
+  onFilterChange: (columnId: string, value: unknown, operator: FilterOperator) => void;
+  /** Debounce applied to free-text editors (text / number) */
+  debounceMs?: number;
+  /** Render an empty leading cell to line up with the selection checkbox column */
+  hasSelectionColumn?: boolean;
+  /** Render an empty leading cell to line up with the detail-panel expand column */
+  hasExpandColumn?: boolean;
+  /** Render an empty trailing cell to line up with the edit-mode row actions */
+  hasActionsColumn?: boolean;
+  cellPadding?: string;
+  backgroundColor?: string;
+  /** Sticky offset – the height of the header row above this one */
+  top?: number;
+  /** Inline-start / inline-end offset of each sticky column, by column id */
+  stickyOffsets?: Record<string, number>;
+  /** Current width of a column, so resized columns keep their width in this row */
+  getColumnWidth?: (column: DataTableColumn<T>) => number | undefined;
+  /** Shadow drawn at the pin boundary, so this row matches the header and body */
+  getPinShadow?: (column: DataTableColumn<T>) => string | undefined;
+  /** Position of this row in the grid, for `aria-rowindex` */
+  ariaRowIndex?: number;
+  /** This row's number in keyboard grid navigation (`data-grid-row`) */
+  gridRow?: number;
+  /**
+   * Roving tabindex of each cell. The editors themselves stay out of the tab
+   * order and are reached with Enter / F2 on their cell.
+   */
+  getCellTabIndex?: (row: number, col: number) => 0 | -1;
+  localeText: DataTableLocaleText;
+  /** Text direction of the portaled operator menu and select lists */
+  dir?: 'ltr' | 'rtl';
+}
+
+type FilterEditorType = NonNullable<DataTableColumn['filterType']>;
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+const OPERATORS_BY_TYPE: Record<FilterEditorType, FilterOperator[]> = {
+  text: ['contains', 'equals', 'notEquals', 'startsWith', 'endsWith', 'isEmpty', 'isNotEmpty'],
+  number: ['equals', 'notEquals', 'greaterThan', 'lessThan', 'between', 'isEmpty', 'isNotEmpty'],
+  date: ['equals', 'before', 'after', 'between', 'isEmpty', 'isNotEmpty'],
+  select: ['equals', 'notEquals', 'in', 'notIn', 'isEmpty', 'isNotEmpty'],
+  boolean: ['equals'],
+};
+
+// Shown on the operator button; the names come from the locale
+const OPERATOR_SYMBOLS: Record<FilterOperator, string> = {
+  equals: '=',
+  notEquals: '≠',
+  contains: '≈',
+  startsWith: 'a…',
+  endsWith: '…z',
+  greaterThan: '>',
+  lessThan: '<',
+  between: '↔',
+  before: '<',
+  after: '>',
+  in: '∈',
+  notIn: '∉',
+  isEmpty: '∅',
+  isNotEmpty: '≠∅',
+};
+
+const LIST_OPERATORS: FilterOperator[] = ['in', 'notIn'];
+
+function getColumnFilterType<T>(column: DataTableColumn<T>): FilterEditorType {
+  if (column.filterType) return column.filterType;
+  return column.filterOptions && column.filterOptions.length > 0 ? 'select' : 'text';
+}
+
+function getDefaultOperator(type: FilterEditorType): FilterOperator {
+  return type === 'text' ? 'contains' : 'equals';
+}
+
+function toEditorString(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? '' : value.toISOString().slice(0, 10);
+  return String(value);
+}
+
+/** Convert a stored filter value back into the string shown by a single-value editor. */
+function toEditorValue(filter: ColumnFilter | undefined): string {
+  if (!filter || VALUELESS_FILTER_OPERATORS.includes(filter.operator)) return '';
+  if (Array.isArray(filter.value)) return '';
+  return toEditorString(filter.value);
+}
+
+/** Convert a stored `between` tuple into the two strings shown by the range editor. */
+function toEditorRange(filter: ColumnFilter | undefined): [string, string] {
+  if (!filter || filter.operator !== 'between' || !Array.isArray(filter.value)) return ['', ''];
+  return [toEditorString(filter.value[0]), toEditorString(filter.value[1])];
+}
+
+// ============================================================================
+// FILTER CELL
+// ============================================================================
+
+interface FilterCellProps<T> {
+  column: DataTableColumn<T>;
+  filter?: ColumnFilter;
+  onFilterChange: (columnId: string, value: unknown, operator: FilterOperator) => void;
+  debounceMs: number;
+  localeText: DataTableLocaleText;
+  dir?: 'ltr' | 'rtl';
+}
+
+function FilterCell<T>({ column, filter, onFilterChange, debounceMs, localeText, dir }: FilterCellProps<T>) {
+  const type = getColumnFilterType(column);
+  const operators = OPERATORS_BY_TYPE[type];
+  const [pendingOperator, setPendingOperator] = useState<FilterOperator | null>(null);
+  const operator = filter?.operator && operators.includes(filter.operator)
+    ? filter.operator
+    : pendingOperator ?? getDefaultOperator(type);
+
+  const [localValue, setLocalValue] = useState(toEditorValue(filter));
+  const [localRange, setLocalRange] = useState<[string, string]>(toEditorRange(filter));
+  const [operatorAnchorEl, setOperatorAnchorEl] = useState<null | HTMLElement>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Keep the editors in sync when filters are changed from outside (e.g. "clear filters")
+  const externalValue = toEditorValue(filter);
+  const [externalMin, externalMax] = toEditorRange(filter);
+  useEffect(() => {
+    setLocalValue(externalValue);
+  }, [externalValue]);
+  useEffect(() => {
+    setLocalRange([externalMin, externalMax]);
+  }, [externalMin, externalMax]);
+
+  useEffect(() => {
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+    };
+  }, []);
+
+  const parseValue = useCallback((raw: string): unknown => {
+    if (raw === '') return '';
+    if (type === 'number') {
+      const num = Number(raw);
+      return Number.isNaN(num) ? '' : num;
+    }
+    if (type === 'boolean') return raw === 'true';
+    if (type === 'select') {
+      const option = column.filterOptions?.[Number(raw)];
+      return option ? option.value : '';
+    }
+    return raw;
+  }, [type, column.filterOptions]);
+
+  const commitValue = useCallback((value: unknown, op: FilterOperator) => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    onFilterChange(column.id, value, op);
+  }, [column.id, onFilterChange]);
+
+  const commit = useCallback((raw: string, op: FilterOperator) => {
+    commitValue(parseValue(raw), op);
+  }, [commitValue, parseValue]);
+
+  const commitRange = useCallback((range: [string, string]) => {
+    commitValue([parseValue(range[0]), parseValue(range[1])], 'between');
+  }, [commitValue, parseValue]);
+
+  const handleInputChange = useCallback((raw: string) => {
+    setLocalValue(raw);
+    if (timerRef.current) clearTimeout(timerRef.current);
+    if (type === 'date') {
+      commit(raw, operator);
+      return;
+    }
+    timerRef.current = setTimeout(() => commit(raw, operator), debounceMs);
+  }, [commit, operator, debounceMs, type]);
+
+  const handleRangeChange = useCallback((index: 0 | 1, raw: string) => {
+    const next: [string, string] = index === 0 ? [raw, localRange[1]] : [localRange[0], raw];
+    setLocalRange(next);
+    if (timerRef.current) clearTimeout(timerRef.current);
+    if (type === 'date') {
+      commitRange(next);
+      return;
+    }
+    timerRef.current = setTimeout(() => commitRange(next), debounceMs);
+  }, [localRange, commitRange, debounceMs, type]);
+
+  const handleOperatorSelect = useCallback((op: FilterOperator) => {
+    setOperatorAnchorEl(null);
+    setPendingOperator(op);
+    if (VALUELESS_FILTER_OPERATORS.includes(op)) {
+      setLocalValue('');
+      commitValue('', op);
+    } else if (op === 'between') {
+      // Seed the lower bound with whatever was typed so far
+      const next: [string, string] = [localValue, ''];
+      setLocalRange(next);
+      commitRange(next);
+    } else if (LIST_OPERATORS.includes(op)) {
+      // Carry the current selection over into the list
+      let carried: unknown[] = [];
+      if (filter && LIST_OPERATORS.includes(filter.operator) && Array.isArray(filter.value)) {
+        carried = filter.value;
+      } else if (filter && !Array.isArray(filter.value) && filter.value !== '') {
+        carried = [filter.value];
+      }
+      commitValue(carried, op);
+    } else {
+      const raw = operator === 'between' ? localRange[0] : localValue;
+      setLocalValue(raw);
+      commit(raw, op);
+    }
+  }, [commit, commitValue, commitRange, localValue, localRange, filter, operator]);
+
+  const operatorAdornment = operators.length > 1 && (
+    <InputAdornment position="start" sx={{ mr: 0.5 }}>
+      <Tooltip title={localeText.filterOperators[operator]}>
+        <ButtonBase
+          tabIndex={-1}
+          onClick={(e) => setOperatorAnchorEl(e.currentTarget)}
+          aria-label={localeText.filterOperatorLabel(column.label)}
+          sx={{
+            minWidth: 24,
+            px: 0.5,
+            borderRadius: 1,
+            fontSize: '0.75rem',
+            fontWeight: 600,
+            color: filter ? 'primary.main' : 'text.secondary',
+          }}
+        >
+          {OPERATOR_SYMBOLS[operator]}
+        </ButtonBase>
+      </Tooltip>
+    </InputAdornment>
+  );
+
+  const isValueless = VALUELESS_FILTER_OPERATORS.includes(operator);
+  const inputType = type === 'number' ? 'number' : type === 'date' ? 'date' : 'text';
+
+  // Select options are keyed by index because option values may be non-string
+  const optionIndexOf = (value: unknown): string => {
+    const index = column.filterOptions?.findIndex(o => String(o.value) === String(value)) ?? -1;
+    return index >= 0 ? String(index) : '';
+  };
+
+  let editor: React.ReactNode;
+  if (type === 'select' && LIST_OPERATORS.includes(operator)) {
+    const selected = Array.isArray(filter?.value) ? filter.value.map(optionIndexOf).filter(Boolean) : [];
+    editor = (
+      <Select<string[]>
+        size="small"
+        fullWidth
+        multiple
+        displayEmpty
+        value={selected}
+        onChange={(e) => {
+          const indices = typeof e.target.value === 'string' ? e.target.value.split(',') : e.target.value;
+          commitValue(indices.map(parseValue).filter(v => v !== ''), operator);
+        }}
+        renderValue={(indices) =>
+          indices.length === 0
+            ? <em>{localeText.filterAll}</em>
+            : indices.map(i => column.filterOptions?.[Number(i)]?.label).join(', ')
+        }
+        startAdornment={operatorAdornment || undefined}
+        MenuProps={{ dir }}
+        inputProps={{ 'aria-label': localeText.filterLabel(column.label), tabIndex: -1 }}
+        sx={{ fontSize: '0.8125rem' }}
+      >
+        {column.filterOptions?.map((option, index) => (
+          <MenuItem key={index} value={String(index)} dense>
+            <Checkbox size="small" checked={selected.includes(String(index))} sx={{ p: 0.5, mr: 1 }} />
+            <ListItemText primary={option.label} />
+          </MenuItem>
+        ))}
+      </Select>
+    );
+  } else if (type === 'select' || type === 'boolean') {
+    const selectValue = type === 'select' && filter && !isValueless && !Array.isArray(filter.value)
+      ? optionIndexOf(filter.value)
+      : localValue;
+    editor = (
+      <Select
+        size="small"
+        fullWidth
+        displayEmpty
+        disabled={isValueless}
+        value={selectValue}
+        onChange={(e) => { setLocalValue(e.target.value); commit(e.target.value, operator); }}
+        startAdornment={operatorAdornment || undefined}
+        MenuProps={{ dir }}
+        inputProps={{ 'aria-label': localeText.filterLabel(column.label), tabIndex: -1 }}
+        sx={{ fontSize: '0.8125rem' }}
+      >
+        <MenuItem value=""><em>{localeText.filterAll}</em></MenuItem>
+        {type === 'boolean'
+          ? [
+              <MenuItem key="true" value="true">{localeText.booleanTrue}</MenuItem>,
+              <MenuItem key="false" value="false">{localeText.booleanFalse}</MenuItem>,
+            ]
+          : column.filterOptions?.map((option, index) => (
+              <MenuItem key={index} value={String(index)}>{option.label}</MenuItem>
+            ))}
+      </Select>
+    );
+  } else if (operator === 'between') {
+    editor = (
+      <Stack direction="row" spacing={0.5} alignItems="center">
+        <TextField
+          size="small"
+          type={inputType}
+          placeholder={localeText.filterMin}
+          value={localRange[0]}
+          onChange={(e) => handleRangeChange(0, e.target.value)}
+          inputProps={{ 'aria-label': localeText.filterFromLabel(column.label), tabIndex: -1 }}
+          InputProps={{
+            startAdornment: operatorAdornment || undefined,
+            sx: { fontSize: '0.8125rem' },
+          }}
+          sx={{ flex: 1, minWidth: 0 }}
+        />
+        <TextField
+          size="small"
+          type={inputType}
+          placeholder={localeText.filterMax}
+          value={localRange[1]}
+          onChange={(e) => handleRangeChange(1, e.target.value)}
+          inputProps={{ 'aria-label': localeText.filterToLabel(column.label), tabIndex: -1 }}
+          InputProps={{ sx: { fontSize: '0.8125rem' } }}
+          sx={{ flex: 1, minWidth: 0 }}
+        />
+      </Stack>
+    );
+  } else {
+    editor = (
+      <TextField
+        size="small"
+        fullWidth
+        type={inputType}
+        disabled={isValueless}
+        placeholder={isValueless ? localeText.filterOperators[operator] : localeText.filterPlaceholder}
+        value={localValue}
+        onChange={(e) => handleInputChange(e.target.value)}
+        inputProps={{ 'aria-label': localeText.filterLabel(column.label), tabIndex: -1 }}
+        InputProps={{
+          startAdornment: operatorAdornment || undefined,
+          sx: { fontSize: '0.8125rem' },
+        }}
+      />
+    );
+  }
+
+  return (
+    <>
+      {editor}
+      <Menu
+        anchorEl={operatorAnchorEl}
+        open={Boolean(operatorAnchorEl)}
+        onClose={() => setOperatorAnchorEl(null)}
+        dir={dir}
+      >
+        {operators.map((op) => (
+          <MenuItem key={op} dense selected={op === operator} onClick={() => handleOperatorSelect(op)}>
+            <ListItemText primary={localeText.filterOperators[op]} />
+            {op === operator && <Check fontSize="small" color="primary" sx={{ ml: 1 }} />}
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export default function FilterRow<T>({
+  columns,
+  filters,
+  onFilterChange,
+  debounceMs = 300,
+  hasSelectionColumn = false,
+  hasExpandColumn = false,
+  hasActionsColumn = false,
+  cellPadding = '4px 8px',
+  backgroundColor,
+  top = 0,
+  stickyOffsets = {},
+  getColumnWidth = (column) => column.width,
+  getPinShadow,
+  ariaRowIndex,
+  gridRow,
+  getCellTabIndex,
+  localeText,
+  dir,
+}: FilterRowProps<T>) {
+  const stickyCellSx = {
+    bgcolor: backgroundColor || 'background.paper',
+    padding: cellPadding,
+    top,
+  };
+
+  const leadingCellCount = (hasSelectionColumn ? 1 : 0) + (hasExpandColumn ? 1 : 0);
+  const getTabIndex = (col: number) => (gridRow === undefined ? undefined : getCellTabIndex?.(gridRow, col));
+
+  return (
+    <TableRow aria-rowindex={ariaRowIndex} data-grid-row={gridRow}>
+      {hasSelectionColumn && <TableCell padding="checkbox" tabIndex={getTabIndex(0)} sx={stickyCellSx} />}
+      {hasExpandColumn && <TableCell padding="checkbox" tabIndex={getTabIndex(leadingCellCount - 1)} sx={stickyCellSx} />}
+      {columns.map((column, columnIndex) => (
+        <TableCell
+          key={column.id}
+          tabIndex={getTabIndex(leadingCellCount + columnIndex)}
+          sx={{
+            ...stickyCellSx,
+            minWidth: column.minWidth,
+            maxWidth: column.maxWidth,
+            width: getColumnWidth(column),
+            position: 'sticky',
+            insetInlineStart: column.sticky === 'left' ? stickyOffsets[column.id] : undefined,
+            insetInlineEnd: column.sticky === 'right' ? stickyOffsets[column.id] : undefined,
+            zIndex: column.sticky ? 3 : 2,
+            boxShadow: getPinShadow?.(column),
+          }}
+        >
+          {column.filterable !== false && (
+            <FilterCell
+              column={column}
+              filter={filters[column.id]}
+              onFilterChange={onFilterChange}
+              debounceMs={debounceMs}
+              localeText={localeText}
+              dir={dir}
+            />
+          )}
+        </TableCell>
+      ))}
+      {hasActionsColumn && (
+        <TableCell padding="checkbox" tabIndex={getTabIndex(leadingCellCount + columns.length)} sx={stickyCellSx} />
+      )}
+    </TableRow>
+  );
+}
@@ -42,7 +42,8 @@ import {
   Clear,
   Tune,
 } from '@mui/icons-material';
-import { SearchField, SearchCriteria, AdvancedSearchState, SearchOperator } from './types';
+import { SearchField, SearchCriteria, AdvancedSearchState, SearchOperator, DataTableLocaleText } from './types';
+import { enLocale } from './locales';
 
 export interface SearchDialogProps {
   open: boolean;
@@ -53,6 +54,10 @@ export interface SearchDialogProps {
   defaultField?: string;
   initialCriteria?: SearchCriteria[];
   maxCriteria?: number;
+  /** Text of the dialog (default: English) */
+  localeText?: DataTableLocaleText;
+  /** Text direction of the dialog (default: the document's) */
+  dir?: 'ltr' | 'rtl';
 }
 
 // ============================================================================
@@ -61,12 +66,7 @@ export interface SearchDialogProps {
 
 const generateId = () => Math.random().toString(36).substring(2, 9);
 
-const OPERATORS = [
-  { value: 'CONTAINS', label: 'Contains' },
-  { value: 'EQUALS', label: 'Equals' },
-  { value: 'STARTS_WITH', label: 'Starts with' },
-  { value: 'ENDS_WITH', label: 'Ends with' },
-];
+const OPERATORS: SearchOperator[] = ['CONTAINS', 'EQUALS', 'STARTS_WITH', 'ENDS_WITH'];
 
 // ============================================================================
 // COMPONENT
@@ -77,10 +77,12 @@ export default function SearchDialog({
   onClose,
   onSearch,
   searchableFields,
-  title = 'Advanced Search',
+  title,
   defaultField,
   initialCriteria,
   maxCriteria = 10,
+  localeText = enLocale.text,
+  dir,
 }: SearchDialogProps) {
   const theme = useTheme();
   
@@ -176,6 +178,7 @@ export default function SearchDialog({
       fullWidth
       TransitionComponent={Fade}
       PaperProps={{
+        dir,
         sx: {
           borderRadius: 3,
           overflow: 'hidden',
@@ -196,7 +199,7 @@ export default function SearchDialog({
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
           <Tune />
           <Typography variant="h6" sx={{ fontWeight: 600 }}>
-            {title}
+            {title ?? localeText.searchTitle}
           </Typography>
         </Box>
         <IconButton onClick={onClose} size="small" sx={{ color: 'white' }}>
@@ -217,19 +220,18 @@ export default function SearchDialog({
           }}
         >
           <Typography variant="body2" color="text.secondary">
-            Build your search query by adding fields and values. Multiple criteria can be combined 
-            using <strong>AND</strong> (all must match) or <strong>OR</strong> (any can match).
+            {localeText.searchInstructions}
           </Typography>
         </Paper>
 
         {/* Match Mode Toggle */}
         <Box sx={{ mb: 3, display: 'flex', alignItems: 'center', gap: 2 }}>
           <Typography variant="body2" color="text.secondary">
-            Match mode:
+            {localeText.searchMatchMode}
           </Typography>
           <Stack direction="row" spacing={1}>
             <Chip
-              label="Match ALL"
+              label={localeText.searchMatchAll}
               variant={matchAll ? 'filled' : 'outlined'}
               color={matchAll ? 'primary' : 'default'}
               onClick={() => setMatchAll(true)}
@@ -237,7 +239,7 @@ export default function SearchDialog({
               sx={{ fontWeight: matchAll ? 600 : 400 }}
             />
             <Chip
-              label="Match ANY"
+              label={localeText.searchMatchAny}
               variant={!matchAll ? 'filled' : 'outlined'}
               color={!matchAll ? 'primary' : 'default'}
               onClick={() => setMatchAll(false)}
@@ -294,10 +296,11 @@ export default function SearchDialog({
 
                 {/* Field Selector */}
                 <FormControl size="small" sx={{ minWidth: 150, flex: 1 }}>
-                  <InputLabel>Field</InputLabel>
+                  <InputLabel>{localeText.searchField}</InputLabel>
                   <Select
                     value={criterion.field}
-                    label="Field"
+                    label={localeText.searchField}
+                    MenuProps={{ dir }}
                     onChange={(e) => handleUpdateCriterion(criterion.id, { field: e.target.value })}
                   >
                     {searchableFields.map((field) => (
@@ -310,17 +313,18 @@ export default function SearchDialog({
 
                 {/* Operator Selector */}
                 <FormControl size="small" sx={{ minWidth: 130 }}>
-                  <InputLabel>Operator</InputLabel>
+                  <InputLabel>{localeText.searchOperator}</InputLabel>
                   <Select
                     value={criterion.operator}
-                    label="Operator"
+                    label={localeText.searchOperator}
+                    MenuProps={{ dir }}
                     onChange={(e) => handleUpdateCriterion(criterion.id, { 
                       operator: e.target.value as SearchOperator 
                     })}
                   >
                     {OPERATORS.map((op) => (
-                      <MenuItem key={op.value} value={op.value}>
-                        {op.label}
+                      <MenuItem key={op} value={op}>
+                        {localeText.searchOperators[op]}
                       </MenuItem>
                     ))}
                   </Select>
@@ -329,7 +333,7 @@ export default function SearchDialog({
                 {/* Value Input */}
                 <TextField
                   size="small"
-                  placeholder={`Search in ${getFieldLabel(criterion.field)}...`}
+                  placeholder={localeText.searchValuePlaceholder(getFieldLabel(criterion.field))}
                   value={criterion.value}
                   onChange={(e) => handleUpdateCriterion(criterion.id, { value: e.target.value })}
                   sx={{ flex: 2, minWidth: 200 }}
@@ -360,7 +364,7 @@ export default function SearchDialog({
 
                 {/* Remove Button */}
                 {criteria.length > 1 && (
-                  <Tooltip title="Remove this criterion">
+                  <Tooltip title={localeText.searchRemoveCriterion}>
                     <IconButton
                       size="small"
                       color="error"
@@ -387,7 +391,7 @@ export default function SearchDialog({
                   }}
                 >
                   <Chip
-                    label={matchAll ? 'AND' : 'OR'}
+                    label={matchAll ? localeText.searchAnd : localeText.searchOr}
                     size="small"
                     color={matchAll ? 'primary' : 'secondary'}
                     variant="outlined"
@@ -408,7 +412,7 @@ export default function SearchDialog({
             variant="outlined"
             size="small"
           >
-            Add Search Field
+            {localeText.searchAddCriterion}
           </Button>
         )}
       </DialogContent>
@@ -423,11 +427,11 @@ export default function SearchDialog({
           color="inherit"
           size="small"
         >
-          Clear All
+          {localeText.searchClearAll}
         </Button>
         <Stack direction="row" spacing={2}>
           <Button onClick={onClose} color="inherit">
-            Cancel
+            {localeText.cancel}
           </Button>
           <Button
             onClick={handleSubmit}
@@ -439,7 +443,7 @@ export default function SearchDialog({
               background: `linear-gradient(135deg, ${theme.palette.primary.main} 0%, ${theme.palette.primary.dark} 100%)`,
             }}
           >
-            Search
+            {localeText.searchSubmit}
           </Button>
         </Stack>
       </DialogActions>
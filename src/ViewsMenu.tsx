@@ -0,0 +1,235 @@
+'use client';
+
+/**
+ * Next Nice DataTable - Saved Views Menu
+ * Toolbar button and menu for switching between saved views, with a small
+ * dialog for naming new views and renaming existing ones.
+ *
+ * @author Stellarx Team
+ * @version 2.1.0
+ */
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Add,
+  ArrowDropDown,
+  BookmarkBorder,
+  Check,
+  DeleteOutline,
+  Edit,
+  Save,
+  Star,
+  StarBorder,
+} from '@mui/icons-material';
+import type { SavedViewsResult } from './useSavedViews';
+import { DataTableLocaleText } from './types';
+
+export interface ViewsMenuProps {
+  views: SavedViewsResult;
+  /** Button label when no view is active (default: the locale's) */
+  label?: string;
+  localeText: DataTableLocaleText;
+  /** Text direction of the menu and dialog, which render outside the table */
+  dir?: 'ltr' | 'rtl';
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export default function ViewsMenu({ views, label, localeText, dir }: ViewsMenuProps) {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  // Name dialog: a new view (viewId null) or a rename
+  const [nameDialog, setNameDialog] = useState<{ viewId: string | null; name: string } | null>(null);
+
+  const { activeView, isActiveViewModified } = views;
+
+  const closeMenu = () => setAnchorEl(null);
+
+  const openNameDialog = (viewId: string | null, name: string) => {
+    closeMenu();
+    setNameDialog({ viewId, name });
+  };
+
+  const trimmedName = nameDialog?.name.trim() ?? '';
+  const nameTaken = views.views.some(view => view.name === trimmedName && view.id !== nameDialog?.viewId);
+
+  const submitName = () => {
+    if (!nameDialog || !trimmedName || nameTaken) return;
+    if (nameDialog.viewId) views.renameView(nameDialog.viewId, trimmedName);
+    else views.saveView(trimmedName);
+    setNameDialog(null);
+  };
+
+  return (
+    <>
+      <Tooltip title={isActiveViewModified ? localeText.viewsModifiedHint : localeText.viewsTitle}>
+        <Button
+          variant="outlined"
+          size="small"
+          startIcon={<BookmarkBorder />}
+          endIcon={<ArrowDropDown />}
+          onClick={(e) => setAnchorEl(e.currentTarget)}
+          aria-haspopup="menu"
+        >
+          {activeView ? `${activeView.name}${isActiveViewModified ? ' *' : ''}` : label ?? localeText.viewsButton}
+        </Button>
+      </Tooltip>
+
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={closeMenu}
+        dir={dir}
+        PaperProps={{ sx: { maxHeight: 420, width: 300 } }}
+      >
+        <Box sx={{ px: 2, py: 1 }}>
+          <Typography variant="subtitle2">{localeText.viewsTitle}</Typography>
+        </Box>
+        <Divider />
+
+        {views.loading && (
+          <MenuItem disabled>
+            <ListItemIcon><CircularProgress size={16} /></ListItemIcon>
+            <ListItemText primary={localeText.viewsLoading} />
+          </MenuItem>
+        )}
+        {views.error && (
+          <Box sx={{ px: 2, py: 1 }}>
+            <Typography variant="body2" color="error">{views.error}</Typography>
+          </Box>
+        )}
+        {!views.loading && views.views.length === 0 && (
+          <MenuItem disabled>
+            <ListItemText primary={localeText.viewsEmpty} />
+          </MenuItem>
+        )}
+
+        {views.views.map((view) => (
+          <MenuItem
+            key={view.id}
+            dense
+            selected={view.id === activeView?.id}
+            onClick={() => {
+              views.applyView(view.id);
+              closeMenu();
+            }}
+          >
+            <ListItemIcon>
+              {view.id === activeView?.id && <Check fontSize="small" color="primary" />}
+            </ListItemIcon>
+            <ListItemText
+              primary={view.name}
+              secondary={view.isDefault ? localeText.viewsDefault : undefined}
+              primaryTypographyProps={{ noWrap: true }}
+            />
+            <Tooltip title={view.isDefault ? localeText.viewsRemoveDefault : localeText.viewsSetDefault}>
+              <IconButton
+                size="small"
+                tabIndex={-1}
+                aria-label={view.isDefault
+                  ? localeText.viewsRemoveDefaultLabel(view.name)
+                  : localeText.viewsSetDefaultLabel(view.name)}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  views.setDefaultView(view.isDefault ? null : view.id);
+                }}
+              >
+                {view.isDefault ? <Star fontSize="small" color="warning" /> : <StarBorder fontSize="small" />}
+              </IconButton>
+            </Tooltip>
+            <Tooltip title={localeText.viewsRename}>
+              <IconButton
+                size="small"
+                tabIndex={-1}
+                aria-label={localeText.viewsRenameLabel(view.name)}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  openNameDialog(view.id, view.name);
+                }}
+              >
+                <Edit fontSize="small" />
+              </IconButton>
+            </Tooltip>
+            <Tooltip title={localeText.viewsDelete}>
+              <IconButton
+                size="small"
+                tabIndex={-1}
+                aria-label={localeText.viewsDeleteLabel(view.name)}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  views.deleteView(view.id);
+                }}
+              >
+                <DeleteOutline fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          </MenuItem>
+        ))}
+
+        <Divider />
+        {activeView && isActiveViewModified && (
+          <MenuItem
+            onClick={() => {
+              views.updateView(activeView.id);
+              closeMenu();
+            }}
+          >
+            <ListItemIcon><Save fontSize="small" /></ListItemIcon>
+            <ListItemText primary={localeText.viewsSaveChanges(activeView.name)} primaryTypographyProps={{ noWrap: true }} />
+          </MenuItem>
+        )}
+        <MenuItem onClick={() => openNameDialog(null, '')}>
+          <ListItemIcon><Add fontSize="small" /></ListItemIcon>
+          <ListItemText primary={localeText.viewsSaveAs} />
+        </MenuItem>
+      </Menu>
+
+      <Dialog open={!!nameDialog} onClose={() => setNameDialog(null)} maxWidth="xs" fullWidth dir={dir}>
+        <DialogTitle>{nameDialog?.viewId ? localeText.viewsRenameTitle : localeText.viewsSaveTitle}</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            margin="dense"
+            label={localeText.viewsNameLabel}
+            value={nameDialog?.name ?? ''}
+            onChange={(e) => setNameDialog(prev => (prev ? { ...prev, name: e.target.value } : prev))}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                submitName();
+              }
+            }}
+            error={nameTaken}
+            helperText={nameTaken ? localeText.viewsNameTaken : ' '}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setNameDialog(null)}>{localeText.cancel}</Button>
+          <Button variant="contained" onClick={submitName} disabled={!trimmedName || nameTaken}>
+            {localeText.viewsSave}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,43 @@
+/**
+ * Next Nice DataTable - Aggregate Utilities
+ * Built-in column aggregates (sum, avg, min, max, count), shared by group
+ * headers, the totals footer and the totals row in exports.
+ *
+ * @author Stellarx Team
+ * @version 2.1.0
+ */
+
+import { AggregateFunction } from './types';
+import { formatNumber } from './localeUtils';
+
+/**
+ * Apply a built-in aggregate to a list of cell values.
+ * Empty and non-numeric values are skipped; `count` counts non-empty values.
+ * Returns null when there is nothing to aggregate.
+ */
+export function computeAggregate(values: unknown[], fn: AggregateFunction): number | null {
+  const present = values.filter(value => value !== null && value !== undefined && value !== '');
+
+  if (fn === 'count') return present.length;
+
+  const numbers = present.map(Number).filter(num => !Number.isNaN(num));
+  if (numbers.length === 0) return null;
+
+  switch (fn) {
+    case 'sum': return numbers.reduce((total, num) => total + num, 0);
+    case 'avg': return numbers.reduce((total, num) => total + num, 0) / numbers.length;
+    // reduce rather than Math.min(...numbers): spreading 100k+ values overflows the stack
+    case 'min': return numbers.reduce((min, num) => (num < min ? num : min));
+    case 'max': return numbers.reduce((max, num) => (num > max ? num : max));
+    default: {
+      const exhaustive: never = fn;
+      console.warn(`Unknown aggregate function: ${exhaustive}`);
+      return null;
+    }
+  }
+}
+
+/** Display text for an aggregate result that has no column format (default: runtime locale). */
+export function formatAggregateNumber(value: number, locale?: string): string {
+  return formatNumber(value, locale, { maximumFractionDigits: 2 });
+}
@@ -17,7 +17,10 @@
 import * as XLSX from 'xlsx';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
-import { DataTableColumn, ExportConfig, ExportFormat } from './types';
+import { DataTableColumn, DataTableLocale, ExportConfig, ExportFormat } from './types';
+import { computeAggregate } from './aggregateUtils';
+import { formatDate } from './localeUtils';
+import { enLocale } from './locales';
 
 // ============================================================================
 // SECURITY-HARDENED UTILITIES
@@ -42,6 +45,27 @@ export function getNestedValue(obj: unknown, path: string): unknown {
   return current;
 }
 
+/**
+ * Return a copy of `obj` with the (possibly nested) property at `path` set.
+ * Objects along the path are shallow-copied, so the original is never
+ * mutated; missing intermediate objects are created. A path containing a
+ * banned segment leaves the object unchanged.
+ */
+export function setNestedValue<T>(obj: T, path: string, value: unknown): T {
+  const parts = path.split('.');
+  if (parts.some(part => BANNED_KEYS.has(part))) return obj;
+
+  const assign = (target: unknown, index: number): Record<string, unknown> => {
+    const copy: Record<string, unknown> = Array.isArray(target)
+      ? ([...target] as unknown as Record<string, unknown>)
+      : target !== null && typeof target === 'object' ? { ...(target as Record<string, unknown>) } : {};
+    const key = parts[index];
+    copy[key] = index === parts.length - 1 ? value : assign(copy[key], index + 1);
+    return copy;
+  };
+  return assign(obj, 0) as T;
+}
+
 /**
  * Escape a value for safe insertion into HTML.
  * Handles null / undefined by returning an empty string.
@@ -83,22 +107,65 @@ function resolveHtmlContent(value: string | undefined, allowUnsafe: boolean): st
 // FORMAT VALUE FOR EXPORT
 // ============================================================================
 
+// Date and time of the "generated" line, as `toLocaleString()` printed it
+const DATE_TIME_FORMAT: Intl.DateTimeFormatOptions = { dateStyle: 'short', timeStyle: 'medium' };
+
 export function formatValueForExport<T>(
   value: unknown,
   row: T,
   column: DataTableColumn<T>,
-  rowIndex: number
+  rowIndex: number,
+  locale: DataTableLocale = enLocale
 ): string {
   if (column.exportFormat) {
     return column.exportFormat(value, row, rowIndex);
   }
   if (value === null || value === undefined) return '';
-  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
-  if (value instanceof Date) return value.toLocaleDateString();
+  if (typeof value === 'boolean') return value ? locale.text.booleanTrue : locale.text.booleanFalse;
+  if (value instanceof Date) return formatDate(value, locale.code);
   if (typeof value === 'object') return JSON.stringify(value);
   return String(value);
 }
 
+// ============================================================================
+// TOTALS ROW
+// ============================================================================
+
+/**
+ * Totals row for an export (one cell per exportable column), or null when no
+ * column has an aggregate or `includeTotals` is false. Numbers stay numbers so
+ * Excel can treat them numerically. Custom aggregates that render markup are
+ * left blank.
+ */
+function getTotalsRow<T>(
+  data: T[],
+  exportableColumns: DataTableColumn<T>[],
+  config: ExportConfig
+): (string | number)[] | null {
+  if (config.includeTotals === false) return null;
+  const totals = config.totals ?? {};
+  if (!exportableColumns.some(col => col.aggregate || totals[col.id] !== undefined)) return null;
+
+  const cells = exportableColumns.map((col): string | number => {
+    let value: unknown;
+    if (totals[col.id] !== undefined) value = totals[col.id];
+    else if (typeof col.aggregate === 'function') value = col.aggregate(data, col.id);
+    else if (col.aggregate) value = computeAggregate(data.map(row => getNestedValue(row, col.id)), col.aggregate);
+    else return '';
+
+    if (typeof value === 'number') {
+      if (col.exportFormat && col.aggregate !== 'count' && data.length > 0) {
+        return col.exportFormat(value, data[0], -1);
+      }
+      return Math.round(value * 100) / 100;
+    }
+    return typeof value === 'string' ? value : '';
+  });
+
+  if (cells[0] === '') cells[0] = config.totalsLabel || (config.locale ?? enLocale).text.totalsLabel;
+  return cells;
+}
+
 // ============================================================================
 // FILENAME HELPERS
 // ============================================================================
@@ -141,6 +208,7 @@ export function exportToCsv<T>(
   config: ExportConfig
 ): void {
   const exportableColumns = columns.filter(col => col.exportable !== false && !col.hidden);
+  const locale = config.locale ?? enLocale;
 
   const headers = exportableColumns.map(col => escapeCsvValue(col.label)).join(',');
 
@@ -148,12 +216,15 @@ export function exportToCsv<T>(
     exportableColumns
       .map(col => {
         const value = getNestedValue(row as Record<string, unknown>, col.id);
-        const formatted = formatValueForExport(value, row, col, rowIndex);
+        const formatted = formatValueForExport(value, row, col, rowIndex, locale);
         return escapeCsvValue(formatted);
       })
       .join(',')
   );
 
+  const totalsRow = getTotalsRow(data, exportableColumns, config);
+  if (totalsRow) rows.push(totalsRow.map(cell => escapeCsvValue(String(cell))).join(','));
+
   const csvContent = config.includeHeaders !== false
     ? [headers, ...rows].join('\n')
     : rows.join('\n');
@@ -172,13 +243,14 @@ export function exportToExcel<T>(
   config: ExportConfig
 ): void {
   const exportableColumns = columns.filter(col => col.exportable !== false && !col.hidden);
+  const locale = config.locale ?? enLocale;
 
   const rows: unknown[][] = data.map((row, rowIndex) =>
     exportableColumns.map(col => {
       const value = getNestedValue(row as Record<string, unknown>, col.id);
       // Keep numbers as numbers so Excel treats them numerically
       if (typeof value === 'number' && !col.exportFormat) return value;
-      return formatValueForExport(value, row, col, rowIndex);
+      return formatValueForExport(value, row, col, rowIndex, locale);
     })
   );
 
@@ -199,6 +271,9 @@ export function exportToExcel<T>(
   // Data
   sheetData.push(...rows);
 
+  const totalsRow = getTotalsRow(data, exportableColumns, config);
+  if (totalsRow) sheetData.push(totalsRow);
+
   const ws = XLSX.utils.aoa_to_sheet(sheetData);
 
   // Bold + background the title row if present
@@ -214,7 +289,9 @@ export function exportToExcel<T>(
   }));
 
   const wb = XLSX.utils.book_new();
-  XLSX.utils.book_append_sheet(wb, ws, 'Data');
+  XLSX.utils.book_append_sheet(wb, ws, locale.text.exportSheetName);
+  // Right-to-left sheet for right-to-left languages
+  if (locale.direction === 'rtl') wb.Workbook = { Views: [{ RTL: true }] };
 
   const filename = generateFilename(config.filename || 'export', 'xlsx');
   XLSX.writeFile(wb, filename);
@@ -224,6 +301,34 @@ export function exportToExcel<T>(
 // PDF EXPORT – uses jsPDF + jspdf-autotable for proper vector PDF files
 // ============================================================================
 
+// Characters jsPDF's built-in fonts can draw (WinAnsi encoding)
+const STANDARD_PDF_TEXT = /^[\t\n\r\u0020-\u00FF\u2013\u2014\u2018-\u201E\u2022\u2026\u20AC]*$/;
+
+/** Intl puts narrow spaces into numbers, dates and times; the built-in fonts lack them. */
+function toStandardPdfText(text: string): string {
+  return text.replace(/[\u2009\u202F]/g, '\u00A0');
+}
+
+/**
+ * Locale of the PDF's own text. Without `pdfFont`, a locale whose text the
+ * built-in fonts cannot draw falls back to English.
+ */
+function getPdfLocale(config: ExportConfig): DataTableLocale {
+  const locale = config.locale ?? enLocale;
+  if (config.pdfFont) return locale;
+  const { text } = locale;
+  const sample = [
+    text.exportGenerated(formatDate(new Date(0), locale.code, DATE_TIME_FORMAT), 1),
+    text.exportPageOf(1, 2),
+    text.exportPageShort(1, 2),
+    text.exportDocumentTitle,
+    text.totalsLabel,
+    text.booleanTrue,
+    text.booleanFalse,
+  ].join('');
+  return STANDARD_PDF_TEXT.test(toStandardPdfText(sample)) ? locale : enLocale;
+}
+
 export function exportToPdf<T>(
   data: T[],
   columns: DataTableColumn<T>[],
@@ -233,9 +338,21 @@ export function exportToPdf<T>(
   const orientation = config.pdfOrientation || 'portrait';
   const pageSize = config.pdfPageSize || 'a4';
   const allowUnsafe = config.allowUnsafeHtml === true;
+  const locale = getPdfLocale(config);
+  const pdfText = config.pdfFont ? (text: string) => text : toStandardPdfText;
 
   const doc = new jsPDF({ orientation, format: pageSize, unit: 'mm' });
 
+  // Only the regular style is embedded, so headings are not bold with a custom font
+  const font = config.pdfFont?.name;
+  if (config.pdfFont) {
+    const fileName = `${config.pdfFont.name}.ttf`;
+    doc.addFileToVFS(fileName, config.pdfFont.data);
+    doc.addFont(fileName, config.pdfFont.name, 'normal');
+    doc.setFont(config.pdfFont.name, 'normal');
+  }
+  const boldStyle = config.pdfFont ? 'normal' : 'bold';
+
   // ---- Header text above the table ----
   let cursorY = 15;
 
@@ -270,7 +387,7 @@ export function exportToPdf<T>(
   doc.setFontSize(8);
   doc.setTextColor(140, 140, 140);
   doc.text(
-    `Generated: ${new Date().toLocaleString()}  |  Records: ${data.length}`,
+    pdfText(locale.text.exportGenerated(formatDate(new Date(), locale.code, DATE_TIME_FORMAT), data.length)),
     14,
     cursorY
   );
@@ -281,19 +398,28 @@ export function exportToPdf<T>(
   const bodyRows = data.map((row, rowIndex) =>
     exportableColumns.map(col => {
       const value = getNestedValue(row as Record<string, unknown>, col.id);
-      return formatValueForExport(value, row, col, rowIndex);
+      return pdfText(formatValueForExport(value, row, col, rowIndex, locale));
     })
   );
 
+  const totalsRow = getTotalsRow(data, exportableColumns, { ...config, locale });
+
   autoTable(doc, {
     head: config.includeHeaders !== false ? [headers] : [],
     body: bodyRows,
+    foot: totalsRow ? [totalsRow.map(String)] : [],
+    showFoot: 'lastPage',
+    footStyles: {
+      fillColor: [232, 240, 254],
+      textColor: 20,
+      fontStyle: boldStyle,
+    },
     startY: cursorY,
-    styles: { fontSize: 9, cellPadding: 3 },
+    styles: { fontSize: 9, cellPadding: 3, font },
     headStyles: {
       fillColor: [25, 118, 210],
       textColor: 255,
-      fontStyle: 'bold',
+      fontStyle: boldStyle,
     },
     alternateRowStyles: { fillColor: [248, 249, 250] },
     margin: { top: 10, right: 14, bottom: 14, left: 14 },
@@ -314,12 +440,12 @@ export function exportToPdf<T>(
       ? (allowUnsafe
         ? config.customFooter.replace(/<[^>]*>/g, '')
         : config.customFooter)
-      : `${config.title || 'Document'}  –  Page ${i} of ${pageCount}`;
+      : `${config.title || locale.text.exportDocumentTitle}  –  ${pdfText(locale.text.exportPageOf(i, pageCount))}`;
 
     doc.text(footerText, 14, pageHeight - 8);
     // Right-aligned page indicator when a custom footer is provided
     if (config.customFooter) {
-      const pageLabel = `Page ${i} / ${pageCount}`;
+      const pageLabel = pdfText(locale.text.exportPageShort(i, pageCount));
       const textWidth = doc.getTextWidth(pageLabel);
       const pageWidth = (doc.internal.pageSize as { width: number }).width
         ?? (doc.internal.pageSize as { getWidth: () => number }).getWidth();
@@ -342,6 +468,8 @@ export function exportToWord<T>(
 ): void {
   const exportableColumns = columns.filter(col => col.exportable !== false && !col.hidden);
   const allowUnsafe = config.allowUnsafeHtml === true;
+  const locale = config.locale ?? enLocale;
+  const textAlign = locale.direction === 'rtl' ? 'right' : 'left';
 
   const customHeaderHtml = config.customHeader
     ? `<div class="custom-header">${resolveHtmlContent(config.customHeader, allowUnsafe)}</div>`
@@ -349,13 +477,13 @@ export function exportToWord<T>(
 
   const customFooterHtml = config.customFooter
     ? `<p class="footer">${resolveHtmlContent(config.customFooter, allowUnsafe)}</p>`
-    : `<p class="footer">${escapeHtml(config.title || 'Document')}</p>`;
+    : `<p class="footer">${escapeHtml(config.title || locale.text.exportDocumentTitle)}</p>`;
 
   const tableRows = data.map((row, rowIndex) => {
     const cells = exportableColumns
       .map(col => {
         const value = getNestedValue(row as Record<string, unknown>, col.id);
-        const formatted = formatValueForExport(value, row, col, rowIndex);
+        const formatted = formatValueForExport(value, row, col, rowIndex, locale);
         return `<td>${escapeHtml(formatted)}</td>`;
       })
       .join('');
@@ -366,10 +494,16 @@ export function exportToWord<T>(
     ? `<tr>${exportableColumns.map(col => `<th>${escapeHtml(col.label)}</th>`).join('')}</tr>`
     : '';
 
+  const totalsRow = getTotalsRow(data, exportableColumns, config);
+  const totalsHtml = totalsRow
+    ? `<tfoot><tr class="totals">${totalsRow.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr></tfoot>`
+    : '';
+
   const html = `
 <html xmlns:o="urn:schemas-microsoft-com:office:office"
       xmlns:w="urn:schemas-microsoft-com:office:word"
-      xmlns="http://www.w3.org/TR/REC-html40">
+      xmlns="http://www.w3.org/TR/REC-html40"
+      lang="${escapeHtml(locale.code)}" dir="${locale.direction}">
 <head>
   <meta charset="UTF-8">
   <title>${escapeHtml(config.title || 'Export')}</title>
@@ -391,11 +525,12 @@ export function exportToWord<T>(
     table { width: 100%; border-collapse: collapse; margin-top: 8pt; }
     th {
       background-color: #1976d2; color: white; font-weight: bold;
-      text-align: left; padding: 7pt 5pt; font-size: 10pt;
+      text-align: ${textAlign}; padding: 7pt 5pt; font-size: 10pt;
       border: 1pt solid #1565c0;
     }
     td { padding: 5pt; border: 1pt solid #e0e0e0; font-size: 10pt; }
     tr:nth-child(even) td { background-color: #f5f5f5; }
+    tr.totals td { font-weight: bold; background-color: #e8f0fe; border-top: 2pt solid #1976d2; }
     .footer {
       margin-top: 18pt; padding-top: 8pt; border-top: 1pt solid #e0e0e0;
       font-size: 9pt; color: #888; text-align: center;
@@ -406,10 +541,11 @@ export function exportToWord<T>(
   ${config.title ? `<h1>${escapeHtml(config.title)}</h1>` : ''}
   ${config.subtitle ? `<p class="subtitle">${escapeHtml(config.subtitle)}</p>` : ''}
   ${customHeaderHtml}
-  <p class="meta">Generated: ${escapeHtml(new Date().toLocaleString())} | Total Records: ${data.length}</p>
+  <p class="meta">${escapeHtml(locale.text.exportGenerated(formatDate(new Date(), locale.code, DATE_TIME_FORMAT), data.length))}</p>
   <table>
     <thead>${headerRow}</thead>
     <tbody>${tableRows}</tbody>
+    ${totalsHtml}
   </table>
   ${customFooterHtml}
 </body>
@@ -0,0 +1,66 @@
+/**
+ * Next Nice DataTable - Fetch Cache
+ * A small in-memory cache for onFetchData results, keyed by the request
+ * parameters, with a time-to-live and least-recently-used eviction.
+ *
+ * @author Stellarx Team
+ * @version 2.1.0
+ */
+
+import { FetchDataParams } from './types';
+
+export interface FetchCache<V> {
+  /** The cached value, or undefined when missing or expired */
+  get: (key: string) => V | undefined;
+  has: (key: string) => boolean;
+  set: (key: string, value: V) => void;
+  clear: () => void;
+}
+
+interface CacheEntry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+/**
+ * Build a stable cache key from fetch parameters.
+ * The abort signal is per-request and is left out.
+ */
+export function getFetchCacheKey(params: FetchDataParams): string {
+  return JSON.stringify({ ...params, signal: undefined });
+}
+
+/**
+ * Create an LRU cache. A Map keeps insertion order, so re-inserting on read
+ * moves an entry to the end and the first key is always the least recently
+ * used one.
+ */
+export function createFetchCache<V>(ttlMs: number, maxEntries: number): FetchCache<V> {
+  const entries = new Map<string, CacheEntry<V>>();
+
+  const get = (key: string): V | undefined => {
+    const entry = entries.get(key);
+    if (!entry) return undefined;
+    entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return undefined;
+    entries.set(key, entry);
+    return entry.value;
+  };
+
+  const set = (key: string, value: V) => {
+    entries.delete(key);
+    entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    while (entries.size > maxEntries) {
+      const oldest = entries.keys().next().value;
+      if (oldest === undefined) break;
+      entries.delete(oldest);
+    }
+  };
+
+  return {
+    get,
+    has: key => get(key) !== undefined,
+    set,
+    clear: () => entries.clear(),
+  };
+}
@@ -0,0 +1,257 @@
+/**
+ * Next Nice DataTable - Filter Utilities
+ * Type-aware evaluation of column filters and advanced-search criteria for
+ * client-side filtering.
+ *
+ * Values are normalised before comparison so that numbers, Date objects and
+ * ISO date strings order correctly against each other (e.g. a `Date` cell
+ * against a `'2024-03-01'` filter from a date input).
+ *
+ * @author Stellarx Team
+ * @version 2.1.0
+ */
+
+import { AdvancedSearchState, ColumnFilter, FilterOperator, SearchCriteria } from './types';
+import { getNestedValue } from './exportUtils';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** `YYYY-MM-DD` exactly – what `<input type="date">` produces. */
+const DATE_ONLY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/** `YYYY-MM-DD` optionally followed by a time part. */
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/** Operators that do not read `ColumnFilter.value`. */
+export const VALUELESS_FILTER_OPERATORS: readonly FilterOperator[] = ['isEmpty', 'isNotEmpty'];
+
+// ============================================================================
+// NORMALISATION
+// ============================================================================
+
+function isEmptyValue(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+/**
+ * Parse a date-only string in the *local* timezone.
+ * `new Date('2024-03-01')` would be UTC midnight, which shifts the day for
+ * anyone west of Greenwich.
+ */
+function parseDateOnly(value: string): number | null {
+  const match = DATE_ONLY_PATTERN.exec(value);
+  if (!match) return null;
+  const time = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Normalise a cell or filter value into an orderable primitive.
+ * Numbers, numeric strings, Dates and ISO date strings become numbers
+ * (dates as epoch milliseconds); booleans become 1 / 0; anything else becomes
+ * a lower-cased string. Empty values return null.
+ */
+export function toComparable(value: unknown): number | string | null {
+  if (isEmptyValue(value)) return null;
+  if (typeof value === 'number') return Number.isNaN(value) ? null : value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) {
+    const time = value.getTime();
+    return Number.isNaN(time) ? null : time;
+  }
+  const str = String(value).trim();
+  if (str !== '' && Number.isFinite(Number(str))) return Number(str);
+  if (ISO_DATE_PATTERN.test(str)) {
+    const time = parseDateOnly(str) ?? Date.parse(str);
+    if (!Number.isNaN(time)) return time;
+  }
+  return str.toLowerCase();
+}
+
+/**
+ * Compare two values after normalisation.
+ * Returns a negative number, zero, or a positive number; null when the values
+ * cannot be ordered against each other (e.g. one side is empty).
+ */
+export function compareFilterValues(a: unknown, b: unknown): number | null {
+  const left = toComparable(a);
+  const right = toComparable(b);
+  if (left === null || right === null) return null;
+  if (typeof left === 'number' && typeof right === 'number') return left - right;
+  return String(left).localeCompare(String(right));
+}
+
+/**
+ * A date-only filter value ('2024-03-01') covers the whole local day, so
+ * "equals" and range bounds must compare against [start, start + 1 day).
+ */
+function getDayRange(value: unknown): [number, number] | null {
+  if (typeof value !== 'string') return null;
+  const start = parseDateOnly(value.trim());
+  return start === null ? null : [start, start + DAY_MS];
+}
+
+function looseEquals(cellValue: unknown, filterValue: unknown): boolean {
+  const dayRange = getDayRange(filterValue);
+  if (dayRange) {
+    const cell = toComparable(cellValue);
+    return typeof cell === 'number' && cell >= dayRange[0] && cell < dayRange[1];
+  }
+  const left = toComparable(cellValue);
+  const right = toComparable(filterValue);
+  if (typeof left === 'number' && typeof right === 'number') return left === right;
+  return String(cellValue) === String(filterValue);
+}
+
+// ============================================================================
+// RANGE HELPERS
+// ============================================================================
+
+/** Lower bound check; a date-only bound includes the whole day. */
+function isOnOrAfter(cellValue: unknown, bound: unknown): boolean {
+  const dayRange = getDayRange(bound);
+  const cmp = compareFilterValues(cellValue, dayRange ? dayRange[0] : bound);
+  return cmp !== null && cmp >= 0;
+}
+
+/** Upper bound check; a date-only bound includes the whole day. */
+function isOnOrBefore(cellValue: unknown, bound: unknown): boolean {
+  const dayRange = getDayRange(bound);
+  if (dayRange) {
+    const cmp = compareFilterValues(cellValue, dayRange[1]);
+    return cmp !== null && cmp < 0;
+  }
+  const cmp = compareFilterValues(cellValue, bound);
+  return cmp !== null && cmp <= 0;
+}
+
+function toRange(value: ColumnFilter['value']): [unknown, unknown] {
+  if (Array.isArray(value)) return [value[0], value[1]];
+  return [value, undefined];
+}
+
+function toList(value: ColumnFilter['value']): unknown[] {
+  if (Array.isArray(value)) return value;
+  return isEmptyValue(value) ? [] : [value];
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * True when a filter carries no usable value and should be dropped from the
+ * filter state. Valueless operators (isEmpty / isNotEmpty) are never empty.
+ */
+export function isFilterValueEmpty(value: unknown, operator: FilterOperator): boolean {
+  if (VALUELESS_FILTER_OPERATORS.includes(operator)) return false;
+  if (Array.isArray(value)) {
+    return operator === 'between'
+      ? isEmptyValue(value[0]) && isEmptyValue(value[1])
+      : value.length === 0;
+  }
+  return isEmptyValue(value);
+}
+
+/**
+ * Evaluate a single column filter against a cell value.
+ *
+ * `between` accepts a `[min, max]` tuple where either side may be empty for
+ * an open-ended range; both bounds are inclusive. `in` / `notIn` accept an
+ * array of allowed values.
+ */
+export function matchesColumnFilter(cellValue: unknown, filter: ColumnFilter): boolean {
+  const { operator, value: filterValue } = filter;
+  const strVal = String(cellValue ?? '').toLowerCase();
+  const strFilter = String(filterValue ?? '').toLowerCase();
+
+  switch (operator) {
+    case 'equals':      return looseEquals(cellValue, filterValue);
+    case 'notEquals':   return !looseEquals(cellValue, filterValue);
+    case 'contains':    return strVal.includes(strFilter);
+    case 'startsWith':  return strVal.startsWith(strFilter);
+    case 'endsWith':    return strVal.endsWith(strFilter);
+    case 'greaterThan':
+    case 'after': {
+      const dayRange = getDayRange(filterValue);
+      if (dayRange) return isOnOrAfter(cellValue, dayRange[1]);
+      const cmp = compareFilterValues(cellValue, filterValue);
+      return cmp !== null && cmp > 0;
+    }
+    case 'lessThan':
+    case 'before': {
+      const dayRange = getDayRange(filterValue);
+      const cmp = compareFilterValues(cellValue, dayRange ? dayRange[0] : filterValue);
+      return cmp !== null && cmp < 0;
+    }
+    case 'between': {
+      const [min, max] = toRange(filterValue);
+      if (isEmptyValue(cellValue)) return false;
+      if (!isEmptyValue(min) && !isOnOrAfter(cellValue, min)) return false;
+      if (!isEmptyValue(max) && !isOnOrBefore(cellValue, max)) return false;
+      return true;
+    }
+    case 'in':          return toList(filterValue).some(v => looseEquals(cellValue, v));
+    case 'notIn':       return !toList(filterValue).some(v => looseEquals(cellValue, v));
+    case 'isEmpty':     return isEmptyValue(cellValue);
+    case 'isNotEmpty':  return !isEmptyValue(cellValue);
+    default: {
+      const exhaustive: never = operator;
+      console.warn(`Unknown filter operator: ${exhaustive}`);
+      return true;
+    }
+  }
+}
+
+// ============================================================================
+// ADVANCED SEARCH
+// ============================================================================
+
+/**
+ * Strings a single field value can be matched against. Dates match both their
+ * ISO form and the locale date string shown to the user; arrays match on any
+ * element.
+ */
+function toSearchStrings(value: unknown): string[] {
+  if (value === null || value === undefined) return [];
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? [] : [value.toISOString(), value.toLocaleDateString()];
+  }
+  if (Array.isArray(value)) return value.flatMap(toSearchStrings);
+  if (typeof value === 'object') return [JSON.stringify(value)];
+  return [String(value)];
+}
+
+function matchesCriterion(row: unknown, criterion: SearchCriteria): boolean {
+  const needle = criterion.value.trim().toLowerCase();
+  const candidates = toSearchStrings(getNestedValue(row, criterion.field)).map(v => v.toLowerCase());
+
+  switch (criterion.operator) {
+    case 'CONTAINS':    return candidates.some(v => v.includes(needle));
+    case 'EQUALS':      return candidates.some(v => v === needle);
+    case 'STARTS_WITH': return candidates.some(v => v.startsWith(needle));
+    case 'ENDS_WITH':   return candidates.some(v => v.endsWith(needle));
+    default: {
+      const exhaustive: never = criterion.operator;
+      console.warn(`Unknown search operator: ${exhaustive}`);
+      return true;
+    }
+  }
+}
+
+/**
+ * Evaluate advanced-search criteria against a row (case-insensitive).
+ * Criteria with a blank value are ignored; with none left every row matches.
+ * `matchAll` combines the remaining criteria with AND, otherwise with OR.
+ */
+export function matchesAdvancedSearch(row: unknown, search: AdvancedSearchState): boolean {
+  const active = search.criteria.filter(c => c.value.trim() !== '');
+  if (active.length === 0) return true;
+  return search.matchAll
+    ? active.every(c => matchesCriterion(row, c))
+    : active.some(c => matchesCriterion(row, c));
+}
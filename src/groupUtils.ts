@@ -0,0 +1,189 @@
+/**
+ * Next Nice DataTable - Grouping Utilities
+ * Builds nested row groups from one or more column ids, flattens them into
+ * the header / row sequence the table body renders, and renders per-group
+ * aggregates.
+ *
+ * Grouping is stable: rows keep the order they arrive in (i.e. the current
+ * sort) inside every group.
+ *
+ * @author Stellarx Team
+ * @version 2.1.0
+ */
+
+import { ReactNode } from 'react';
+import { DataTableColumn, GroupAggregate, SortItem } from './types';
+import { getNestedValue } from './exportUtils';
+import { computeAggregate, formatAggregateNumber } from './aggregateUtils';
+import { sortRows, SortRowsOptions } from './sortUtils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RowGroup<T> {
+  /** Unique across the whole tree – built from every ancestor's column and value */
+  key: string;
+  columnId: string;
+  value: unknown;
+  /** 0 for top-level groups */
+  depth: number;
+  /** Every row in the group, including those in nested groups */
+  rows: T[];
+  /** Nested groups for the next group-by column; empty at the innermost level */
+  children: RowGroup<T>[];
+}
+
+export type GroupedItem<T> =
+  /** `continued` – the group started on an earlier page */
+  | { type: 'group'; group: RowGroup<T>; continued?: boolean }
+  | { type: 'row'; row: T; depth: number };
+
+export interface GroupRowsOptions<T> extends SortRowsOptions<T> {
+  /** Active sort keys – a grouped column that is sorted orders its groups the same way */
+  sortModel?: SortItem[];
+  /** Order of groups whose column is not sorted (default 'asc') */
+  groupOrder?: 'asc' | 'desc';
+}
+
+// ============================================================================
+// GROUPING
+// ============================================================================
+
+/** Key for a group value; Dates group by instant, not by object identity. */
+function toGroupValueKey(value: unknown): string {
+  if (value instanceof Date) return `date:${value.getTime()}`;
+  if (value === null || value === undefined || value === '') return 'empty';
+  return `${typeof value}:${String(value)}`;
+}
+
+/**
+ * Order sibling groups by their value, using the column's sort preset and
+ * comparator so groups sort exactly like the column's cells would.
+ */
+function sortGroups<T>(groups: RowGroup<T>[], columnId: string, options: GroupRowsOptions<T>): RowGroup<T>[] {
+  const column = options.columns?.find(col => col.id === columnId);
+  const direction = options.sortModel?.find(item => item.column === columnId)?.direction
+    ?? options.groupOrder
+    ?? 'asc';
+
+  const groupColumn: DataTableColumn<RowGroup<T>> = {
+    id: 'value',
+    label: column?.label ?? columnId,
+    dataType: column?.dataType,
+    sortValue: column?.sortValue
+      ? (group) => column.sortValue?.(group.rows[0])
+      : (group) => group.value,
+    sortComparator: column?.sortComparator
+      ? (a, b, groupA, groupB) => column.sortComparator?.(a, b, groupA.rows[0], groupB.rows[0]) ?? 0
+      : undefined,
+  };
+
+  return sortRows(groups, [{ column: 'value', direction }], {
+    columns: [groupColumn],
+    nullPlacement: options.nullPlacement,
+    locale: options.locale,
+    collatorOptions: options.collatorOptions,
+  });
+}
+
+/**
+ * Group rows by each column id in turn (outermost first).
+ * Values are read with getNestedValue, so dot-notation ids work.
+ */
+export function groupRows<T>(
+  rows: T[],
+  groupBy: string[],
+  options: GroupRowsOptions<T> = {},
+  parentKey = '',
+  depth = 0
+): RowGroup<T>[] {
+  if (depth >= groupBy.length) return [];
+  const columnId = groupBy[depth];
+
+  const buckets = new Map<string, { value: unknown; rows: T[] }>();
+  for (const row of rows) {
+    const value = getNestedValue(row, columnId);
+    const valueKey = toGroupValueKey(value);
+    const bucket = buckets.get(valueKey);
+    if (bucket) bucket.rows.push(row);
+    else buckets.set(valueKey, { value, rows: [row] });
+  }
+
+  const groups = Array.from(buckets, ([valueKey, bucket]): RowGroup<T> => {
+    const key = `${parentKey}/${JSON.stringify([columnId, valueKey])}`;
+    return {
+      key,
+      columnId,
+      value: bucket.value,
+      depth,
+      rows: bucket.rows,
+      children: groupRows(bucket.rows, groupBy, options, key, depth + 1),
+    };
+  });
+
+  return sortGroups(groups, columnId, options);
+}
+
+/** The rows of a group tree in display order. */
+export function getGroupedRowOrder<T>(groups: RowGroup<T>[]): T[] {
+  return groups.flatMap(group => (group.children.length > 0 ? getGroupedRowOrder(group.children) : group.rows));
+}
+
+/** Index every group in a tree by its key. */
+export function indexGroups<T>(groups: RowGroup<T>[], index = new Map<string, RowGroup<T>>()): Map<string, RowGroup<T>> {
+  for (const group of groups) {
+    index.set(group.key, group);
+    indexGroups(group.children, index);
+  }
+  return index;
+}
+
+/**
+ * Flatten a group tree into header and row items. Collapsed groups keep their
+ * header but hide everything below it.
+ *
+ * When `groups` was built from one page of rows, pass the index of the groups
+ * built from all rows: headers then show the complete group (for counts and
+ * aggregates) and are flagged `continued` when the group began on an earlier page.
+ */
+export function flattenGroups<T>(
+  groups: RowGroup<T>[],
+  isCollapsed: (groupKey: string) => boolean,
+  fullGroups?: Map<string, RowGroup<T>>
+): GroupedItem<T>[] {
+  const items: GroupedItem<T>[] = [];
+  for (const group of groups) {
+    const fullGroup = fullGroups?.get(group.key) ?? group;
+    items.push({ type: 'group', group: fullGroup, continued: fullGroup.rows[0] !== group.rows[0] });
+    if (isCollapsed(group.key)) continue;
+    if (group.children.length > 0) {
+      items.push(...flattenGroups(group.children, isCollapsed, fullGroups));
+    } else {
+      for (const row of group.rows) items.push({ type: 'row', row, depth: group.depth + 1 });
+    }
+  }
+  return items;
+}
+
+// ============================================================================
+// AGGREGATES
+// ============================================================================
+
+/**
+ * Evaluate an aggregate definition (built-in name or custom function) for a
+ * set of rows. Built-in results other than `count` go through the column's
+ * `format`, so a currency column shows a currency total.
+ */
+export function renderAggregate<T>(
+  rows: T[],
+  column: DataTableColumn<T>,
+  aggregate: GroupAggregate<T>,
+  locale?: string
+): ReactNode {
+  if (typeof aggregate === 'function') return aggregate(rows, column.id);
+  const result = computeAggregate(rows.map(row => getNestedValue(row, column.id)), aggregate);
+  if (result === null) return null;
+  if (aggregate !== 'count' && column.format && rows.length > 0) return column.format(result, rows[0], -1);
+  return formatAggregateNumber(result, locale);
+}
@@ -13,6 +13,9 @@ export { default as SearchDialog } from './SearchDialog';
 // Custom hook
 export { useDataTable } from './useDataTable';
 
+// Locale packs
+export { enLocale, frLocale, deLocale, esLocale, arLocale } from './locales';
+
 // Types
 export type {
   // Column types
@@ -20,13 +23,16 @@ export type {
   ColumnAlign,
   ColumnFilter,
   FilterOperator,
+  PinnedColumns,
 
   // Pagination types
   PaginationState,
   PaginationConfig,
+  VirtualizationConfig,
 
   // Sort types
   SortState,
+  SortItem,
   SortDirection,
   SortConfig,
 
@@ -46,6 +52,7 @@ export type {
   // Export types
   ExportFormat,
   ExportConfig,
+  PdfFontConfig,
 
   // Style types
   StyleConfig,
@@ -53,12 +60,17 @@ export type {
 
   // Selection types
   SelectionConfig,
+  SelectionModel,
 
   // Toolbar types
   ToolbarConfig,
 
   // Action button types
   ActionButtonConfig,
+  BulkAction,
+  BulkActionConfirmation,
+  BulkActionRowResult,
+  BulkActionsConfig,
 
   // Callback types
   OnPageChangeCallback,
@@ -70,15 +82,46 @@ export type {
   OnAdvancedSearchCallback,
   OnSearchChangeCallback,
   OnSelectionChangeCallback,
+  OnSelectionModelChangeCallback,
   OnRowClickCallback,
   OnRowDoubleClickCallback,
   OnAddCallback,
   OnEditCallback,
   OnDeleteCallback,
   OnViewCallback,
+  OnCellEditCommitCallback,
+  EditingCell,
+  BatchChanges,
+  OnBatchSaveCallback,
+  EditModeConfig,
+  RowKey,
+  DetailPanelConfig,
+  AggregateFunction,
+  GroupAggregate,
+  AggregationConfig,
+  GroupingConfig,
+  TreeDataConfig,
+  TreeRowInfo,
+  PersistenceConfig,
+  PersistenceStorageAdapter,
+  PersistedTableState,
+  PersistedStateKey,
+  UrlSyncConfig,
+  SavedView,
+  SavedViewState,
+  SavedViewsAdapter,
+  SavedViewsConfig,
   FetchDataParams,
+  FetchDataResult,
+  FetchConfig,
+  FetchCacheConfig,
+  DataTableApi,
   OnFetchDataCallback,
 
+  // Localization types
+  DataTableLocale,
+  DataTableLocaleText,
+
   // Main props & state
   DataTableProps,
   DataTableState,
@@ -93,6 +136,9 @@ export {
   exportToWord,
   getExportFormatLabel,
   getNestedValue,
+  setNestedValue,
   formatValueForExport,
   generateFilename,
 } from './exportUtils';
+
+export { matchesColumnFilter, matchesAdvancedSearch } from './filterUtils';
@@ -0,0 +1,59 @@
+/**
+ * Next Nice DataTable - Locale Utilities
+ * Cached `Intl` number and date formatters, and the default display text for
+ * cell values that have no column `format`.
+ *
+ * @author Stellarx Team
+ * @version 2.1.0
+ */
+
+import { DataTableColumn, DataTableLocale } from './types';
+import { toComparable } from './filterUtils';
+
+// Creating Intl formatters is slow, and cells format on every render
+const numberFormats = new Map<string, Intl.NumberFormat>();
+const dateFormats = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatKey(locale: string | undefined, options: object | undefined): string {
+  return `${locale ?? ''}|${options ? JSON.stringify(options) : ''}`;
+}
+
+/** Format a number for `locale` (default: the runtime locale). */
+export function formatNumber(value: number, locale?: string, options?: Intl.NumberFormatOptions): string {
+  const key = getFormatKey(locale, options);
+  let format = numberFormats.get(key);
+  if (!format) {
+    format = new Intl.NumberFormat(locale, options);
+    numberFormats.set(key, format);
+  }
+  return format.format(value);
+}
+
+/** Format a date for `locale`; an invalid date gives an empty string. */
+export function formatDate(value: Date, locale?: string, options?: Intl.DateTimeFormatOptions): string {
+  if (Number.isNaN(value.getTime())) return '';
+  const key = getFormatKey(locale, options);
+  let format = dateFormats.get(key);
+  if (!format) {
+    format = new Intl.DateTimeFormat(locale, options);
+    dateFormats.set(key, format);
+  }
+  return format.format(value);
+}
+
+/**
+ * Display text for a cell value without a column `format`. Dates – and the
+ * timestamps and ISO strings of `dataType: 'date'` columns – and the numbers
+ * of `dataType: 'number'` columns go through `Intl`; other numbers (ids,
+ * years, …) are left as they are. Booleans use the locale's yes / no.
+ */
+export function formatCellValue<T>(value: unknown, column: DataTableColumn<T>, locale: DataTableLocale): string {
+  if (typeof value === 'boolean') return value ? locale.text.booleanTrue : locale.text.booleanFalse;
+  if (value instanceof Date) return formatDate(value, locale.code);
+  if (column.dataType === 'number' && typeof value === 'number') return formatNumber(value, locale.code);
+  if (column.dataType === 'date' && (typeof value === 'number' || typeof value === 'string')) {
+    const time = toComparable(value);
+    if (typeof time === 'number') return formatDate(new Date(time), locale.code);
+  }
+  return String(value);
+}
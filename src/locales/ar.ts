@@ -0,0 +1,239 @@
+/**
+ * Next Nice DataTable - Arabic Locale
+ * Right-to-left; numbers use Arabic-Indic digits.
+ *
+ * @author Stellarx Team
+ * @version 2.1.0
+ */
+
+import { DataTableLocale } from '../types';
+import { formatNumber } from '../localeUtils';
+
+const n = (value: number) => formatNumber(value, 'ar');
+// Arabic counts 3–10 take the plural, everything else (0, 1, 2, 11+) takes the singular form used here
+const plural = (count: number, one: string, few: string) =>
+  `${n(count)} ${count >= 3 && count <= 10 ? few : one}`;
+
+export const arLocale: DataTableLocale = {
+  code: 'ar',
+  direction: 'rtl',
+  text: {
+    // --- TABLE ---
+    tableLabel: 'جدول البيانات',
+    noRows: 'لا توجد بيانات',
+    loadError: 'تعذر تحميل البيانات.',
+    retry: 'إعادة المحاولة',
+    cancel: 'إلغاء',
+    booleanTrue: 'نعم',
+    booleanFalse: 'لا',
+
+    // --- TOOLBAR ---
+    toolbarFilterPlaceholder: 'تصفية البيانات المحملة…',
+    toolbarAdvancedSearch: 'بحث متقدم',
+    toolbarActiveSearch: (criteriaCount) => `بحث (${n(criteriaCount)})`,
+    toolbarClearSearch: 'مسح البحث',
+    toolbarFilterCount: (count) => plural(count, 'عامل تصفية', 'عوامل تصفية'),
+    toolbarRefresh: 'تحديث',
+    toolbarDensity: 'كثافة الجدول',
+    toolbarDensityCompact: 'مضغوط',
+    toolbarDensityNormal: 'عادي',
+    toolbarDensityComfortable: 'مريح',
+    toolbarColumns: 'إظهار / إخفاء الأعمدة',
+    toolbarExport: 'تصدير',
+    toolbarExportTooltip: 'تصدير البيانات',
+    toolbarExportAs: (format) => `تصدير بصيغة ${format}`,
+
+    // --- COLUMN MENU & HEADERS ---
+    columnMenuTitle: 'الأعمدة',
+    columnMenuMoveUp: (column) => `نقل ${column} لأعلى`,
+    columnMenuMoveDown: (column) => `نقل ${column} لأسفل`,
+    columnMenuGroupBy: 'تجميع حسب',
+    columnMenuGroupLevel: (level) => `المستوى ${n(level)}`,
+    columnMenuPinColumns: 'تثبيت الأعمدة',
+    columnMenuPinned: (side) => (side === 'left' ? 'مثبت في البداية' : 'مثبت في النهاية'),
+    columnMenuPinColumn: (column, side) => `تثبيت ${column} في ${side === 'left' ? 'البداية' : 'النهاية'}`,
+    columnHeaderMultiSortHint: 'Shift + نقر للفرز حسب عدة أعمدة',
+    columnHeaderSortPriority: (priority) => `أولوية الفرز ${n(priority)}`,
+    columnHeaderPinOptions: (column) => `خيارات تثبيت ${column}`,
+    columnHeaderResize: (column) => `تغيير عرض ${column}`,
+    pinToLeft: 'تثبيت في البداية',
+    pinToRight: 'تثبيت في النهاية',
+    unpin: 'إلغاء التثبيت',
+
+    // --- ACTION BUTTONS ---
+    actionAdd: 'إضافة',
+    actionView: 'عرض',
+    actionEdit: 'تعديل',
+    actionDelete: 'حذف',
+    actionSelectRow: (action) => `حدد صفًا لتنفيذ «${action}»`,
+    actionSelectOnlyOneRow: (action) => `حدد صفًا واحدًا فقط لتنفيذ «${action}»`,
+    actionOnSelectedRow: (action) => `${action} العنصر المحدد`,
+
+    // --- EDITING ---
+    editCellLabel: (column) => `تعديل ${column}`,
+    editSaveError: 'تعذر حفظ هذا التغيير.',
+    editModeStart: 'تعديل الصفوف',
+    editModeSave: 'حفظ الكل',
+    editModeDiscard: 'تجاهل',
+    editModeAddRow: 'إضافة صف',
+    editModeNoChanges: 'لا توجد تغييرات',
+    editModeUnsavedChanges: (count) => plural(count, 'تغيير غير محفوظ', 'تغييرات غير محفوظة'),
+    editModeFixErrors: 'صحّح الخلايا المميزة أولًا',
+    editModeRemoveRow: 'إزالة الصف',
+    editModeRestoreRow: 'استعادة الصف',
+    editModeSaveError: 'تعذر حفظ التغييرات.',
+
+    // --- SELECTION ---
+    selectAllRows: 'تحديد كل الصفوف',
+    selectRow: 'تحديد الصف',
+    selectionCount: (count) => `تم تحديد ${n(count)}`,
+    selectionAllMatching: (count) => `تم تحديد كل النتائج (${n(count)}).`,
+    selectionSomeMatching: (selected, total) => `تم تحديد ${n(selected)} من ${n(total)} نتيجة.`,
+    selectionPageSelected: (count) => `تم تحديد كل صفوف هذه الصفحة (${n(count)}).`,
+    selectionSelectAllMatching: (count) => `تحديد كل النتائج (${n(count)})`,
+    selectionClear: 'مسح التحديد',
+
+    // --- BULK ACTIONS ---
+    bulkActionsLabel: 'إجراءات جماعية',
+    bulkDelete: (label) => `${label} المحدد`,
+    bulkDeleteConfirmTitle: (label, count) => `${label} ${plural(count, 'صف', 'صفوف')}؟`,
+    bulkDeleteConfirmMessage: 'لا يمكن التراجع عن هذا الإجراء.',
+    bulkConfirmMessage: (count) => `ينطبق هذا على ${plural(count, 'صف محدد', 'صفوف محددة')}.`,
+    bulkExport: 'تصدير المحدد',
+    bulkProgress: (action, done, total) => `${action}: ${n(done)} من ${n(total)}`,
+    bulkResult: (action, succeeded, failed) =>
+      `${action}: نجح ${n(succeeded)}${failed > 0 ? `، فشل ${n(failed)}` : ''}`,
+    bulkShowDetails: 'التفاصيل',
+    bulkHideDetails: 'إخفاء التفاصيل',
+    bulkRowFailed: 'فشل',
+
+    // --- GROUPS, TREE ROWS & DETAIL PANELS ---
+    groupExpand: 'توسيع المجموعة',
+    groupCollapse: 'طي المجموعة',
+    groupContinued: '(تابع)',
+    treeExpand: 'توسيع الصف',
+    treeCollapse: 'طي الصف',
+    treeLoading: 'جارٍ تحميل الصفوف الفرعية',
+    treeLoadError: 'تعذر تحميل الصفوف.',
+    treeRetry: 'إعادة تحميل الصفوف الفرعية',
+    treeRetryHint: (error) => `${error} انقر لإعادة المحاولة.`,
+    detailExpand: 'إظهار تفاصيل الصف',
+    detailCollapse: 'إخفاء تفاصيل الصف',
+    detailLoading: 'جارٍ تحميل التفاصيل…',
+    detailLoadError: 'تعذر تحميل التفاصيل.',
+
+    // --- TOTALS ---
+    totalsLabel: 'الإجمالي',
+    totalsPageLabel: 'إجمالي الصفحة',
+
+    // --- PAGINATION & FOOTER ---
+    paginationFirstPage: 'الصفحة الأولى',
+    paginationPreviousPage: 'الصفحة السابقة',
+    paginationNextPage: 'الصفحة التالية',
+    paginationLastPage: 'الصفحة الأخيرة',
+    paginationPageOf: (page, pageCount) => `الصفحة ${n(page)} من ${n(pageCount)}`,
+    paginationRowsPerPage: 'صفوف في الصفحة:',
+    paginationRowsPerPageShort: 'صفوف:',
+    paginationGroupsPerPage: 'مجموعات في الصفحة:',
+    paginationGroupsPerPageShort: 'مجموعات:',
+    paginationDisplayedRows: ({ from, to, count }) =>
+      `${n(from)}–${n(to)} من ${count !== -1 ? n(count) : `أكثر من ${n(to)}`}`,
+    footerRowCount: (count) => plural(count, 'صف', 'صفوف'),
+    footerLoadedRows: (loaded, total) =>
+      total === null
+        ? `تم تحميل ${plural(loaded, 'صف', 'صفوف')}`
+        : `تم تحميل ${n(loaded)} من ${plural(total, 'صف', 'صفوف')}`,
+    footerLoadMore: 'تحميل المزيد',
+    footerLoadMoreError: 'تعذّر تحميل المزيد من الصفوف.',
+
+    // --- SCREEN READER ANNOUNCEMENTS ---
+    announceSortCleared: 'تمت إزالة الفرز',
+    announceSort: (sort) => `مفروز حسب ${sort
+      .map(item => `${item.column} ${item.direction === 'asc' ? 'تصاعديًا' : 'تنازليًا'}`)
+      .join('، ثم ')}`,
+    announceRowsFound: (count) => `تم العثور على ${plural(count, 'صف', 'صفوف')}`,
+
+    // --- INLINE FILTER ROW ---
+    filterPlaceholder: 'تصفية…',
+    filterAll: 'الكل',
+    filterMin: 'الأدنى',
+    filterMax: 'الأقصى',
+    filterOperators: {
+      equals: 'يساوي',
+      notEquals: 'لا يساوي',
+      contains: 'يحتوي على',
+      startsWith: 'يبدأ بـ',
+      endsWith: 'ينتهي بـ',
+      greaterThan: 'أكبر من',
+      lessThan: 'أصغر من',
+      between: 'بين',
+      before: 'قبل',
+      after: 'بعد',
+      in: 'أحد القيم',
+      notIn: 'ليس أيًا من القيم',
+      isEmpty: 'فارغ',
+      isNotEmpty: 'غير فارغ',
+    },
+    filterLabel: (column) => `تصفية ${column}`,
+    filterOperatorLabel: (column) => `عامل تصفية ${column}`,
+    filterFromLabel: (column) => `${column} من`,
+    filterToLabel: (column) => `${column} إلى`,
+
+    // --- ADVANCED SEARCH DIALOG ---
+    searchTitle: 'بحث متقدم',
+    searchInstructions: 'أنشئ استعلام البحث بإضافة الحقول والقيم. يمكن الجمع بين عدة معايير باستخدام '
+      + '"و" (يجب أن تتطابق جميعها) أو "أو" (يكفي تطابق أحدها).',
+    searchMatchMode: 'نمط المطابقة:',
+    searchMatchAll: 'مطابقة الكل',
+    searchMatchAny: 'مطابقة أي منها',
+    searchAnd: 'و',
+    searchOr: 'أو',
+    searchField: 'الحقل',
+    searchOperator: 'العامل',
+    searchOperators: {
+      CONTAINS: 'يحتوي على',
+      EQUALS: 'يساوي',
+      STARTS_WITH: 'يبدأ بـ',
+      ENDS_WITH: 'ينتهي بـ',
+    },
+    searchValuePlaceholder: (field) => `البحث في ${field}…`,
+    searchRemoveCriterion: 'إزالة هذا المعيار',
+    searchAddCriterion: 'إضافة حقل بحث',
+    searchClearAll: 'مسح الكل',
+    searchSubmit: 'بحث',
+
+    // --- SAVED VIEWS ---
+    viewsButton: 'طرق العرض',
+    viewsTitle: 'طرق العرض المحفوظة',
+    viewsModifiedHint: 'تغيّر الجدول منذ حفظ طريقة العرض هذه',
+    viewsLoading: 'جارٍ تحميل طرق العرض…',
+    viewsEmpty: 'لا توجد طرق عرض محفوظة بعد',
+    viewsDefault: 'افتراضي',
+    viewsSetDefault: 'تعيين كافتراضي',
+    viewsRemoveDefault: 'إزالة كافتراضي',
+    viewsSetDefaultLabel: (view) => `تعيين ${view} كافتراضي`,
+    viewsRemoveDefaultLabel: (view) => `إزالة ${view} كافتراضي`,
+    viewsRename: 'إعادة تسمية',
+    viewsRenameLabel: (view) => `إعادة تسمية ${view}`,
+    viewsDelete: 'حذف',
+    viewsDeleteLabel: (view) => `حذف ${view}`,
+    viewsSaveChanges: (view) => `حفظ التغييرات في «${view}»`,
+    viewsSaveAs: 'حفظ طريقة العرض الحالية باسم…',
+    viewsRenameTitle: 'إعادة تسمية طريقة العرض',
+    viewsSaveTitle: 'حفظ طريقة العرض',
+    viewsNameLabel: 'اسم طريقة العرض',
+    viewsNameTaken: 'توجد طريقة عرض بهذا الاسم بالفعل',
+    viewsSave: 'حفظ',
+    viewsLoadError: 'تعذر تحميل طرق العرض المحفوظة',
+    viewsSaveError: 'تعذر حفظ طرق العرض',
+
+    // --- EXPORTED FILES ---
+    exportGenerated: (date, records) => `تاريخ الإنشاء: ${date}  |  السجلات: ${n(records)}`,
+    exportPageOf: (page, pageCount) => `الصفحة ${page} من ${pageCount}`,
+    exportPageShort: (page, pageCount) => `الصفحة ${page} / ${pageCount}`,
+    exportDocumentTitle: 'مستند',
+    exportSheetName: 'البيانات',
+  },
+};
+
+export default arLocale;
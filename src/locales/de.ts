@@ -0,0 +1,236 @@
+/**
+ * Next Nice DataTable - German Locale
+ *
+ * @author Stellarx Team
+ * @version 2.1.0
+ */
+
+import { DataTableLocale } from '../types';
+import { formatNumber } from '../localeUtils';
+
+const n = (value: number) => formatNumber(value, 'de-DE');
+const plural = (count: number, one: string, other: string) => `${n(count)} ${count === 1 ? one : other}`;
+
+export const deLocale: DataTableLocale = {
+  code: 'de-DE',
+  direction: 'ltr',
+  text: {
+    // --- TABLE ---
+    tableLabel: 'Datentabelle',
+    noRows: 'Keine Daten vorhanden',
+    loadError: 'Daten konnten nicht geladen werden.',
+    retry: 'Erneut versuchen',
+    cancel: 'Abbrechen',
+    booleanTrue: 'Ja',
+    booleanFalse: 'Nein',
+
+    // --- TOOLBAR ---
+    toolbarFilterPlaceholder: 'Geladene Daten filtern…',
+    toolbarAdvancedSearch: 'Erweiterte Suche',
+    toolbarActiveSearch: (criteriaCount) => `Suche (${n(criteriaCount)})`,
+    toolbarClearSearch: 'Suche zurücksetzen',
+    toolbarFilterCount: (count) => plural(count, 'Filter', 'Filter'),
+    toolbarRefresh: 'Aktualisieren',
+    toolbarDensity: 'Tabellendichte',
+    toolbarDensityCompact: 'Kompakt',
+    toolbarDensityNormal: 'Normal',
+    toolbarDensityComfortable: 'Komfortabel',
+    toolbarColumns: 'Spalten ein- / ausblenden',
+    toolbarExport: 'Exportieren',
+    toolbarExportTooltip: 'Daten exportieren',
+    toolbarExportAs: (format) => `Als ${format} exportieren`,
+
+    // --- COLUMN MENU & HEADERS ---
+    columnMenuTitle: 'Spalten',
+    columnMenuMoveUp: (column) => `${column} nach oben verschieben`,
+    columnMenuMoveDown: (column) => `${column} nach unten verschieben`,
+    columnMenuGroupBy: 'Gruppieren nach',
+    columnMenuGroupLevel: (level) => `Ebene ${n(level)}`,
+    columnMenuPinColumns: 'Spalten fixieren',
+    columnMenuPinned: (side) => (side === 'left' ? 'Links fixiert' : 'Rechts fixiert'),
+    columnMenuPinColumn: (column, side) => `${column} ${side === 'left' ? 'links' : 'rechts'} fixieren`,
+    columnHeaderMultiSortHint: 'Umschalt-Klick, um nach mehreren Spalten zu sortieren',
+    columnHeaderSortPriority: (priority) => `Sortierpriorität ${n(priority)}`,
+    columnHeaderPinOptions: (column) => `Fixierungsoptionen für ${column}`,
+    columnHeaderResize: (column) => `Breite von ${column} ändern`,
+    pinToLeft: 'Links fixieren',
+    pinToRight: 'Rechts fixieren',
+    unpin: 'Fixierung aufheben',
+
+    // --- ACTION BUTTONS ---
+    actionAdd: 'Hinzufügen',
+    actionView: 'Anzeigen',
+    actionEdit: 'Bearbeiten',
+    actionDelete: 'Löschen',
+    actionSelectRow: (action) => `Zeile auswählen für „${action}“`,
+    actionSelectOnlyOneRow: (action) => `Nur eine Zeile auswählen für „${action}“`,
+    actionOnSelectedRow: (action) => `${action}: ausgewählter Eintrag`,
+
+    // --- EDITING ---
+    editCellLabel: (column) => `${column} bearbeiten`,
+    editSaveError: 'Diese Änderung konnte nicht gespeichert werden.',
+    editModeStart: 'Zeilen bearbeiten',
+    editModeSave: 'Alle speichern',
+    editModeDiscard: 'Verwerfen',
+    editModeAddRow: 'Zeile hinzufügen',
+    editModeNoChanges: 'Keine Änderungen',
+    editModeUnsavedChanges: (count) => plural(count, 'ungespeicherte Änderung', 'ungespeicherte Änderungen'),
+    editModeFixErrors: 'Zuerst die markierten Zellen korrigieren',
+    editModeRemoveRow: 'Zeile entfernen',
+    editModeRestoreRow: 'Zeile wiederherstellen',
+    editModeSaveError: 'Änderungen konnten nicht gespeichert werden.',
+
+    // --- SELECTION ---
+    selectAllRows: 'Alle Zeilen auswählen',
+    selectRow: 'Zeile auswählen',
+    selectionCount: (count) => `${n(count)} ausgewählt`,
+    selectionAllMatching: (count) => `Alle ${n(count)} Ergebnisse sind ausgewählt.`,
+    selectionSomeMatching: (selected, total) => `${n(selected)} von ${n(total)} Ergebnissen sind ausgewählt.`,
+    selectionPageSelected: (count) => `Alle ${n(count)} Zeilen auf dieser Seite sind ausgewählt.`,
+    selectionSelectAllMatching: (count) => `Alle ${n(count)} Ergebnisse auswählen`,
+    selectionClear: 'Auswahl aufheben',
+
+    // --- BULK ACTIONS ---
+    bulkActionsLabel: 'Massenaktionen',
+    bulkDelete: (label) => `Auswahl: ${label}`,
+    bulkDeleteConfirmTitle: (label, count) => `${plural(count, 'Zeile', 'Zeilen')}: ${label}?`,
+    bulkDeleteConfirmMessage: 'Dies kann nicht rückgängig gemacht werden.',
+    bulkConfirmMessage: (count) => `Dies betrifft ${plural(count, 'ausgewählte Zeile', 'ausgewählte Zeilen')}.`,
+    bulkExport: 'Auswahl exportieren',
+    bulkProgress: (action, done, total) => `${action}: ${n(done)} von ${n(total)}`,
+    bulkResult: (action, succeeded, failed) =>
+      `${action}: ${n(succeeded)} erfolgreich${failed > 0 ? `, ${n(failed)} fehlgeschlagen` : ''}`,
+    bulkShowDetails: 'Details',
+    bulkHideDetails: 'Details ausblenden',
+    bulkRowFailed: 'Fehlgeschlagen',
+
+    // --- GROUPS, TREE ROWS & DETAIL PANELS ---
+    groupExpand: 'Gruppe aufklappen',
+    groupCollapse: 'Gruppe zuklappen',
+    groupContinued: '(Fortsetzung)',
+    treeExpand: 'Zeile aufklappen',
+    treeCollapse: 'Zeile zuklappen',
+    treeLoading: 'Untergeordnete Zeilen werden geladen',
+    treeLoadError: 'Zeilen konnten nicht geladen werden.',
+    treeRetry: 'Untergeordnete Zeilen erneut laden',
+    treeRetryHint: (error) => `${error} Zum erneuten Versuch klicken.`,
+    detailExpand: 'Zeilendetails einblenden',
+    detailCollapse: 'Zeilendetails ausblenden',
+    detailLoading: 'Details werden geladen…',
+    detailLoadError: 'Details konnten nicht geladen werden.',
+
+    // --- TOTALS ---
+    totalsLabel: 'Summe',
+    totalsPageLabel: 'Summe der Seite',
+
+    // --- PAGINATION & FOOTER ---
+    paginationFirstPage: 'Erste Seite',
+    paginationPreviousPage: 'Vorherige Seite',
+    paginationNextPage: 'Nächste Seite',
+    paginationLastPage: 'Letzte Seite',
+    paginationPageOf: (page, pageCount) => `Seite ${n(page)} von ${n(pageCount)}`,
+    paginationRowsPerPage: 'Zeilen pro Seite:',
+    paginationRowsPerPageShort: 'Zeilen:',
+    paginationGroupsPerPage: 'Gruppen pro Seite:',
+    paginationGroupsPerPageShort: 'Gruppen:',
+    paginationDisplayedRows: ({ from, to, count }) =>
+      `${n(from)}–${n(to)} von ${count !== -1 ? n(count) : `mehr als ${n(to)}`}`,
+    footerRowCount: (count) => plural(count, 'Zeile', 'Zeilen'),
+    footerLoadedRows: (loaded, total) =>
+      total === null
+        ? `${plural(loaded, 'Zeile', 'Zeilen')} geladen`
+        : `${n(loaded)} von ${plural(total, 'Zeile', 'Zeilen')} geladen`,
+    footerLoadMore: 'Mehr laden',
+    footerLoadMoreError: 'Weitere Zeilen konnten nicht geladen werden.',
+
+    // --- SCREEN READER ANNOUNCEMENTS ---
+    announceSortCleared: 'Sortierung entfernt',
+    announceSort: (sort) => `Sortiert nach ${sort
+      .map(item => `${item.column} ${item.direction === 'asc' ? 'aufsteigend' : 'absteigend'}`)
+      .join(', dann ')}`,
+    announceRowsFound: (count) => `${plural(count, 'Zeile', 'Zeilen')} gefunden`,
+
+    // --- INLINE FILTER ROW ---
+    filterPlaceholder: 'Filtern…',
+    filterAll: 'Alle',
+    filterMin: 'Min',
+    filterMax: 'Max',
+    filterOperators: {
+      equals: 'Gleich',
+      notEquals: 'Ungleich',
+      contains: 'Enthält',
+      startsWith: 'Beginnt mit',
+      endsWith: 'Endet mit',
+      greaterThan: 'Größer als',
+      lessThan: 'Kleiner als',
+      between: 'Zwischen',
+      before: 'Vor',
+      after: 'Nach',
+      in: 'Ist einer von',
+      notIn: 'Ist keiner von',
+      isEmpty: 'Ist leer',
+      isNotEmpty: 'Ist nicht leer',
+    },
+    filterLabel: (column) => `${column} filtern`,
+    filterOperatorLabel: (column) => `Filteroperator für ${column}`,
+    filterFromLabel: (column) => `${column} von`,
+    filterToLabel: (column) => `${column} bis`,
+
+    // --- ADVANCED SEARCH DIALOG ---
+    searchTitle: 'Erweiterte Suche',
+    searchInstructions: 'Erstellen Sie Ihre Suchanfrage, indem Sie Felder und Werte hinzufügen. Mehrere Kriterien '
+      + 'lassen sich mit UND (alle müssen zutreffen) oder ODER (eines muss zutreffen) verknüpfen.',
+    searchMatchMode: 'Verknüpfung:',
+    searchMatchAll: 'ALLE erfüllen',
+    searchMatchAny: 'EINES erfüllen',
+    searchAnd: 'UND',
+    searchOr: 'ODER',
+    searchField: 'Feld',
+    searchOperator: 'Operator',
+    searchOperators: {
+      CONTAINS: 'Enthält',
+      EQUALS: 'Gleich',
+      STARTS_WITH: 'Beginnt mit',
+      ENDS_WITH: 'Endet mit',
+    },
+    searchValuePlaceholder: (field) => `In ${field} suchen…`,
+    searchRemoveCriterion: 'Dieses Kriterium entfernen',
+    searchAddCriterion: 'Suchfeld hinzufügen',
+    searchClearAll: 'Alles zurücksetzen',
+    searchSubmit: 'Suchen',
+
+    // --- SAVED VIEWS ---
+    viewsButton: 'Ansichten',
+    viewsTitle: 'Gespeicherte Ansichten',
+    viewsModifiedHint: 'Die Tabelle wurde geändert, seit diese Ansicht gespeichert wurde',
+    viewsLoading: 'Ansichten werden geladen…',
+    viewsEmpty: 'Noch keine gespeicherten Ansichten',
+    viewsDefault: 'Standard',
+    viewsSetDefault: 'Als Standard festlegen',
+    viewsRemoveDefault: 'Nicht mehr als Standard verwenden',
+    viewsSetDefaultLabel: (view) => `${view} als Standard festlegen`,
+    viewsRemoveDefaultLabel: (view) => `${view} nicht mehr als Standard verwenden`,
+    viewsRename: 'Umbenennen',
+    viewsRenameLabel: (view) => `${view} umbenennen`,
+    viewsDelete: 'Löschen',
+    viewsDeleteLabel: (view) => `${view} löschen`,
+    viewsSaveChanges: (view) => `Änderungen an „${view}“ speichern`,
+    viewsSaveAs: 'Aktuelle Ansicht speichern unter…',
+    viewsRenameTitle: 'Ansicht umbenennen',
+    viewsSaveTitle: 'Ansicht speichern',
+    viewsNameLabel: 'Name der Ansicht',
+    viewsNameTaken: 'Eine Ansicht mit diesem Namen existiert bereits',
+    viewsSave: 'Speichern',
+    viewsLoadError: 'Gespeicherte Ansichten konnten nicht geladen werden',
+    viewsSaveError: 'Ansichten konnten nicht gespeichert werden',
+
+    // --- EXPORTED FILES ---
+    exportGenerated: (date, records) => `Erstellt: ${date}  |  Datensätze: ${n(records)}`,
+    exportPageOf: (page, pageCount) => `Seite ${page} von ${pageCount}`,
+    exportPageShort: (page, pageCount) => `Seite ${page} / ${pageCount}`,
+    exportDocumentTitle: 'Dokument',
+    exportSheetName: 'Daten',
+  },
+};
+
+export default deLocale;
@@ -0,0 +1,235 @@
+/**
+ * Next Nice DataTable - English Locale
+ * The default text of the table.
+ *
+ * @author Stellarx Team
+ * @version 2.1.0
+ */
+
+import { DataTableLocale } from '../types';
+import { formatNumber } from '../localeUtils';
+
+const n = (value: number) => formatNumber(value, 'en-US');
+const plural = (count: number, one: string, other: string) => `${n(count)} ${count === 1 ? one : other}`;
+
+export const enLocale: DataTableLocale = {
+  code: 'en-US',
+  direction: 'ltr',
+  text: {
+    // --- TABLE ---
+    tableLabel: 'Data table',
+    noRows: 'No data available',
+    loadError: 'Failed to load data.',
+    retry: 'Retry',
+    cancel: 'Cancel',
+    booleanTrue: 'Yes',
+    booleanFalse: 'No',
+
+    // --- TOOLBAR ---
+    toolbarFilterPlaceholder: 'Filter loaded data…',
+    toolbarAdvancedSearch: 'Advanced Search',
+    toolbarActiveSearch: (criteriaCount) => `Search (${n(criteriaCount)})`,
+    toolbarClearSearch: 'Clear search',
+    toolbarFilterCount: (count) => plural(count, 'filter', 'filters'),
+    toolbarRefresh: 'Refresh',
+    toolbarDensity: 'Table density',
+    toolbarDensityCompact: 'Compact',
+    toolbarDensityNormal: 'Normal',
+    toolbarDensityComfortable: 'Comfortable',
+    toolbarColumns: 'Show / hide columns',
+    toolbarExport: 'Export',
+    toolbarExportTooltip: 'Export data',
+    toolbarExportAs: (format) => `Export as ${format}`,
+
+    // --- COLUMN MENU & HEADERS ---
+    columnMenuTitle: 'Toggle Columns',
+    columnMenuMoveUp: (column) => `Move ${column} up`,
+    columnMenuMoveDown: (column) => `Move ${column} down`,
+    columnMenuGroupBy: 'Group by',
+    columnMenuGroupLevel: (level) => `Level ${n(level)}`,
+    columnMenuPinColumns: 'Pin columns',
+    columnMenuPinned: (side) => `Pinned ${side}`,
+    columnMenuPinColumn: (column, side) => `Pin ${column} ${side}`,
+    columnHeaderMultiSortHint: 'Shift-click to sort by multiple columns',
+    columnHeaderSortPriority: (priority) => `sort priority ${n(priority)}`,
+    columnHeaderPinOptions: (column) => `Pin options for ${column}`,
+    columnHeaderResize: (column) => `Resize ${column}`,
+    pinToLeft: 'Pin to left',
+    pinToRight: 'Pin to right',
+    unpin: 'Unpin',
+
+    // --- ACTION BUTTONS ---
+    actionAdd: 'Add',
+    actionView: 'View',
+    actionEdit: 'Edit',
+    actionDelete: 'Delete',
+    actionSelectRow: (action) => `Select a row to ${action.toLowerCase()}`,
+    actionSelectOnlyOneRow: (action) => `Select only one row to ${action.toLowerCase()}`,
+    actionOnSelectedRow: (action) => `${action} selected item`,
+
+    // --- EDITING ---
+    editCellLabel: (column) => `Edit ${column}`,
+    editSaveError: 'Could not save this change.',
+    editModeStart: 'Edit rows',
+    editModeSave: 'Save all',
+    editModeDiscard: 'Discard',
+    editModeAddRow: 'Add row',
+    editModeNoChanges: 'No changes',
+    editModeUnsavedChanges: (count) => plural(count, 'unsaved change', 'unsaved changes'),
+    editModeFixErrors: 'Fix the highlighted cells first',
+    editModeRemoveRow: 'Remove row',
+    editModeRestoreRow: 'Restore row',
+    editModeSaveError: 'Could not save changes.',
+
+    // --- SELECTION ---
+    selectAllRows: 'Select all rows',
+    selectRow: 'Select row',
+    selectionCount: (count) => `${n(count)} selected`,
+    selectionAllMatching: (count) => `All ${n(count)} results are selected.`,
+    selectionSomeMatching: (selected, total) => `${n(selected)} of ${n(total)} results are selected.`,
+    selectionPageSelected: (count) => `All ${n(count)} rows on this page are selected.`,
+    selectionSelectAllMatching: (count) => `Select all ${n(count)} results`,
+    selectionClear: 'Clear selection',
+
+    // --- BULK ACTIONS ---
+    bulkActionsLabel: 'Bulk actions',
+    bulkDelete: (label) => `${label} selected`,
+    bulkDeleteConfirmTitle: (label, count) => `${label} ${plural(count, 'row', 'rows')}?`,
+    bulkDeleteConfirmMessage: 'This cannot be undone.',
+    bulkConfirmMessage: (count) => `This applies to ${plural(count, 'selected row', 'selected rows')}.`,
+    bulkExport: 'Export selected',
+    bulkProgress: (action, done, total) => `${action}: ${n(done)} of ${n(total)}`,
+    bulkResult: (action, succeeded, failed) =>
+      `${action}: ${n(succeeded)} succeeded${failed > 0 ? `, ${n(failed)} failed` : ''}`,
+    bulkShowDetails: 'Details',
+    bulkHideDetails: 'Hide details',
+    bulkRowFailed: 'Failed',
+
+    // --- GROUPS, TREE ROWS & DETAIL PANELS ---
+    groupExpand: 'Expand group',
+    groupCollapse: 'Collapse group',
+    groupContinued: '(continued)',
+    treeExpand: 'Expand row',
+    treeCollapse: 'Collapse row',
+    treeLoading: 'Loading child rows',
+    treeLoadError: 'Could not load rows.',
+    treeRetry: 'Retry loading child rows',
+    treeRetryHint: (error) => `${error} Click to retry.`,
+    detailExpand: 'Expand row details',
+    detailCollapse: 'Collapse row details',
+    detailLoading: 'Loading details…',
+    detailLoadError: 'Could not load details.',
+
+    // --- TOTALS ---
+    totalsLabel: 'Total',
+    totalsPageLabel: 'Page total',
+
+    // --- PAGINATION & FOOTER ---
+    paginationFirstPage: 'First page',
+    paginationPreviousPage: 'Previous page',
+    paginationNextPage: 'Next page',
+    paginationLastPage: 'Last page',
+    paginationPageOf: (page, pageCount) => `Page ${n(page)} of ${n(pageCount)}`,
+    paginationRowsPerPage: 'Rows per page:',
+    paginationRowsPerPageShort: 'Rows:',
+    paginationGroupsPerPage: 'Groups per page:',
+    paginationGroupsPerPageShort: 'Groups:',
+    paginationDisplayedRows: ({ from, to, count }) =>
+      `${n(from)}–${n(to)} of ${count !== -1 ? n(count) : `more than ${n(to)}`}`,
+    footerRowCount: (count) => plural(count, 'row', 'rows'),
+    footerLoadedRows: (loaded, total) =>
+      total === null ? `Loaded ${plural(loaded, 'row', 'rows')}` : `Loaded ${n(loaded)} of ${plural(total, 'row', 'rows')}`,
+    footerLoadMore: 'Load more',
+    footerLoadMoreError: 'Could not load more rows.',
+
+    // --- SCREEN READER ANNOUNCEMENTS ---
+    announceSortCleared: 'Sorting removed',
+    announceSort: (sort) => `Sorted by ${sort
+      .map(item => `${item.column} ${item.direction === 'asc' ? 'ascending' : 'descending'}`)
+      .join(', then ')}`,
+    announceRowsFound: (count) => `${plural(count, 'row', 'rows')} found`,
+
+    // --- INLINE FILTER ROW ---
+    filterPlaceholder: 'Filter…',
+    filterAll: 'All',
+    filterMin: 'Min',
+    filterMax: 'Max',
+    filterOperators: {
+      equals: 'Equals',
+      notEquals: 'Does not equal',
+      contains: 'Contains',
+      startsWith: 'Starts with',
+      endsWith: 'Ends with',
+      greaterThan: 'Greater than',
+      lessThan: 'Less than',
+      between: 'Between',
+      before: 'Before',
+      after: 'After',
+      in: 'Is any of',
+      notIn: 'Is none of',
+      isEmpty: 'Is empty',
+      isNotEmpty: 'Is not empty',
+    },
+    filterLabel: (column) => `Filter ${column}`,
+    filterOperatorLabel: (column) => `${column} filter operator`,
+    filterFromLabel: (column) => `${column} from`,
+    filterToLabel: (column) => `${column} to`,
+
+    // --- ADVANCED SEARCH DIALOG ---
+    searchTitle: 'Advanced Search',
+    searchInstructions: 'Build your search query by adding fields and values. Multiple criteria can be combined '
+      + 'using AND (all must match) or OR (any can match).',
+    searchMatchMode: 'Match mode:',
+    searchMatchAll: 'Match ALL',
+    searchMatchAny: 'Match ANY',
+    searchAnd: 'AND',
+    searchOr: 'OR',
+    searchField: 'Field',
+    searchOperator: 'Operator',
+    searchOperators: {
+      CONTAINS: 'Contains',
+      EQUALS: 'Equals',
+      STARTS_WITH: 'Starts with',
+      ENDS_WITH: 'Ends with',
+    },
+    searchValuePlaceholder: (field) => `Search in ${field}...`,
+    searchRemoveCriterion: 'Remove this criterion',
+    searchAddCriterion: 'Add Search Field',
+    searchClearAll: 'Clear All',
+    searchSubmit: 'Search',
+
+    // --- SAVED VIEWS ---
+    viewsButton: 'Views',
+    viewsTitle: 'Saved views',
+    viewsModifiedHint: 'The table has changed since this view was saved',
+    viewsLoading: 'Loading views…',
+    viewsEmpty: 'No saved views yet',
+    viewsDefault: 'Default',
+    viewsSetDefault: 'Set as default',
+    viewsRemoveDefault: 'Remove as default',
+    viewsSetDefaultLabel: (view) => `Set ${view} as default`,
+    viewsRemoveDefaultLabel: (view) => `Remove ${view} as default`,
+    viewsRename: 'Rename',
+    viewsRenameLabel: (view) => `Rename ${view}`,
+    viewsDelete: 'Delete',
+    viewsDeleteLabel: (view) => `Delete ${view}`,
+    viewsSaveChanges: (view) => `Save changes to "${view}"`,
+    viewsSaveAs: 'Save current view as…',
+    viewsRenameTitle: 'Rename view',
+    viewsSaveTitle: 'Save view',
+    viewsNameLabel: 'View name',
+    viewsNameTaken: 'A view with this name already exists',
+    viewsSave: 'Save',
+    viewsLoadError: 'Failed to load saved views',
+    viewsSaveError: 'Failed to save views',
+
+    // --- EXPORTED FILES ---
+    exportGenerated: (date, records) => `Generated: ${date}  |  Records: ${n(records)}`,
+    exportPageOf: (page, pageCount) => `Page ${page} of ${pageCount}`,
+    exportPageShort: (page, pageCount) => `Page ${page} / ${pageCount}`,
+    exportDocumentTitle: 'Document',
+    exportSheetName: 'Data',
+  },
+};
+
+export default enLocale;
@@ -0,0 +1,236 @@
+/**
+ * Next Nice DataTable - Spanish Locale
+ *
+ * @author Stellarx Team
+ * @version 2.1.0
+ */
+
+import { DataTableLocale } from '../types';
+import { formatNumber } from '../localeUtils';
+
+const n = (value: number) => formatNumber(value, 'es-ES');
+const plural = (count: number, one: string, other: string) => `${n(count)} ${count === 1 ? one : other}`;
+
+export const esLocale: DataTableLocale = {
+  code: 'es-ES',
+  direction: 'ltr',
+  text: {
+    // --- TABLE ---
+    tableLabel: 'Tabla de datos',
+    noRows: 'No hay datos disponibles',
+    loadError: 'No se pudieron cargar los datos.',
+    retry: 'Reintentar',
+    cancel: 'Cancelar',
+    booleanTrue: 'Sí',
+    booleanFalse: 'No',
+
+    // --- TOOLBAR ---
+    toolbarFilterPlaceholder: 'Filtrar datos cargados…',
+    toolbarAdvancedSearch: 'Búsqueda avanzada',
+    toolbarActiveSearch: (criteriaCount) => `Búsqueda (${n(criteriaCount)})`,
+    toolbarClearSearch: 'Borrar búsqueda',
+    toolbarFilterCount: (count) => plural(count, 'filtro', 'filtros'),
+    toolbarRefresh: 'Actualizar',
+    toolbarDensity: 'Densidad de la tabla',
+    toolbarDensityCompact: 'Compacta',
+    toolbarDensityNormal: 'Normal',
+    toolbarDensityComfortable: 'Cómoda',
+    toolbarColumns: 'Mostrar / ocultar columnas',
+    toolbarExport: 'Exportar',
+    toolbarExportTooltip: 'Exportar datos',
+    toolbarExportAs: (format) => `Exportar como ${format}`,
+
+    // --- COLUMN MENU & HEADERS ---
+    columnMenuTitle: 'Columnas',
+    columnMenuMoveUp: (column) => `Subir ${column}`,
+    columnMenuMoveDown: (column) => `Bajar ${column}`,
+    columnMenuGroupBy: 'Agrupar por',
+    columnMenuGroupLevel: (level) => `Nivel ${n(level)}`,
+    columnMenuPinColumns: 'Fijar columnas',
+    columnMenuPinned: (side) => (side === 'left' ? 'Fijada a la izquierda' : 'Fijada a la derecha'),
+    columnMenuPinColumn: (column, side) => `Fijar ${column} a la ${side === 'left' ? 'izquierda' : 'derecha'}`,
+    columnHeaderMultiSortHint: 'Mayús + clic para ordenar por varias columnas',
+    columnHeaderSortPriority: (priority) => `prioridad de orden ${n(priority)}`,
+    columnHeaderPinOptions: (column) => `Opciones de fijación de ${column}`,
+    columnHeaderResize: (column) => `Cambiar el ancho de ${column}`,
+    pinToLeft: 'Fijar a la izquierda',
+    pinToRight: 'Fijar a la derecha',
+    unpin: 'Desfijar',
+
+    // --- ACTION BUTTONS ---
+    actionAdd: 'Añadir',
+    actionView: 'Ver',
+    actionEdit: 'Editar',
+    actionDelete: 'Eliminar',
+    actionSelectRow: (action) => `Selecciona una fila para «${action}»`,
+    actionSelectOnlyOneRow: (action) => `Selecciona solo una fila para «${action}»`,
+    actionOnSelectedRow: (action) => `${action} el elemento seleccionado`,
+
+    // --- EDITING ---
+    editCellLabel: (column) => `Editar ${column}`,
+    editSaveError: 'No se pudo guardar este cambio.',
+    editModeStart: 'Editar filas',
+    editModeSave: 'Guardar todo',
+    editModeDiscard: 'Descartar',
+    editModeAddRow: 'Añadir fila',
+    editModeNoChanges: 'Sin cambios',
+    editModeUnsavedChanges: (count) => plural(count, 'cambio sin guardar', 'cambios sin guardar'),
+    editModeFixErrors: 'Corrige primero las celdas resaltadas',
+    editModeRemoveRow: 'Quitar fila',
+    editModeRestoreRow: 'Restaurar fila',
+    editModeSaveError: 'No se pudieron guardar los cambios.',
+
+    // --- SELECTION ---
+    selectAllRows: 'Seleccionar todas las filas',
+    selectRow: 'Seleccionar fila',
+    selectionCount: (count) => plural(count, 'seleccionada', 'seleccionadas'),
+    selectionAllMatching: (count) => `Los ${n(count)} resultados están seleccionados.`,
+    selectionSomeMatching: (selected, total) => `${n(selected)} de ${n(total)} resultados están seleccionados.`,
+    selectionPageSelected: (count) => `Las ${n(count)} filas de esta página están seleccionadas.`,
+    selectionSelectAllMatching: (count) => `Seleccionar los ${n(count)} resultados`,
+    selectionClear: 'Borrar selección',
+
+    // --- BULK ACTIONS ---
+    bulkActionsLabel: 'Acciones en bloque',
+    bulkDelete: (label) => `${label} selección`,
+    bulkDeleteConfirmTitle: (label, count) => `¿${label} ${plural(count, 'fila', 'filas')}?`,
+    bulkDeleteConfirmMessage: 'Esta acción no se puede deshacer.',
+    bulkConfirmMessage: (count) => `Se aplica a ${plural(count, 'fila seleccionada', 'filas seleccionadas')}.`,
+    bulkExport: 'Exportar selección',
+    bulkProgress: (action, done, total) => `${action}: ${n(done)} de ${n(total)}`,
+    bulkResult: (action, succeeded, failed) =>
+      `${action}: ${plural(succeeded, 'correcta', 'correctas')}${failed > 0 ? `, ${plural(failed, 'fallida', 'fallidas')}` : ''}`,
+    bulkShowDetails: 'Detalles',
+    bulkHideDetails: 'Ocultar detalles',
+    bulkRowFailed: 'Error',
+
+    // --- GROUPS, TREE ROWS & DETAIL PANELS ---
+    groupExpand: 'Expandir grupo',
+    groupCollapse: 'Contraer grupo',
+    groupContinued: '(continuación)',
+    treeExpand: 'Expandir fila',
+    treeCollapse: 'Contraer fila',
+    treeLoading: 'Cargando filas secundarias',
+    treeLoadError: 'No se pudieron cargar las filas.',
+    treeRetry: 'Volver a cargar las filas secundarias',
+    treeRetryHint: (error) => `${error} Haz clic para reintentar.`,
+    detailExpand: 'Mostrar detalles de la fila',
+    detailCollapse: 'Ocultar detalles de la fila',
+    detailLoading: 'Cargando detalles…',
+    detailLoadError: 'No se pudieron cargar los detalles.',
+
+    // --- TOTALS ---
+    totalsLabel: 'Total',
+    totalsPageLabel: 'Total de la página',
+
+    // --- PAGINATION & FOOTER ---
+    paginationFirstPage: 'Primera página',
+    paginationPreviousPage: 'Página anterior',
+    paginationNextPage: 'Página siguiente',
+    paginationLastPage: 'Última página',
+    paginationPageOf: (page, pageCount) => `Página ${n(page)} de ${n(pageCount)}`,
+    paginationRowsPerPage: 'Filas por página:',
+    paginationRowsPerPageShort: 'Filas:',
+    paginationGroupsPerPage: 'Grupos por página:',
+    paginationGroupsPerPageShort: 'Grupos:',
+    paginationDisplayedRows: ({ from, to, count }) =>
+      `${n(from)}–${n(to)} de ${count !== -1 ? n(count) : `más de ${n(to)}`}`,
+    footerRowCount: (count) => plural(count, 'fila', 'filas'),
+    footerLoadedRows: (loaded, total) =>
+      total === null
+        ? `${plural(loaded, 'fila cargada', 'filas cargadas')}`
+        : `${n(loaded)} de ${plural(total, 'fila cargada', 'filas cargadas')}`,
+    footerLoadMore: 'Cargar más',
+    footerLoadMoreError: 'No se pudieron cargar más filas.',
+
+    // --- SCREEN READER ANNOUNCEMENTS ---
+    announceSortCleared: 'Orden eliminado',
+    announceSort: (sort) => `Ordenado por ${sort
+      .map(item => `${item.column} ${item.direction === 'asc' ? 'ascendente' : 'descendente'}`)
+      .join(', luego ')}`,
+    announceRowsFound: (count) => plural(count, 'fila encontrada', 'filas encontradas'),
+
+    // --- INLINE FILTER ROW ---
+    filterPlaceholder: 'Filtrar…',
+    filterAll: 'Todos',
+    filterMin: 'Mín.',
+    filterMax: 'Máx.',
+    filterOperators: {
+      equals: 'Igual a',
+      notEquals: 'Distinto de',
+      contains: 'Contiene',
+      startsWith: 'Empieza por',
+      endsWith: 'Termina en',
+      greaterThan: 'Mayor que',
+      lessThan: 'Menor que',
+      between: 'Entre',
+      before: 'Antes de',
+      after: 'Después de',
+      in: 'Es uno de',
+      notIn: 'No es ninguno de',
+      isEmpty: 'Está vacío',
+      isNotEmpty: 'No está vacío',
+    },
+    filterLabel: (column) => `Filtrar ${column}`,
+    filterOperatorLabel: (column) => `Operador del filtro ${column}`,
+    filterFromLabel: (column) => `${column} desde`,
+    filterToLabel: (column) => `${column} hasta`,
+
+    // --- ADVANCED SEARCH DIALOG ---
+    searchTitle: 'Búsqueda avanzada',
+    searchInstructions: 'Crea tu consulta añadiendo campos y valores. Varios criterios se pueden combinar con '
+      + 'Y (deben cumplirse todos) u O (basta con uno).',
+    searchMatchMode: 'Coincidencia:',
+    searchMatchAll: 'TODOS',
+    searchMatchAny: 'CUALQUIERA',
+    searchAnd: 'Y',
+    searchOr: 'O',
+    searchField: 'Campo',
+    searchOperator: 'Operador',
+    searchOperators: {
+      CONTAINS: 'Contiene',
+      EQUALS: 'Igual a',
+      STARTS_WITH: 'Empieza por',
+      ENDS_WITH: 'Termina en',
+    },
+    searchValuePlaceholder: (field) => `Buscar en ${field}…`,
+    searchRemoveCriterion: 'Quitar este criterio',
+    searchAddCriterion: 'Añadir campo de búsqueda',
+    searchClearAll: 'Borrar todo',
+    searchSubmit: 'Buscar',
+
+    // --- SAVED VIEWS ---
+    viewsButton: 'Vistas',
+    viewsTitle: 'Vistas guardadas',
+    viewsModifiedHint: 'La tabla ha cambiado desde que se guardó esta vista',
+    viewsLoading: 'Cargando vistas…',
+    viewsEmpty: 'Aún no hay vistas guardadas',
+    viewsDefault: 'Predeterminada',
+    viewsSetDefault: 'Establecer como predeterminada',
+    viewsRemoveDefault: 'Quitar como predeterminada',
+    viewsSetDefaultLabel: (view) => `Establecer ${view} como predeterminada`,
+    viewsRemoveDefaultLabel: (view) => `Quitar ${view} como predeterminada`,
+    viewsRename: 'Renombrar',
+    viewsRenameLabel: (view) => `Renombrar ${view}`,
+    viewsDelete: 'Eliminar',
+    viewsDeleteLabel: (view) => `Eliminar ${view}`,
+    viewsSaveChanges: (view) => `Guardar cambios en «${view}»`,
+    viewsSaveAs: 'Guardar la vista actual como…',
+    viewsRenameTitle: 'Renombrar vista',
+    viewsSaveTitle: 'Guardar vista',
+    viewsNameLabel: 'Nombre de la vista',
+    viewsNameTaken: 'Ya existe una vista con este nombre',
+    viewsSave: 'Guardar',
+    viewsLoadError: 'No se pudieron cargar las vistas guardadas',
+    viewsSaveError: 'No se pudieron guardar las vistas',
+
+    // --- EXPORTED FILES ---
+    exportGenerated: (date, records) => `Generado: ${date}  |  Registros: ${n(records)}`,
+    exportPageOf: (page, pageCount) => `Página ${page} de ${pageCount}`,
+    exportPageShort: (page, pageCount) => `Página ${page} / ${pageCount}`,
+    exportDocumentTitle: 'Documento',
+    exportSheetName: 'Datos',
+  },
+};
+
+export default esLocale;
@@ -0,0 +1,239 @@
+/**
+ * Next Nice DataTable - French Locale
+ *
+ * @author Stellarx Team
+ * @version 2.1.0
+ */
+
+import { DataTableLocale } from '../types';
+import { formatNumber } from '../localeUtils';
+
+const n = (value: number) => formatNumber(value, 'fr-FR');
+// French uses the singular for 0 and 1
+const plural = (count: number, one: string, other: string) => `${n(count)} ${count <= 1 ? one : other}`;
+
+export const frLocale: DataTableLocale = {
+  code: 'fr-FR',
+  direction: 'ltr',
+  text: {
+    // --- TABLE ---
+    tableLabel: 'Tableau de données',
+    noRows: 'Aucune donnée disponible',
+    loadError: 'Échec du chargement des données.',
+    retry: 'Réessayer',
+    cancel: 'Annuler',
+    booleanTrue: 'Oui',
+    booleanFalse: 'Non',
+
+    // --- TOOLBAR ---
+    toolbarFilterPlaceholder: 'Filtrer les données chargées…',
+    toolbarAdvancedSearch: 'Recherche avancée',
+    toolbarActiveSearch: (criteriaCount) => `Recherche (${n(criteriaCount)})`,
+    toolbarClearSearch: 'Effacer la recherche',
+    toolbarFilterCount: (count) => plural(count, 'filtre', 'filtres'),
+    toolbarRefresh: 'Actualiser',
+    toolbarDensity: 'Densité du tableau',
+    toolbarDensityCompact: 'Compacte',
+    toolbarDensityNormal: 'Normale',
+    toolbarDensityComfortable: 'Confortable',
+    toolbarColumns: 'Afficher / masquer les colonnes',
+    toolbarExport: 'Exporter',
+    toolbarExportTooltip: 'Exporter les données',
+    toolbarExportAs: (format) => `Exporter en ${format}`,
+
+    // --- COLUMN MENU & HEADERS ---
+    columnMenuTitle: 'Colonnes',
+    columnMenuMoveUp: (column) => `Monter ${column}`,
+    columnMenuMoveDown: (column) => `Descendre ${column}`,
+    columnMenuGroupBy: 'Grouper par',
+    columnMenuGroupLevel: (level) => `Niveau ${n(level)}`,
+    columnMenuPinColumns: 'Épingler des colonnes',
+    columnMenuPinned: (side) => (side === 'left' ? 'Épinglée à gauche' : 'Épinglée à droite'),
+    columnMenuPinColumn: (column, side) => `Épingler ${column} à ${side === 'left' ? 'gauche' : 'droite'}`,
+    columnHeaderMultiSortHint: 'Maj-clic pour trier sur plusieurs colonnes',
+    columnHeaderSortPriority: (priority) => `priorité de tri ${n(priority)}`,
+    columnHeaderPinOptions: (column) => `Options d’épinglage de ${column}`,
+    columnHeaderResize: (column) => `Redimensionner ${column}`,
+    pinToLeft: 'Épingler à gauche',
+    pinToRight: 'Épingler à droite',
+    unpin: 'Désépingler',
+
+    // --- ACTION BUTTONS ---
+    actionAdd: 'Ajouter',
+    actionView: 'Voir',
+    actionEdit: 'Modifier',
+    actionDelete: 'Supprimer',
+    actionSelectRow: (action) => `Sélectionnez une ligne pour « ${action} »`,
+    actionSelectOnlyOneRow: (action) => `Sélectionnez une seule ligne pour « ${action} »`,
+    actionOnSelectedRow: (action) => `${action} l’élément sélectionné`,
+
+    // --- EDITING ---
+    editCellLabel: (column) => `Modifier ${column}`,
+    editSaveError: 'Impossible d’enregistrer cette modification.',
+    editModeStart: 'Modifier les lignes',
+    editModeSave: 'Tout enregistrer',
+    editModeDiscard: 'Abandonner',
+    editModeAddRow: 'Ajouter une ligne',
+    editModeNoChanges: 'Aucune modification',
+    editModeUnsavedChanges: (count) =>
+      plural(count, 'modification non enregistrée', 'modifications non enregistrées'),
+    editModeFixErrors: 'Corrigez d’abord les cellules en surbrillance',
+    editModeRemoveRow: 'Supprimer la ligne',
+    editModeRestoreRow: 'Restaurer la ligne',
+    editModeSaveError: 'Impossible d’enregistrer les modifications.',
+
+    // --- SELECTION ---
+    selectAllRows: 'Sélectionner toutes les lignes',
+    selectRow: 'Sélectionner la ligne',
+    selectionCount: (count) => plural(count, 'sélectionnée', 'sélectionnées'),
+    selectionAllMatching: (count) => `Les ${n(count)} résultats sont sélectionnés.`,
+    selectionSomeMatching: (selected, total) => `${n(selected)} résultats sur ${n(total)} sont sélectionnés.`,
+    selectionPageSelected: (count) => `Les ${n(count)} lignes de cette page sont sélectionnées.`,
+    selectionSelectAllMatching: (count) => `Sélectionner les ${n(count)} résultats`,
+    selectionClear: 'Effacer la sélection',
+
+    // --- BULK ACTIONS ---
+    bulkActionsLabel: 'Actions groupées',
+    bulkDelete: (label) => `${label} la sélection`,
+    bulkDeleteConfirmTitle: (label, count) => `${label} ${plural(count, 'ligne', 'lignes')} ?`,
+    bulkDeleteConfirmMessage: 'Cette action est irréversible.',
+    bulkConfirmMessage: (count) =>
+      `Cette action s’applique à ${plural(count, 'ligne sélectionnée', 'lignes sélectionnées')}.`,
+    bulkExport: 'Exporter la sélection',
+    bulkProgress: (action, done, total) => `${action} : ${n(done)} sur ${n(total)}`,
+    bulkResult: (action, succeeded, failed) =>
+      `${action} : ${plural(succeeded, 'réussie', 'réussies')}${failed > 0 ? `, ${plural(failed, 'échec', 'échecs')}` : ''}`,
+    bulkShowDetails: 'Détails',
+    bulkHideDetails: 'Masquer les détails',
+    bulkRowFailed: 'Échec',
+
+    // --- GROUPS, TREE ROWS & DETAIL PANELS ---
+    groupExpand: 'Déplier le groupe',
+    groupCollapse: 'Replier le groupe',
+    groupContinued: '(suite)',
+    treeExpand: 'Déplier la ligne',
+    treeCollapse: 'Replier la ligne',
+    treeLoading: 'Chargement des lignes enfants',
+    treeLoadError: 'Impossible de charger les lignes.',
+    treeRetry: 'Recharger les lignes enfants',
+    treeRetryHint: (error) => `${error} Cliquez pour réessayer.`,
+    detailExpand: 'Afficher les détails de la ligne',
+    detailCollapse: 'Masquer les détails de la ligne',
+    detailLoading: 'Chargement des détails…',
+    detailLoadError: 'Impossible de charger les détails.',
+
+    // --- TOTALS ---
+    totalsLabel: 'Total',
+    totalsPageLabel: 'Total de la page',
+
+    // --- PAGINATION & FOOTER ---
+    paginationFirstPage: 'Première page',
+    paginationPreviousPage: 'Page précédente',
+    paginationNextPage: 'Page suivante',
+    paginationLastPage: 'Dernière page',
+    paginationPageOf: (page, pageCount) => `Page ${n(page)} sur ${n(pageCount)}`,
+    paginationRowsPerPage: 'Lignes par page :',
+    paginationRowsPerPageShort: 'Lignes :',
+    paginationGroupsPerPage: 'Groupes par page :',
+    paginationGroupsPerPageShort: 'Groupes :',
+    paginationDisplayedRows: ({ from, to, count }) =>
+      `${n(from)}–${n(to)} sur ${count !== -1 ? n(count) : `plus de ${n(to)}`}`,
+    footerRowCount: (count) => plural(count, 'ligne', 'lignes'),
+    footerLoadedRows: (loaded, total) =>
+      total === null
+        ? plural(loaded, 'ligne chargée', 'lignes chargées')
+        : `${n(loaded)} sur ${plural(total, 'ligne chargée', 'lignes chargées')}`,
+    footerLoadMore: 'Charger plus',
+    footerLoadMoreError: 'Impossible de charger plus de lignes.',
+
+    // --- SCREEN READER ANNOUNCEMENTS ---
+    announceSortCleared: 'Tri supprimé',
+    announceSort: (sort) => `Trié par ${sort
+      .map(item => `${item.column} ${item.direction === 'asc' ? 'croissant' : 'décroissant'}`)
+      .join(', puis ')}`,
+    announceRowsFound: (count) => plural(count, 'ligne trouvée', 'lignes trouvées'),
+
+    // --- INLINE FILTER ROW ---
+    filterPlaceholder: 'Filtrer…',
+    filterAll: 'Tous',
+    filterMin: 'Min',
+    filterMax: 'Max',
+    filterOperators: {
+      equals: 'Égal à',
+      notEquals: 'Différent de',
+      contains: 'Contient',
+      startsWith: 'Commence par',
+      endsWith: 'Se termine par',
+      greaterThan: 'Supérieur à',
+      lessThan: 'Inférieur à',
+      between: 'Entre',
+      before: 'Avant',
+      after: 'Après',
+      in: 'Est l’un de',
+      notIn: 'N’est aucun de',
+      isEmpty: 'Est vide',
+      isNotEmpty: 'N’est pas vide',
+    },
+    filterLabel: (column) => `Filtrer ${column}`,
+    filterOperatorLabel: (column) => `Opérateur du filtre ${column}`,
+    filterFromLabel: (column) => `${column} à partir de`,
+    filterToLabel: (column) => `${column} jusqu’à`,
+
+    // --- ADVANCED SEARCH DIALOG ---
+    searchTitle: 'Recherche avancée',
+    searchInstructions: 'Construisez votre requête en ajoutant des champs et des valeurs. Plusieurs critères peuvent '
+      + 'être combinés avec ET (tous doivent correspondre) ou OU (l’un d’eux suffit).',
+    searchMatchMode: 'Correspondance :',
+    searchMatchAll: 'TOUS les critères',
+    searchMatchAny: 'UN des critères',
+    searchAnd: 'ET',
+    searchOr: 'OU',
+    searchField: 'Champ',
+    searchOperator: 'Opérateur',
+    searchOperators: {
+      CONTAINS: 'Contient',
+      EQUALS: 'Égal à',
+      STARTS_WITH: 'Commence par',
+      ENDS_WITH: 'Se termine par',
+    },
+    searchValuePlaceholder: (field) => `Rechercher dans ${field}…`,
+    searchRemoveCriterion: 'Supprimer ce critère',
+    searchAddCriterion: 'Ajouter un champ',
+    searchClearAll: 'Tout effacer',
+    searchSubmit: 'Rechercher',
+
+    // --- SAVED VIEWS ---
+    viewsButton: 'Vues',
+    viewsTitle: 'Vues enregistrées',
+    viewsModifiedHint: 'Le tableau a changé depuis l’enregistrement de cette vue',
+    viewsLoading: 'Chargement des vues…',
+    viewsEmpty: 'Aucune vue enregistrée',
+    viewsDefault: 'Par défaut',
+    viewsSetDefault: 'Définir par défaut',
+    viewsRemoveDefault: 'Ne plus utiliser par défaut',
+    viewsSetDefaultLabel: (view) => `Définir ${view} par défaut`,
+    viewsRemoveDefaultLabel: (view) => `Ne plus utiliser ${view} par défaut`,
+    viewsRename: 'Renommer',
+    viewsRenameLabel: (view) => `Renommer ${view}`,
+    viewsDelete: 'Supprimer',
+    viewsDeleteLabel: (view) => `Supprimer ${view}`,
+    viewsSaveChanges: (view) => `Enregistrer les modifications de « ${view} »`,
+    viewsSaveAs: 'Enregistrer la vue actuelle sous…',
+    viewsRenameTitle: 'Renommer la vue',
+    viewsSaveTitle: 'Enregistrer la vue',
+    viewsNameLabel: 'Nom de la vue',
+    viewsNameTaken: 'Une vue porte déjà ce nom',
+    viewsSave: 'Enregistrer',
+    viewsLoadError: 'Échec du chargement des vues enregistrées',
+    viewsSaveError: 'Échec de l’enregistrement des vues',
+
+    // --- EXPORTED FILES ---
+    exportGenerated: (date, records) => `Généré le : ${date}  |  Enregistrements : ${n(records)}`,
+    exportPageOf: (page, pageCount) => `Page ${page} sur ${pageCount}`,
+    exportPageShort: (page, pageCount) => `Page ${page} / ${pageCount}`,
+    exportDocumentTitle: 'Document',
+    exportSheetName: 'Données',
+  },
+};
+
+export default frLocale;
@@ -0,0 +1,26 @@
+/**
+ * Next Nice DataTable - Locales
+ * The bundled locale packs, and resolution of the `locale` / `localeText` props.
+ *
+ * @author Stellarx Team
+ * @version 2.1.0
+ */
+
+import { DataTableLocale, DataTableLocaleText } from '../types';
+import { enLocale } from './en';
+
+export { enLocale } from './en';
+export { frLocale } from './fr';
+export { deLocale } from './de';
+export { esLocale } from './es';
+export { arLocale } from './ar';
+
+/** The locale in effect: `locale` (default English) with `localeText` laid over its text. */
+export function resolveLocale(
+  locale: DataTableLocale | undefined,
+  localeText: Partial<DataTableLocaleText> | undefined
+): DataTableLocale {
+  const base = locale ?? enLocale;
+  if (!localeText) return base;
+  return { ...base, text: { ...base.text, ...localeText } };
+}
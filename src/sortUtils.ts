@@ -0,0 +1,188 @@
+/**
+ * Next Nice DataTable - Sort Utilities
+ * Sort-model helpers and a stable, type-aware multi-key row comparator.
+ *
+ * @author Stellarx Team
+ * @version 2.1.0
+ */
+
+import { DataTableColumn, SortItem, SortState } from './types';
+import { getNestedValue } from './exportUtils';
+
+// ============================================================================
+// SORT MODEL
+// ============================================================================
+
+/**
+ * Resolve the ordered list of sort keys from a SortState.
+ * Falls back to the single `column` / `direction` pair for sort states that
+ * were created without a `sortModel` (e.g. by older controlled consumers).
+ */
+export function getSortModel(sort: SortState): SortItem[] {
+  if (sort.sortModel) return sort.sortModel;
+  return sort.column && sort.direction ? [{ column: sort.column, direction: sort.direction }] : [];
+}
+
+/** Build a SortState whose `column` / `direction` mirror the primary key of the model. */
+export function toSortState(model: SortItem[]): SortState {
+  return {
+    column: model[0]?.column ?? null,
+    direction: model[0]?.direction ?? null,
+    sortModel: model,
+  };
+}
+
+/**
+ * Compute the next sort model after a header click.
+ *
+ * A plain click makes the column the only sort key and cycles it
+ * asc → desc → unsorted. With `append` (shift-click in multi-sort mode) the
+ * column is added as the lowest-priority key, or its direction is cycled in
+ * place, leaving the other keys untouched.
+ */
+export function getNextSortModel(
+  model: SortItem[],
+  column: string,
+  append: boolean,
+  maxSortColumns?: number
+): SortItem[] {
+  const index = model.findIndex(item => item.column === column);
+
+  if (!append) {
+    const current = model.length > 0 && model[0].column === column ? model[0].direction : null;
+    if (current === 'asc') return [{ column, direction: 'desc' }];
+    if (current === 'desc') return [];
+    return [{ column, direction: 'asc' }];
+  }
+
+  if (index === -1) {
+    const next: SortItem[] = [...model, { column, direction: 'asc' }];
+    // Drop the lowest-priority existing key when the limit is reached
+    return maxSortColumns && next.length > maxSortColumns
+      ? [...next.slice(0, maxSortColumns - 1), next[next.length - 1]]
+      : next;
+  }
+  if (model[index].direction === 'asc') {
+    return model.map((item, i) => (i === index ? { ...item, direction: 'desc' } : item));
+  }
+  return model.filter((_, i) => i !== index);
+}
+
+// ============================================================================
+// COMPARATOR
+// ============================================================================
+
+export interface SortRowsOptions<T> {
+  /** Column definitions – supply `sortValue`, `sortComparator` and `dataType` per key */
+  columns?: DataTableColumn<T>[];
+  /** Where empty values go, independent of direction (default 'nullsLast') */
+  nullPlacement?: 'nullsFirst' | 'nullsLast';
+  /** Locale(s) for string collation (default: runtime locale) */
+  locale?: string | string[];
+  collatorOptions?: Intl.CollatorOptions;
+}
+
+type SortDataType = NonNullable<DataTableColumn['dataType']>;
+
+function isEmptySortValue(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'number' && Number.isNaN(value));
+}
+
+function toTimestamp(value: unknown): number | null {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Date.parse(value);
+  return null;
+}
+
+/**
+ * Coerce a raw value into the representation its data type sorts by.
+ * Values that cannot be coerced (e.g. an unparsable date) become null so they
+ * follow the configured null placement instead of sorting arbitrarily.
+ */
+function normalizeSortValue(value: unknown, dataType: SortDataType | undefined): unknown {
+  if (isEmptySortValue(value)) return null;
+  switch (dataType) {
+    case 'number': {
+      const num = typeof value === 'number' ? value : Number(value);
+      return Number.isNaN(num) ? null : num;
+    }
+    case 'date': {
+      const time = toTimestamp(value);
+      return time === null || Number.isNaN(time) ? null : time;
+    }
+    case 'boolean':
+      return value === true || value === 'true' || value === 1 ? 1 : 0;
+    case 'string':
+      return String(value);
+    default:
+      if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value.getTime();
+      if (typeof value === 'boolean') return value ? 1 : 0;
+      return value;
+  }
+}
+
+/**
+ * Compare two non-empty normalised values.
+ * Numbers compare numerically; everything else goes through the collator.
+ */
+function compareNormalized(aVal: unknown, bVal: unknown, collator: Intl.Collator): number {
+  if (typeof aVal === 'number' && typeof bVal === 'number') return aVal - bVal;
+  return collator.compare(String(aVal), String(bVal));
+}
+
+/**
+ * Sort rows by every key in the model, in priority order.
+ *
+ * For each key the column's `sortValue` accessor (or the nested value at the
+ * column id) is read once per row and coerced by `dataType`. The column's
+ * `sortComparator`, when present, receives the uncoerced values and decides
+ * the ascending order; it never sees empty values, which are placed by
+ * `nullPlacement` regardless of direction.
+ * Rows that compare equal on all keys keep their original relative order.
+ */
+export function sortRows<T>(rows: T[], model: SortItem[], options: SortRowsOptions<T> = {}): T[] {
+  if (model.length === 0) return rows;
+
+  const { columns = [], nullPlacement = 'nullsLast', locale, collatorOptions } = options;
+  const collator = new Intl.Collator(locale, collatorOptions);
+  const nullOrder = nullPlacement === 'nullsFirst' ? -1 : 1;
+
+  const keys = model.map(({ column: columnId, direction }) => {
+    const column = columns.find(col => col.id === columnId);
+    const read = (row: T): unknown =>
+      column?.sortValue ? column.sortValue(row) : getNestedValue(row, columnId);
+    return {
+      direction,
+      column,
+      // Custom comparators receive the raw value; presets receive the coerced one
+      getValue: column?.sortComparator
+        ? (row: T): unknown => (isEmptySortValue(read(row)) ? null : read(row))
+        : (row: T): unknown => normalizeSortValue(read(row), column?.dataType),
+    };
+  });
+
+  return rows
+    .map((row, index) => ({ row, index, values: keys.map(key => key.getValue(row)) }))
+    .sort((a, b) => {
+      for (let k = 0; k < keys.length; k++) {
+        const { direction, column } = keys[k];
+        const aVal = a.values[k];
+        const bVal = b.values[k];
+        const aEmpty = isEmptySortValue(aVal);
+        const bEmpty = isEmptySortValue(bVal);
+
+        if (aEmpty || bEmpty) {
+          if (aEmpty && bEmpty) continue;
+          return aEmpty ? nullOrder : -nullOrder;
+        }
+
+        const cmp = column?.sortComparator
+          ? column.sortComparator(aVal, bVal, a.row, b.row)
+          : compareNormalized(aVal, bVal, collator);
+        if (cmp !== 0) return direction === 'desc' ? -cmp : cmp;
+      }
+      return a.index - b.index;
+    })
+    .map(entry => entry.row);
+}
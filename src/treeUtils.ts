@@ -0,0 +1,148 @@
+/**
+ * Next Nice DataTable - Tree Data Utilities
+ * Builds a row hierarchy from nested children (`getChildren`) or a flat list
+ * with parent references (`parentIdField`), then filters, sorts and flattens
+ * it into the visible row order.
+ *
+ * @author Stellarx Team
+ * @version 2.1.0
+ */
+
+import { getNestedValue } from './exportUtils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TreeNode<T> {
+  row: T;
+  /** String form of the row's rowKeyField value */
+  key: string;
+  /** 0 for root rows */
+  depth: number;
+  children: TreeNode<T>[];
+}
+
+export interface BuildTreeOptions<T> {
+  getRowKey: (row: T) => string;
+  /** Nested data: the child rows of a row */
+  getChildren?: (row: T) => T[] | null | undefined;
+  /** Flat data: field holding the parent row's key (empty for root rows) */
+  parentIdField?: string;
+  /** Children loaded on demand, by parent key */
+  loadedChildren?: Record<string, T[]>;
+}
+
+export interface TreeIndex<T> {
+  nodeByKey: Map<string, TreeNode<T>>;
+  /** Parent key of every node; null for root rows */
+  parentByKey: Map<string, string | null>;
+}
+
+// ============================================================================
+// BUILD
+// ============================================================================
+
+/**
+ * Build the row hierarchy. With `parentIdField`, rows whose parent is not in
+ * the list become root rows. Rows that would be their own ancestor (a parent
+ * cycle) are left out.
+ */
+export function buildTree<T>(rows: T[], options: BuildTreeOptions<T>): TreeNode<T>[] {
+  const { getRowKey, getChildren, parentIdField, loadedChildren = {} } = options;
+
+  const childrenByParent = new Map<string, T[]>();
+  let roots = rows;
+
+  if (parentIdField) {
+    const keys = new Set(rows.map(getRowKey));
+    roots = [];
+    for (const row of rows) {
+      const parent = getNestedValue(row, parentIdField);
+      const parentKey = parent === null || parent === undefined || parent === '' ? null : String(parent);
+      if (parentKey === null || !keys.has(parentKey)) {
+        roots.push(row);
+      } else {
+        const siblings = childrenByParent.get(parentKey);
+        if (siblings) siblings.push(row);
+        else childrenByParent.set(parentKey, [row]);
+      }
+    }
+  }
+
+  const build = (row: T, depth: number, ancestors: Set<string>): TreeNode<T> | null => {
+    const key = getRowKey(row);
+    if (ancestors.has(key)) return null;
+    const childRows = [
+      ...(getChildren?.(row) ?? []),
+      ...(childrenByParent.get(key) ?? []),
+      ...(loadedChildren[key] ?? []),
+    ];
+    const path = new Set(ancestors).add(key);
+    const children = childRows
+      .map(child => build(child, depth + 1, path))
+      .filter((node): node is TreeNode<T> => node !== null);
+    return { row, key, depth, children };
+  };
+
+  return roots
+    .map(row => build(row, 0, new Set()))
+    .filter((node): node is TreeNode<T> => node !== null);
+}
+
+/** Look up nodes and their parents by key. */
+export function indexTree<T>(nodes: TreeNode<T>[]): TreeIndex<T> {
+  const nodeByKey = new Map<string, TreeNode<T>>();
+  const parentByKey = new Map<string, string | null>();
+  const visit = (node: TreeNode<T>, parentKey: string | null) => {
+    nodeByKey.set(node.key, node);
+    parentByKey.set(node.key, parentKey);
+    node.children.forEach(child => visit(child, node.key));
+  };
+  nodes.forEach(node => visit(node, null));
+  return { nodeByKey, parentByKey };
+}
+
+/** Keys of every descendant of a node. */
+export function getDescendantKeys<T>(node: TreeNode<T>): string[] {
+  return node.children.flatMap(child => [child.key, ...getDescendantKeys(child)]);
+}
+
+// ============================================================================
+// FILTER / SORT / FLATTEN
+// ============================================================================
+
+/**
+ * Keep the rows that match and every ancestor of a match, so a matching row
+ * is never shown without its path. `ancestorKeys` collects the rows that have
+ * a matching descendant.
+ */
+export function filterTree<T>(
+  nodes: TreeNode<T>[],
+  predicate: (row: T) => boolean,
+  ancestorKeys = new Set<string>()
+): TreeNode<T>[] {
+  const result: TreeNode<T>[] = [];
+  for (const node of nodes) {
+    const children = filterTree(node.children, predicate, ancestorKeys);
+    if (children.length > 0) ancestorKeys.add(node.key);
+    if (children.length > 0 || predicate(node.row)) result.push({ ...node, children });
+  }
+  return result;
+}
+
+/** Sort every level separately, so children stay under their parent. */
+export function sortTree<T>(nodes: TreeNode<T>[], sortLevel: (rows: T[]) => T[]): TreeNode<T>[] {
+  const nodeByRow = new Map(nodes.map(node => [node.row, node]));
+  return sortLevel(nodes.map(node => node.row)).map(row => {
+    const node = nodeByRow.get(row) as TreeNode<T>;
+    return { ...node, children: sortTree(node.children, sortLevel) };
+  });
+}
+
+/** Visible nodes in display order – children of collapsed rows are left out. */
+export function flattenTree<T>(nodes: TreeNode<T>[], isExpanded: (node: TreeNode<T>) => boolean): TreeNode<T>[] {
+  return nodes.flatMap(node =>
+    isExpanded(node) ? [node, ...flattenTree(node.children, isExpanded)] : [node]
+  );
+}
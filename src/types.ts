@@ -7,7 +7,7 @@
  * @license MIT
  */
 
-import { ReactNode } from 'react';
+import { ReactNode, Ref } from 'react';
 
 // ============================================================================
 // COLUMN TYPES
@@ -18,17 +18,29 @@ export type SortDirection = 'asc' | 'desc' | null;
 
 export type FilterOperator =
   | 'equals'
+  | 'notEquals'
   | 'contains'
   | 'startsWith'
   | 'endsWith'
   | 'greaterThan'
   | 'lessThan'
   | 'between'
+  | 'before'
+  | 'after'
+  | 'in'
+  | 'notIn'
   | 'isEmpty'
   | 'isNotEmpty';
 
 export interface ColumnFilter {
-  value: string | number | boolean | [unknown, unknown];
+  /**
+   * Filter operand.
+   * - `between`: a `[min, max]` tuple (inclusive); leave either side empty for an open range
+   * - `in` / `notIn`: an array of accepted values
+   * - `isEmpty` / `isNotEmpty`: ignored
+   * Numbers, Dates and ISO date strings are compared by value, not as text.
+   */
+  value: string | number | boolean | Date | [unknown, unknown] | unknown[];
   operator: FilterOperator;
 }
 
@@ -40,6 +52,8 @@ export interface DataTableColumn<T = unknown> {
   minWidth?: number;
   maxWidth?: number;
   width?: number;
+  /** Whether users can drag this column's header edge to resize it (default: true) */
+  resizable?: boolean;
   align?: ColumnAlign;
   sortable?: boolean;
   filterable?: boolean;
@@ -56,12 +70,56 @@ export interface DataTableColumn<T = unknown> {
   /** Custom render for exports – must return a plain string */
   exportFormat?: (value: unknown, row: T, rowIndex: number) => string;
   renderHeader?: (column: DataTableColumn<T>) => ReactNode;
+  /**
+   * How values in this column are compared when sorting. `'string'` uses
+   * locale collation (see SortConfig.locale / collatorOptions), `'date'`
+   * accepts Date objects, timestamps and date strings. When omitted, numbers,
+   * Dates and booleans are detected and everything else is collated as text.
+   */
+  dataType?: 'string' | 'number' | 'date' | 'boolean';
+  /** Derive the value to sort by instead of reading the column id (e.g. an enum rank) */
+  sortValue?: (row: T) => unknown;
+  /**
+   * Custom ascending-order comparator. Receives the sort values (from
+   * `sortValue` or the column id) and the rows. Never called with null or
+   * undefined – those follow SortConfig.nullPlacement.
+   */
+  sortComparator?: (a: unknown, b: unknown, rowA: T, rowB: T) => number;
   filterType?: 'text' | 'number' | 'select' | 'date' | 'boolean';
   filterOptions?: { value: unknown; label: string }[];
   className?: string;
+  /** Pin the column to an edge. Sets the initial pin; users can change it from the pin menu */
   sticky?: 'left' | 'right';
+  /** Offer pin / unpin actions for this column (default: true) */
+  pinnable?: boolean;
   /** Tooltip displayed on the column header */
   tooltip?: string;
+  /**
+   * Allow editing cells of this column in place (double-click or Enter).
+   * Pass a function to decide per row.
+   */
+  editable?: boolean | ((row: T) => boolean);
+  /**
+   * Editor used for inline editing. Defaults to `filterType`, then `'select'`
+   * when `filterOptions` is set, then the editor matching `dataType`.
+   * `'select'` offers `filterOptions`.
+   */
+  editType?: 'text' | 'number' | 'select' | 'date' | 'boolean';
+  /** Check an edited value before it is committed. Return an error message to reject it */
+  validate?: (value: unknown, row: T) => string | null | undefined;
+  /** Offer this column in the column menu's "Group by" list (default: true) */
+  groupable?: boolean;
+  /** Summary shown for this column in the table's totals footer and in exports */
+  aggregate?: GroupAggregate<T>;
+}
+
+/**
+ * Column ids pinned to each edge. Pinned columns are shown in column order,
+ * so the order of the ids does not matter.
+ */
+export interface PinnedColumns {
+  left: string[];
+  right: string[];
 }
 
 // ============================================================================
@@ -76,6 +134,20 @@ export interface PaginationState {
 }
 
 export interface PaginationConfig {
+  /**
+   * Set to false to show every row on a single scrolling page (pair with
+   * `virtualization` for large datasets). The footer then shows a row count.
+   */
+  enabled?: boolean;
+  /**
+   * 'page' (default) – classic page / offset pagination.
+   * 'cursor' – server-side infinite scroll: onFetchData receives a `cursor`,
+   * returns `nextCursor` / `hasMore`, and batches of `defaultRowsPerPage` rows
+   * are appended as the user scrolls. The pager becomes a "Loaded N rows" bar.
+   */
+  mode?: 'page' | 'cursor';
+  /** Cursor mode: distance in px from the bottom that triggers the next batch (default: 200) */
+  loadMoreThreshold?: number;
   defaultRowsPerPage?: number;
   rowsPerPageOptions?: number[];
   showRowsPerPageSelector?: boolean;
@@ -87,18 +159,57 @@ export interface PaginationConfig {
   position?: 'top' | 'bottom' | 'both';
 }
 
+// ============================================================================
+// VIRTUALIZATION
+// ============================================================================
+
+export interface VirtualizationConfig {
+  /** Only mount the rows visible in the scroll container */
+  enabled?: boolean;
+  /** Rows rendered above and below the viewport (default: 10) */
+  overscan?: number;
+  /**
+   * Estimated row height in px – one value, or one per density.
+   * Defaults: compact 36, normal 52, comfortable 64. Rendered rows are
+   * measured, so rows that end up taller still scroll correctly.
+   */
+  rowHeight?: number | Partial<Record<'compact' | 'normal' | 'comfortable', number>>;
+  /** Height of the scroll container (default: viewport-relative max height) */
+  height?: number | string;
+}
+
 // ============================================================================
 // SORTING
 // ============================================================================
 
+export interface SortItem {
+  column: string;
+  direction: 'asc' | 'desc';
+}
+
 export interface SortState {
+  /** Primary sort column (mirrors `sortModel[0]`) */
   column: string | null;
   direction: SortDirection;
+  /** Every active sort key in priority order, primary first */
+  sortModel?: SortItem[];
 }
 
 export interface SortConfig {
   defaultColumn?: string;
   defaultDirection?: SortDirection;
+  /** Initial sort keys for multi-sort; takes precedence over defaultColumn / defaultDirection */
+  defaultSortModel?: SortItem[];
+  /** Allow sorting by several columns – shift-click a header to add a secondary key */
+  multiSort?: boolean;
+  /** Maximum number of keys in multi-sort mode (default: unlimited) */
+  maxSortColumns?: number;
+  /** Where null / undefined values go, whatever the direction (default: 'nullsLast') */
+  nullPlacement?: 'nullsFirst' | 'nullsLast';
+  /** Locale(s) used to collate text (default: the table's `locale`, else the runtime locale) */
+  locale?: string | string[];
+  /** Collation options for text, e.g. `{ numeric: true, sensitivity: 'base' }` */
+  collatorOptions?: Intl.CollatorOptions;
 }
 
 // ============================================================================
@@ -175,6 +286,14 @@ export interface SearchConfig {
 
 export type ExportFormat = 'csv' | 'excel' | 'pdf' | 'word';
 
+/** A TrueType font embedded in PDF exports */
+export interface PdfFontConfig {
+  /** Font family name, e.g. `'Amiri'` */
+  name: string;
+  /** The `.ttf` file, base64-encoded */
+  data: string;
+}
+
 export interface ExportConfig {
   enabled?: boolean;
   /** Allowed export formats shown in the menu */
@@ -208,8 +327,25 @@ export interface ExportConfig {
   allowUnsafeHtml?: boolean;
   pdfOrientation?: 'portrait' | 'landscape';
   pdfPageSize?: 'a4' | 'letter' | 'legal';
+  /**
+   * Font for PDF text. jsPDF's built-in Helvetica only covers Latin text, so
+   * without this, locales it cannot draw (e.g. Arabic) write the PDF's own
+   * text in English
+   */
+  pdfFont?: PdfFontConfig;
   /** Label for the export button (default: "Export") */
   buttonLabel?: string;
+  /** Append a totals row for columns with `aggregate` (default: true) */
+  includeTotals?: boolean;
+  /** First cell of the totals row when that column has no aggregate (default: "Total") */
+  totalsLabel?: string;
+  /**
+   * Precomputed totals by column id (e.g. from the server) used instead of
+   * aggregating the exported rows
+   */
+  totals?: Record<string, unknown>;
+  /** Language of the text written into exported files, and of their dates (default: the table's locale) */
+  locale?: DataTableLocale;
 }
 
 // ============================================================================
@@ -249,9 +385,43 @@ export interface SelectionConfig {
   doubleClickSelectsOnly?: boolean;
   /**
    * 'page' – select-all covers only the rows on the current page (default).
-   * 'all'  – select-all covers every row in the loaded dataset.
+   * 'all'  – select-all covers every row in the loaded dataset. In server
+   *          mode it selects every matching row (see `SelectionModel`) once
+   *          the server reports a `totalCount`.
    */
   selectAllScope?: 'page' | 'all';
+  /**
+   * What a plain row click does in `multiple` mode:
+   * 'toggle'  – toggles the row, keeping the rest of the selection (default).
+   * 'replace' – selects only that row; Ctrl / Cmd-click toggles instead.
+   * Shift-click always selects the range from the last clicked row.
+   */
+  clickBehavior?: 'toggle' | 'replace';
+  /**
+   * Once a whole page is selected, offer "Select all N results" in a banner
+   * above the table (default: true)
+   */
+  showSelectAllMatching?: boolean;
+}
+
+/**
+ * The selection by row key. With `allMatching`, every row matching the
+ * filters and search below is selected – also rows that were never loaded –
+ * except `excludedKeys`. Send it to the server to act on all of them.
+ */
+export interface SelectionModel {
+  allMatching: boolean;
+  /** Keys of the selected rows; empty with `allMatching` */
+  selectedKeys: RowKey[];
+  /** With `allMatching`: rows deselected afterwards */
+  excludedKeys: RowKey[];
+  /** The query `allMatching` refers to */
+  filters: FilterState;
+  /** @deprecated Use advancedSearch */
+  search: ServerSearchState;
+  advancedSearch: AdvancedSearchState;
+  /** Number of selected rows */
+  count: number;
 }
 
 // ============================================================================
@@ -324,6 +494,75 @@ export interface ActionButtonConfig {
   deleteColor?: 'primary' | 'secondary' | 'success' | 'error' | 'warning' | 'info' | 'inherit';
 }
 
+// ============================================================================
+// BULK ACTIONS
+// ============================================================================
+
+/** Outcome of a bulk action for one row */
+export interface BulkActionRowResult<T = unknown> {
+  row: T;
+  success: boolean;
+  /** Shown next to the row in the results list */
+  error?: string;
+}
+
+export interface BulkActionConfirmation<T = unknown> {
+  title?: string;
+  message?: ReactNode | ((rows: T[]) => ReactNode);
+  /** Label of the confirm button (default: the action's label) */
+  confirmLabel?: string;
+}
+
+export interface BulkAction<T = unknown> {
+  id: string;
+  label: string;
+  icon?: ReactNode;
+  color?: 'primary' | 'secondary' | 'success' | 'error' | 'warning' | 'info' | 'inherit';
+  /** Ask before running; `true` shows a generic confirmation */
+  confirm?: boolean | BulkActionConfirmation<T>;
+  /**
+   * Run the action on every selected row at once. Resolve with per-row
+   * results, or with nothing when every row succeeded; a rejection fails all
+   * rows. Call `reportProgress` with the number of rows done to fill the
+   * progress bar.
+   *
+   * When all matching rows are selected on the server, `rows` holds only the
+   * loaded ones; use `selection` to act on the rest.
+   */
+  onExecute?: (
+    rows: T[],
+    reportProgress: (done: number) => void,
+    selection: SelectionModel
+  ) => void | BulkActionRowResult<T>[] | Promise<void | BulkActionRowResult<T>[]>;
+  /**
+   * Run the action row by row instead; a row fails when its call throws or
+   * rejects. Unavailable while all matching rows are selected on the server
+   */
+  onExecuteRow?: (row: T) => void | Promise<void>;
+  disabled?: boolean | ((rows: T[]) => boolean);
+  /**
+   * Afterwards, keep only the failed rows selected so they can be retried
+   * (default: true)
+   */
+  clearSelection?: boolean;
+}
+
+export interface BulkActionsConfig<T = unknown> {
+  actions?: BulkAction<T>[];
+  /** Selected rows needed before the bulk toolbar appears (default: 2) */
+  minSelection?: number;
+  /** Built-in "Delete selected" – shown when `onDelete` (here or on the table) is set (default: true) */
+  showDelete?: boolean;
+  /** Delete all selected rows at once; without it the table's `onDelete` runs for each row */
+  onDelete?: BulkAction<T>['onExecute'];
+  /** Built-in "Export selected" – uses the table's export formats (default: true) */
+  showExport?: boolean;
+  /** Rows run at the same time by `onExecuteRow` and per-row delete (default: 4) */
+  concurrency?: number;
+  /** Name a row in the results list (default: its `rowKeyField` value) */
+  getRowLabel?: (row: T) => string;
+}
+
 // ============================================================================
 // CALLBACKS
 // ============================================================================
@@ -338,27 +577,564 @@ export type OnAdvancedSearchCallback = (search: AdvancedSearchState) => void | P
 /** @deprecated Use OnClientFilterChangeCallback */
 export type OnSearchChangeCallback = (searchTerm: string) => void | Promise<void>;
 export type OnSelectionChangeCallback<T> = (selectedRows: T[]) => void;
+export type OnSelectionModelChangeCallback = (selection: SelectionModel) => void;
 export type OnRowClickCallback<T> = (row: T, rowIndex: number, event: React.MouseEvent) => void;
-export type OnRowDoubleClickCallback<T> = (row: T, rowIndex: number, event: React.MouseEvent) => void;
+/** Also called for Enter on a focused row, with the keyboard event */
+export type OnRowDoubleClickCallback<T> = (
+  row: T,
+  rowIndex: number,
+  event: React.MouseEvent | React.KeyboardEvent
+) => void;
 export type OnAddCallback = () => void;
 export type OnEditCallback<T> = (row: T) => void;
-export type OnDeleteCallback<T> = (row: T) => void;
+/** May return a promise; the bulk "Delete selected" action waits for it */
+export type OnDeleteCallback<T> = (row: T) => void | Promise<void>;
 export type OnViewCallback<T> = (row: T) => void;
+/** Persist an inline cell edit. Reject (throw) to roll the cell back and show the error */
+export type OnCellEditCommitCallback<T> = (row: T, columnId: string, newValue: unknown) => void | Promise<void>;
+
+export interface BatchChanges<T> {
+  /** Rows created with "Add row" (temporary keys removed) */
+  added: T[];
+  /** Existing rows with every pending change applied */
+  updated: T[];
+  /** Existing rows marked for removal, as they were */
+  removed: T[];
+}
+
+/** Persist every edit-mode change at once. Reject (throw) to keep the changes and show the error */
+export type OnBatchSaveCallback<T> = (changes: BatchChanges<T>) => void | Promise<void>;
+
+/** The cell currently open for inline editing */
+export interface EditingCell {
+  /** String form of the row's `rowKeyField` value */
+  rowKey: string;
+  columnId: string;
+}
 
 export interface FetchDataParams {
   page: number;
   rowsPerPage: number;
   sort: SortState;
+  /** Every active sort key in priority order (a single entry unless multi-sort is on) */
+  sortModel: SortItem[];
   filters: FilterState;
   /** @deprecated Use advancedSearch */
   search: ServerSearchState;
   advancedSearch?: AdvancedSearchState;
+  /**
+   * Cursor mode only: `null` for the first batch, otherwise the `nextCursor`
+   * returned with the previous batch. Undefined in page mode.
+   */
+  cursor?: string | null;
+  /**
+   * Aborted when this request is superseded (e.g. the page changes again
+   * before it resolves) or the table unmounts. Pass it to `fetch` to cancel
+   * the underlying request; a superseded response is ignored either way.
+   */
+  signal?: AbortSignal;
 }
 
-export type OnFetchDataCallback<T> = (params: FetchDataParams) => Promise<{
+export interface FetchDataResult<T> {
   data: T[];
-  totalCount: number;
-}>;
+  /** Total matching rows. Required in page mode; optional in cursor mode */
+  totalCount?: number;
+  /** Cursor mode: opaque cursor for the next batch; null / undefined when exhausted */
+  nextCursor?: string | null;
+  /** Cursor mode: whether more rows exist (defaults to `nextCursor != null`) */
+  hasMore?: boolean;
+  /**
+   * Totals for the whole result set by column id, shown in the footer in place
+   * of totals computed from the loaded page. Values go through `column.format`
+   */
+  aggregates?: Record<string, unknown>;
+}
+
+export type OnFetchDataCallback<T> = (params: FetchDataParams) => Promise<FetchDataResult<T>>;
+
+export interface FetchConfig {
+  /** Automatic retries after onFetchData rejects (default: 0) */
+  retryAttempts?: number;
+  /** Delay before the first retry in ms; doubles on every further attempt (default: 1000) */
+  retryDelayMs?: number;
+  /** Upper bound for the backoff delay in ms (default: 30000) */
+  maxRetryDelayMs?: number;
+  /** Reuse onFetchData responses for identical parameters */
+  cache?: FetchCacheConfig;
+  /**
+   * Page mode: after each page loads, fetch the next page into the cache in
+   * the background so paging forward is instant. Requires `cache.enabled`.
+   */
+  prefetchNextPage?: boolean;
+}
+
+export interface FetchCacheConfig {
+  enabled?: boolean;
+  /** How long a response stays fresh in ms (default: 60000) */
+  ttlMs?: number;
+  /** Responses kept before the least recently used is evicted (default: 50) */
+  maxEntries?: number;
+}
+
+/** Imperative handle of a `<DataTable>`, received through `apiRef` */
+export interface DataTableApi {
+  /** Re-run the current onFetchData request; from the cache when possible unless `force` is set */
+  refetch: (options?: { force?: boolean }) => Promise<void>;
+  /** Drop every cached onFetchData response, e.g. after a mutation made outside the table */
+  invalidate: () => void;
+}
+
+// ============================================================================
+// AGGREGATION
+// ============================================================================
+
+/** Built-in aggregates. Non-numeric values are ignored; `count` counts non-empty values */
+export type AggregateFunction = 'sum' | 'avg' | 'min' | 'max' | 'count';
+
+/**
+ * A built-in aggregate, or a function that renders one from a set of rows.
+ * Used for group headers and for the totals footer.
+ */
+export type GroupAggregate<T = unknown> = AggregateFunction | ((rows: T[], columnId: string) => ReactNode);
+
+export interface AggregationConfig {
+  /**
+   * Rows the footer totals cover: 'all' (default) – every row that passes the
+   * current filters; 'page' – only the rows on the current page
+   */
+  scope?: 'all' | 'page';
+  /** Shown in the first column when it has no aggregate (default: "Total" / "Page total") */
+  label?: string;
+  /** Keep the footer visible at the bottom of the scroll area (default: true) */
+  sticky?: boolean;
+}
+
+// ============================================================================
+// GROUPING
+// ============================================================================
+
+export interface GroupingConfig<T = unknown> {
+  /** Show the "Group by" list in the column menu (default: true) */
+  enabled?: boolean;
+  /** Initial group-by column ids, outermost first (uncontrolled) */
+  defaultGroupBy?: string[];
+  /** Groups start collapsed (default: false) */
+  defaultCollapsed?: boolean;
+  /**
+   * Order of groups whose column is not sorted (default: 'asc'). A grouped
+   * column that is part of the sort orders its groups in the sort direction.
+   */
+  groupOrder?: 'asc' | 'desc';
+  /**
+   * 'rows' (default) – pages hold a fixed number of rows; a group continued
+   * from the previous page repeats its header.
+   * 'groups' – each page holds whole top-level groups and rows-per-page counts
+   * groups (labelled "Groups per page"), so no group is split across pages.
+   */
+  paginateBy?: 'groups' | 'rows';
+  /** Per-group aggregates shown in the group header row, by column id */
+  aggregates?: Record<string, GroupAggregate<T>>;
+}
+
+// ============================================================================
+// TREE DATA
+// ============================================================================
+
+export interface TreeDataConfig<T = unknown> {
+  /** Nested data: the child rows of a row */
+  getChildren?: (row: T) => T[] | null | undefined;
+  /**
+   * Flat data: field holding the parent row's `rowKeyField` value. Rows with
+   * an empty value, or whose parent is not in the data, are root rows
+   */
+  parentIdField?: string;
+  /**
+   * Load a row's children the first time it is expanded. Loaded children are
+   * kept until the table unmounts
+   */
+  loadChildren?: (row: T) => Promise<T[]>;
+  /** With `loadChildren`: whether a row can have children (default: every row can) */
+  hasChildren?: (row: T) => boolean;
+  /** Rows expanded initially, by `rowKeyField` value (uncontrolled) */
+  defaultExpandedRowKeys?: RowKey[];
+  /**
+   * Multiple selection: selecting a row selects its descendants, and a row
+   * is selected when all of its children are (default: true)
+   */
+  cascadeSelection?: boolean;
+  /** Indentation per level in px (default: 24) */
+  indent?: number;
+}
+
+/** Tree position of a rendered row */
+export interface TreeRowInfo {
+  depth: number;
+  hasChildren: boolean;
+  expanded: boolean;
+  /** Children are being loaded by `loadChildren` */
+  loading: boolean;
+  /** Message of the last failed `loadChildren` call */
+  error?: string;
+}
+
+// ============================================================================
+// DETAIL PANELS
+// ============================================================================
+
+/** Value of a row's `rowKeyField` */
+export type RowKey = string | number;
+
+export interface DetailPanelConfig {
+  /** 'multiple' (default) lets any number of panels stay open; 'single' closes the previous one */
+  mode?: 'single' | 'multiple';
+  /** Rows expanded on first render (uncontrolled) */
+  defaultExpandedRowKeys?: RowKey[];
+  /** Also toggle the panel when the row itself is clicked (default: false) */
+  expandOnRowClick?: boolean;
+}
+
+// ============================================================================
+// EDIT MODE
+// ============================================================================
+
+export interface EditModeConfig<T = unknown> {
+  /** Initial values for rows created with "Add row". A temporary key is assigned when none is set */
+  createRow?: () => Partial<T>;
+  /** Show the "Add row" button while editing (default: true) */
+  allowAdd?: boolean;
+  /** Show a remove / restore button on every row while editing (default: true) */
+  allowRemove?: boolean;
+  /** Toolbar button that enters edit mode (default: "Edit rows") */
+  editModeLabel?: string;
+  saveLabel?: string;
+  discardLabel?: string;
+  addRowLabel?: string;
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+/** Table state that can be saved and restored */
+export interface PersistedTableState {
+  page?: number;
+  rowsPerPage?: number;
+  sortModel?: SortItem[];
+  filters?: FilterState;
+  clientFilterTerm?: string;
+  /** Ids of hidden columns – columns added later start visible */
+  hiddenColumns?: string[];
+  density?: 'compact' | 'normal' | 'comfortable';
+  columnOrder?: string[];
+  columnWidths?: Record<string, number>;
+  pinnedColumns?: PinnedColumns;
+}
+
+export type PersistedStateKey = keyof PersistedTableState;
+
+/**
+ * Custom storage, e.g. IndexedDB or a user-settings endpoint. Methods may
+ * return promises; until `getItem` resolves nothing is saved.
+ */
+export interface PersistenceStorageAdapter {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+  removeItem?: (key: string) => void | Promise<void>;
+}
+
+export interface UrlSyncConfig {
+  /** Prefix for the search params, to keep several tables apart (e.g. `'orders_'`) */
+  prefix?: string;
+  /** Replace the current history entry (default) or push a new one */
+  history?: 'replace' | 'push';
+  /**
+   * Current search params, read instead of `window.location.search` on mount,
+   * when saving and after back / forward – e.g. Next.js `useSearchParams()`
+   */
+  searchParams?: URLSearchParams | string;
+  /**
+   * Apply new search params yourself, e.g. with the Next.js `router.replace`.
+   * By default `window.history` is updated, which the Next.js router follows.
+   */
+  onChange?: (searchParams: URLSearchParams) => void;
+}
+
+export interface PersistenceConfig {
+  /** Storage key; use one per table */
+  key: string;
+  /** Where state is saved (default: 'localStorage') */
+  storage?: 'localStorage' | 'sessionStorage' | PersistenceStorageAdapter;
+  /**
+   * State saved to storage (default: everything except `page` and
+   * `clientFilterTerm`)
+   */
+  include?: PersistedStateKey[];
+  /**
+   * Saved state whose version differs is discarded. Defaults to the column
+   * ids, so adding, removing or renaming a column starts from fresh state.
+   */
+  version?: string | number;
+  /** Also keep page, sort and filters in the URL query string, so a link restores them */
+  urlSync?: boolean | UrlSyncConfig;
+}
+
+// ============================================================================
+// SAVED VIEWS
+// ============================================================================
+
+/** Table state captured by a saved view */
+export interface SavedViewState
+  extends Pick<DataTableState, 'sort' | 'filters' | 'clientFilterTerm' | 'advancedSearch' | 'visibleColumns' | 'density'> {
+  rowsPerPage?: number;
+  columnOrder?: string[];
+  columnWidths?: Record<string, number>;
+  pinnedColumns?: PinnedColumns;
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  state: SavedViewState;
+  /** Applied when the table mounts; at most one view is the default */
+  isDefault?: boolean;
+  /** ISO timestamps */
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Where saved views are kept. Both methods may return promises (e.g. to call
+ * a server); `save` receives the complete list after every change.
+ */
+export interface SavedViewsAdapter {
+  load: () => SavedView[] | Promise<SavedView[]>;
+  save: (views: SavedView[]) => void | Promise<void>;
+}
+
+export interface SavedViewsConfig {
+  /** localStorage key for the built-in adapter; use one per table (default: 'next-nice-datatable.views') */
+  storageKey?: string;
+  /** Custom storage; replaces the built-in localStorage adapter */
+  adapter?: SavedViewsAdapter;
+  /** Toolbar button label when no view is active (default: "Views") */
+  label?: string;
+  /** Called after a view is applied, or with null when the active view is deleted */
+  onViewChange?: (view: SavedView | null) => void;
+}
+
+// ============================================================================
+// LOCALIZATION
+// ============================================================================
+
+/**
+ * Every built-in string of the table. Entries that include counts or names
+ * are functions; counts arrive as numbers, so a pack can format them and pick
+ * the right plural form.
+ */
+export interface DataTableLocaleText {
+  // --- TABLE ---
+  tableLabel: string;
+  noRows: string;
+  loadError: string;
+  retry: string;
+  cancel: string;
+  booleanTrue: string;
+  booleanFalse: string;
+
+  // --- TOOLBAR ---
+  toolbarFilterPlaceholder: string;
+  toolbarAdvancedSearch: string;
+  /** The advanced-search button while a search is active */
+  toolbarActiveSearch: (criteriaCount: number) => string;
+  toolbarClearSearch: string;
+  toolbarFilterCount: (count: number) => string;
+  toolbarRefresh: string;
+  toolbarDensity: string;
+  toolbarDensityCompact: string;
+  toolbarDensityNormal: string;
+  toolbarDensityComfortable: string;
+  toolbarColumns: string;
+  toolbarExport: string;
+  toolbarExportTooltip: string;
+  toolbarExportAs: (format: string) => string;
+
+  // --- COLUMN MENU & HEADERS ---
+  columnMenuTitle: string;
+  columnMenuMoveUp: (column: string) => string;
+  columnMenuMoveDown: (column: string) => string;
+  columnMenuGroupBy: string;
+  columnMenuGroupLevel: (level: number) => string;
+  columnMenuPinColumns: string;
+  columnMenuPinned: (side: 'left' | 'right') => string;
+  columnMenuPinColumn: (column: string, side: 'left' | 'right') => string;
+  columnHeaderMultiSortHint: string;
+  columnHeaderSortPriority: (priority: number) => string;
+  columnHeaderPinOptions: (column: string) => string;
+  columnHeaderResize: (column: string) => string;
+  pinToLeft: string;
+  pinToRight: string;
+  unpin: string;
+
+  // --- ACTION BUTTONS ---
+  actionAdd: string;
+  actionView: string;
+  actionEdit: string;
+  actionDelete: string;
+  /** Tooltips of the view / edit / delete buttons; `action` is the button label */
+  actionSelectRow: (action: string) => string;
+  actionSelectOnlyOneRow: (action: string) => string;
+  actionOnSelectedRow: (action: string) => string;
+
+  // --- EDITING ---
+  editCellLabel: (column: string) => string;
+  editSaveError: string;
+  editModeStart: string;
+  editModeSave: string;
+  editModeDiscard: string;
+  editModeAddRow: string;
+  editModeNoChanges: string;
+  editModeUnsavedChanges: (count: number) => string;
+  editModeFixErrors: string;
+  editModeRemoveRow: string;
+  editModeRestoreRow: string;
+  editModeSaveError: string;
+
+  // --- SELECTION ---
+  selectAllRows: string;
+  selectRow: string;
+  selectionCount: (count: number) => string;
+  selectionAllMatching: (count: number) => string;
+  selectionSomeMatching: (selected: number, total: number) => string;
+  selectionPageSelected: (count: number) => string;
+  selectionSelectAllMatching: (count: number) => string;
+  selectionClear: string;
+
+  // --- BULK ACTIONS ---
+  bulkActionsLabel: string;
+  bulkDelete: (label: string) => string;
+  bulkDeleteConfirmTitle: (label: string, count: number) => string;
+  bulkDeleteConfirmMessage: string;
+  bulkConfirmMessage: (count: number) => string;
+  bulkExport: string;
+  bulkProgress: (action: string, done: number, total: number) => string;
+  bulkResult: (action: string, succeeded: number, failed: number) => string;
+  bulkShowDetails: string;
+  bulkHideDetails: string;
+  bulkRowFailed: string;
+
+  // --- GROUPS, TREE ROWS & DETAIL PANELS ---
+  groupExpand: string;
+  groupCollapse: string;
+  /** After the row count of a group that started on an earlier page */
+  groupContinued: string;
+  treeExpand: string;
+  treeCollapse: string;
+  treeLoading: string;
+  treeLoadError: string;
+  treeRetry: string;
+  treeRetryHint: (error: string) => string;
+  detailExpand: string;
+  detailCollapse: string;
+  detailLoading: string;
+  detailLoadError: string;
+
+  // --- TOTALS ---
+  totalsLabel: string;
+  totalsPageLabel: string;
+
+  // --- PAGINATION & FOOTER ---
+  paginationFirstPage: string;
+  paginationPreviousPage: string;
+  paginationNextPage: string;
+  paginationLastPage: string;
+  paginationPageOf: (page: number, pageCount: number) => string;
+  paginationRowsPerPage: string;
+  paginationRowsPerPageShort: string;
+  paginationGroupsPerPage: string;
+  paginationGroupsPerPageShort: string;
+  /** `count` is -1 when the total is unknown */
+  paginationDisplayedRows: (range: { from: number; to: number; count: number }) => string;
+  footerRowCount: (count: number) => string;
+  /** `total` is null while more rows can be loaded and their number is unknown */
+  footerLoadedRows: (loaded: number, total: number | null) => string;
+  footerLoadMore: string;
+  /** Cursor mode: the next batch failed after every retry */
+  footerLoadMoreError: string;
+
+  // --- SCREEN READER ANNOUNCEMENTS ---
+  announceSortCleared: string;
+  announceSort: (sort: { column: string; direction: 'asc' | 'desc' }[]) => string;
+  announceRowsFound: (count: number) => string;
+
+  // --- INLINE FILTER ROW ---
+  filterPlaceholder: string;
+  filterAll: string;
+  filterMin: string;
+  filterMax: string;
+  filterOperators: Record<FilterOperator, string>;
+  filterLabel: (column: string) => string;
+  filterOperatorLabel: (column: string) => string;
+  filterFromLabel: (column: string) => string;
+  filterToLabel: (column: string) => string;
+
+  // --- ADVANCED SEARCH DIALOG ---
+  searchTitle: string;
+  searchInstructions: string;
+  searchMatchMode: string;
+  searchMatchAll: string;
+  searchMatchAny: string;
+  searchAnd: string;
+  searchOr: string;
+  searchField: string;
+  searchOperator: string;
+  searchOperators: Record<SearchOperator, string>;
+  searchValuePlaceholder: (field: string) => string;
+  searchRemoveCriterion: string;
+  searchAddCriterion: string;
+  searchClearAll: string;
+  searchSubmit: string;
+
+  // --- SAVED VIEWS ---
+  viewsButton: string;
+  viewsTitle: string;
+  viewsModifiedHint: string;
+  viewsLoading: string;
+  viewsEmpty: string;
+  viewsDefault: string;
+  viewsSetDefault: string;
+  viewsRemoveDefault: string;
+  viewsSetDefaultLabel: (view: string) => string;
+  viewsRemoveDefaultLabel: (view: string) => string;
+  viewsRename: string;
+  viewsRenameLabel: (view: string) => string;
+  viewsDelete: string;
+  viewsDeleteLabel: (view: string) => string;
+  viewsSaveChanges: (view: string) => string;
+  viewsSaveAs: string;
+  viewsRenameTitle: string;
+  viewsSaveTitle: string;
+  viewsNameLabel: string;
+  viewsNameTaken: string;
+  viewsSave: string;
+  viewsLoadError: string;
+  viewsSaveError: string;
+
+  // --- EXPORTED FILES ---
+  exportGenerated: (date: string, records: number) => string;
+  exportPageOf: (page: number, pageCount: number) => string;
+  /** Page label beside a custom PDF footer */
+  exportPageShort: (page: number, pageCount: number) => string;
+  exportDocumentTitle: string;
+  exportSheetName: string;
+}
+
+/** A language pack: the text plus what `Intl` and the layout need. */
+export interface DataTableLocale {
+  /** BCP 47 language tag used for number and date formatting, e.g. `'fr-FR'` */
+  code: string;
+  direction: 'ltr' | 'rtl';
+  text: DataTableLocaleText;
+}
 
 // ============================================================================
 // MAIN PROPS
@@ -379,6 +1155,7 @@ export interface DataTableProps<T = unknown> {
   page?: number;
   rowsPerPage?: number;
   pagination?: PaginationConfig;
+  virtualization?: VirtualizationConfig;
 
   // --- SORTING ---
   sort?: SortState;
@@ -405,11 +1182,29 @@ export interface DataTableProps<T = unknown> {
   // --- EXPORT ---
   exportConfig?: ExportConfig;
 
+  // --- COLUMN ORDER, SIZING & PINNING ---
+  /** Controlled column order by column id; unlisted columns follow in `columns` order */
+  columnOrder?: string[];
+  onColumnOrderChange?: (columnOrder: string[]) => void;
+  /** Let users drag column headers to reorder them (default: false) */
+  enableColumnReorder?: boolean;
+  /** Controlled column widths in px by column id; unlisted columns use `column.width` */
+  columnWidths?: Record<string, number>;
+  onColumnWidthsChange?: (columnWidths: Record<string, number>) => void;
+  /** Show resize handles on header cells (default: false) */
+  enableColumnResize?: boolean;
+  /** Controlled pinned columns; when omitted, columns start pinned by their `sticky` side */
+  pinnedColumns?: PinnedColumns;
+  onPinnedColumnsChange?: (pinnedColumns: PinnedColumns) => void;
+  /** Offer pin / unpin actions in the header and the column menu (default: false) */
+  enableColumnPinning?: boolean;
+
   // --- STYLING ---
   styleConfig?: StyleConfig;
 
   // --- SELECTION ---
   selectionConfig?: SelectionConfig;
+  /** Controlled selection; only the rows' keys are used, matched against the loaded rows */
   selectedRows?: T[];
 
   // --- TOOLBAR ---
@@ -429,14 +1224,73 @@ export interface DataTableProps<T = unknown> {
   /** @deprecated Use onClientFilterChange */
   onSearchChange?: OnSearchChangeCallback;
   onSelectionChange?: OnSelectionChangeCallback<T>;
+  /**
+   * The selection by key, including server-side "all matching rows". In that
+   * mode `onSelectionChange` only receives the loaded rows
+   */
+  onSelectionModelChange?: OnSelectionModelChangeCallback;
   onRowClick?: OnRowClickCallback<T>;
   onRowDoubleClick?: OnRowDoubleClickCallback<T>;
   onFetchData?: OnFetchDataCallback<T>;
+  /** Retry behaviour for onFetchData */
+  fetchConfig?: FetchConfig;
+  /** Receives `refetch` / `invalidate` for onFetchData, e.g. `useRef<DataTableApi>(null)` */
+  apiRef?: Ref<DataTableApi>;
   onRefresh?: () => void;
   onAdd?: OnAddCallback;
   onView?: OnViewCallback<T>;
   onEdit?: OnEditCallback<T>;
   onDelete?: OnDeleteCallback<T>;
+  /** Contextual toolbar with actions for several selected rows */
+  bulkActions?: BulkActionsConfig<T>;
+  onCellEditCommit?: OnCellEditCommitCallback<T>;
+  /**
+   * Enables table-wide edit mode: every editable cell becomes an editor,
+   * changes are tracked and saved together. Receives added, updated and
+   * removed rows in one diff.
+   */
+  onBatchSave?: OnBatchSaveCallback<T>;
+  /** Controlled edit mode */
+  editMode?: boolean;
+  onEditModeChange?: (active: boolean) => void;
+  editModeConfig?: EditModeConfig<T>;
+
+  // --- AGGREGATION ---
+  /** Totals footer options; the footer appears when a column has `aggregate` */
+  aggregation?: AggregationConfig;
+
+  // --- GROUPING ---
+  grouping?: GroupingConfig<T>;
+  /** Controlled group-by column ids, outermost first */
+  groupBy?: string[];
+  onGroupByChange?: (groupBy: string[]) => void;
+
+  // --- TREE DATA ---
+  /** Show hierarchical rows; takes precedence over grouping */
+  treeData?: TreeDataConfig<T>;
+  /** Controlled list of expanded tree rows, by `rowKeyField` value */
+  expandedTreeRowKeys?: RowKey[];
+  onExpandedTreeRowKeysChange?: (keys: RowKey[]) => void;
+
+  // --- PERSISTENCE ---
+  /** Save table state to storage (and optionally the URL) and restore it on mount */
+  persistence?: PersistenceConfig;
+  /** Show a "Views" menu for saving and switching named presets of the table state */
+  savedViews?: SavedViewsConfig;
+
+  // --- DETAIL PANELS ---
+  /**
+   * Adds an expand / collapse column; the returned content is shown in a
+   * full-width row beneath the expanded row. With `loadDetailPanel`, `detail`
+   * is the data it resolved with.
+   */
+  renderDetailPanel?: (row: T, detail?: unknown) => ReactNode;
+  /** Load panel data the first time a row is expanded (cached per row key) */
+  loadDetailPanel?: (row: T) => Promise<unknown>;
+  detailPanelConfig?: DetailPanelConfig;
+  /** Controlled list of expanded rows, by `rowKeyField` value */
+  expandedRowKeys?: RowKey[];
+  onExpandedRowKeysChange?: (keys: RowKey[]) => void;
 
   // --- TOOLBAR SHORTHAND PROPS (merged into toolbarConfig internally) ---
   title?: string;
@@ -458,6 +1312,15 @@ export interface DataTableProps<T = unknown> {
   editEnabled?: boolean;
   deleteEnabled?: boolean;
 
+  // --- LOCALIZATION ---
+  /**
+   * Language pack for the built-in text, `Intl` number / date formatting and
+   * the layout direction (default: English, following the theme's direction)
+   */
+  locale?: DataTableLocale;
+  /** Override single strings of the locale. Labels set through other props still win */
+  localeText?: Partial<DataTableLocaleText>;
+
   // --- ACCESSIBILITY ---
   id?: string;
   ariaLabel?: string;
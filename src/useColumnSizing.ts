@@ -0,0 +1,224 @@
+/**
+ * Next Nice DataTable - Column Sizing Hook
+ * Drag-to-resize and double-click auto-fit for header cells, plus the
+ * cumulative offsets that keep several sticky columns side by side.
+ *
+ * While a handle is dragged the new width is previewed locally; it is only
+ * reported through `onColumnWidthChange` when the pointer is released.
+ *
+ * @author Stellarx Team
+ * @version 2.1.0
+ */
+
+import React, { useState, useCallback, useMemo, useEffect, useRef, RefObject } from 'react';
+import { DataTableColumn } from './types';
+
+/** Narrowest a column can be resized to when it sets no `minWidth` */
+const DEFAULT_MIN_COLUMN_WIDTH = 48;
+/** Width change per Arrow key press on a focused resize handle */
+const KEYBOARD_RESIZE_STEP = 16;
+
+export interface UseColumnSizingOptions<T> {
+  /** Rendered columns, in display order */
+  columns: DataTableColumn<T>[];
+  /** Widths set by the user, by column id */
+  columnWidths: Record<string, number>;
+  onColumnWidthChange: (columnId: string, width: number) => void;
+  /** The header row; its cells carry `data-column-id` */
+  headerRowRef: RefObject<HTMLTableRowElement>;
+}
+
+export interface ColumnSizingResult<T> {
+  /** Width to render a column at: drag preview, then user width, then `column.width` */
+  getColumnWidth: (column: DataTableColumn<T>) => number | undefined;
+  /** Whether the user has sized the column (its width is then enforced) */
+  isColumnSized: (column: DataTableColumn<T>) => boolean;
+  /** `left` / `right` offset of each sticky column, by column id */
+  stickyOffsets: Record<string, number>;
+  /** Column whose handle is being dragged */
+  resizingColumnId: string | null;
+  /** Props for a header cell's resize handle */
+  getResizeHandleProps: (column: DataTableColumn<T>) => {
+    onPointerDown: (e: React.PointerEvent<HTMLElement>) => void;
+    onDoubleClick: (e: React.MouseEvent<HTMLElement>) => void;
+    onKeyDown: (e: React.KeyboardEvent<HTMLElement>) => void;
+    onClick: (e: React.MouseEvent<HTMLElement>) => void;
+  };
+}
+
+function clampWidth<T>(column: DataTableColumn<T>, width: number): number {
+  const min = column.minWidth ?? DEFAULT_MIN_COLUMN_WIDTH;
+  const max = column.maxWidth ?? Infinity;
+  return Math.round(Math.min(max, Math.max(min, width)));
+}
+
+/** Cells of one column within the table (header, filter, body and footer). */
+function getColumnCells(table: HTMLElement, columnId: string): HTMLElement[] {
+  return Array.from(table.querySelectorAll<HTMLElement>('[data-column-id]'))
+    .filter(cell => cell.dataset.columnId === columnId);
+}
+
+/**
+ * Width a cell needs to show its content on one line. The resize handle is
+ * hidden while measuring so it does not count as content.
+ */
+function measureContentWidth(cell: HTMLElement): number {
+  const handle = cell.querySelector<HTMLElement>('[data-resize-handle]');
+  const previousWhiteSpace = cell.style.whiteSpace;
+  cell.style.whiteSpace = 'nowrap';
+  if (handle) handle.style.display = 'none';
+
+  const range = document.createRange();
+  range.selectNodeContents(cell);
+  const contentWidth = range.getBoundingClientRect().width;
+
+  cell.style.whiteSpace = previousWhiteSpace;
+  if (handle) handle.style.display = '';
+
+  const style = window.getComputedStyle(cell);
+  return contentWidth + parseFloat(style.paddingLeft) + parseFloat(style.paddingRight);
+}
+
+export function useColumnSizing<T>({
+  columns,
+  columnWidths,
+  onColumnWidthChange,
+  headerRowRef,
+}: UseColumnSizingOptions<T>): ColumnSizingResult<T> {
+  const [dragWidth, setDragWidth] = useState<{ columnId: string; width: number } | null>(null);
+  const [measuredWidths, setMeasuredWidths] = useState<Record<string, number>>({});
+  // Removes the window listeners of a drag that is still running on unmount
+  const stopDragRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => stopDragRef.current?.(), []);
+
+  const getColumnWidth = useCallback((column: DataTableColumn<T>): number | undefined => {
+    if (dragWidth?.columnId === column.id) return dragWidth.width;
+    return columnWidths[column.id] ?? column.width;
+  }, [dragWidth, columnWidths]);
+
+  const isColumnSized = useCallback(
+    (column: DataTableColumn<T>) => dragWidth?.columnId === column.id || columnWidths[column.id] !== undefined,
+    [dragWidth, columnWidths]
+  );
+
+  // -------------------------------------------------------------------------
+  // STICKY OFFSETS – from the rendered header cell widths
+  // -------------------------------------------------------------------------
+
+  const columnIdsKey = columns.map(col => col.id).join('\u0000');
+
+  useEffect(() => {
+    const row = headerRowRef.current;
+    if (!row) return;
+    const cells = Array.from(row.querySelectorAll<HTMLElement>('[data-column-id]'));
+
+    const measure = () => {
+      setMeasuredWidths(prev => {
+        const next: Record<string, number> = {};
+        for (const cell of cells) next[cell.dataset.columnId as string] = cell.getBoundingClientRect().width;
+        const unchanged = Object.keys(next).length === Object.keys(prev).length
+          && Object.entries(next).every(([id, width]) => prev[id] === width);
+        return unchanged ? prev : next;
+      });
+    };
+
+    measure();
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(measure);
+    cells.forEach(cell => observer.observe(cell));
+    return () => observer.disconnect();
+  }, [headerRowRef, columnIdsKey]);
+
+  const stickyOffsets = useMemo(() => {
+    const offsets: Record<string, number> = {};
+    const widthOf = (column: DataTableColumn<T>) => measuredWidths[column.id] ?? getColumnWidth(column) ?? 0;
+
+    let left = 0;
+    for (const column of columns) {
+      if (column.sticky !== 'left') continue;
+      offsets[column.id] = left;
+      left += widthOf(column);
+    }
+    let right = 0;
+    for (const column of [...columns].reverse()) {
+      if (column.sticky !== 'right') continue;
+      offsets[column.id] = right;
+      right += widthOf(column);
+    }
+    return offsets;
+  }, [columns, measuredWidths, getColumnWidth]);
+
+  // -------------------------------------------------------------------------
+  // RESIZE HANDLES
+  // -------------------------------------------------------------------------
+
+  const autoFit = useCallback((column: DataTableColumn<T>, handle: HTMLElement) => {
+    const table = handle.closest('table');
+    if (!table) return;
+    const width = Math.max(0, ...getColumnCells(table, column.id).map(measureContentWidth));
+    onColumnWidthChange(column.id, clampWidth(column, Math.ceil(width)));
+  }, [onColumnWidthChange]);
+
+  const getResizeHandleProps = useCallback((column: DataTableColumn<T>) => ({
+    onPointerDown: (e: React.PointerEvent<HTMLElement>) => {
+      if (e.button !== 0) return;
+      e.preventDefault();
+      e.stopPropagation();
+      const cell = e.currentTarget.closest('th');
+      if (!cell) return;
+
+      const startX = e.clientX;
+      const startWidth = cell.getBoundingClientRect().width;
+      // In right-to-left layouts the handle sits on the left edge
+      const direction = window.getComputedStyle(cell).direction === 'rtl' ? -1 : 1;
+      let width = clampWidth(column, startWidth);
+
+      const handleMove = (event: PointerEvent) => {
+        width = clampWidth(column, startWidth + (event.clientX - startX) * direction);
+        setDragWidth({ columnId: column.id, width });
+      };
+      const stopDrag = () => {
+        window.removeEventListener('pointermove', handleMove);
+        window.removeEventListener('pointerup', handleUp);
+        stopDragRef.current = null;
+      };
+      const handleUp = () => {
+        stopDrag();
+        setDragWidth(null);
+        if (width !== Math.round(startWidth)) onColumnWidthChange(column.id, width);
+      };
+
+      stopDragRef.current?.();
+      stopDragRef.current = stopDrag;
+      // Set right away so the header cell can refuse a column drag that starts here
+      setDragWidth({ columnId: column.id, width });
+      window.addEventListener('pointermove', handleMove);
+      window.addEventListener('pointerup', handleUp);
+    },
+    onDoubleClick: (e: React.MouseEvent<HTMLElement>) => {
+      e.stopPropagation();
+      autoFit(column, e.currentTarget);
+    },
+    onKeyDown: (e: React.KeyboardEvent<HTMLElement>) => {
+      if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+      e.preventDefault();
+      e.stopPropagation();
+      const cell = e.currentTarget.closest('th');
+      const current = getColumnWidth(column) ?? cell?.getBoundingClientRect().width ?? 0;
+      onColumnWidthChange(column.id, clampWidth(column, current + (e.key === 'ArrowRight' ? 1 : -1) * KEYBOARD_RESIZE_STEP));
+    },
+    // A click that ends a resize must not sort the column
+    onClick: (e: React.MouseEvent<HTMLElement>) => e.stopPropagation(),
+  }), [autoFit, getColumnWidth, onColumnWidthChange]);
+
+  return {
+    getColumnWidth,
+    isColumnSized,
+    stickyOffsets,
+    resizingColumnId: dragWidth?.columnId ?? null,
+    getResizeHandleProps,
+  };
+}
+
+export default useColumnSizing;
@@ -12,17 +12,39 @@
  * @version 2.0.0
  */
 
-import { useState, useCallback, useMemo, useEffect } from 'react';
+import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import {
   DataTableProps,
   SortState,
   FilterState,
   DataTableColumn,
   FetchDataParams,
+  FetchDataResult,
+  FilterOperator,
   ServerSearchState,
   AdvancedSearchState,
+  EditingCell,
+  BatchChanges,
+  RowKey,
+  TreeRowInfo,
+  PinnedColumns,
+  PersistedTableState,
+  SavedViewState,
+  SelectionModel,
 } from './types';
-import { getNestedValue } from './exportUtils';
+import { getNestedValue, setNestedValue } from './exportUtils';
+import { createFetchCache, getFetchCacheKey } from './fetchCache';
+import { useTablePersistence } from './useTablePersistence';
+import { flattenGroups, getGroupedRowOrder, GroupedItem, groupRows, indexGroups } from './groupUtils';
+import { buildTree, filterTree, flattenTree, getDescendantKeys, indexTree, sortTree, TreeNode } from './treeUtils';
+import { getNextSortModel, getSortModel, sortRows, toSortState } from './sortUtils';
+import { resolveLocale } from './locales';
+import {
+  isFilterValueEmpty,
+  matchesAdvancedSearch,
+  matchesColumnFilter,
+  VALUELESS_FILTER_OPERATORS,
+} from './filterUtils';
 
 // ============================================================================
 // DEFAULTS
@@ -30,6 +52,117 @@ import { getNestedValue } from './exportUtils';
 
 const DEFAULT_ROWS_PER_PAGE = 12;
 const DEFAULT_ROWS_PER_PAGE_OPTIONS = [5, 10, 12, 25, 50, 100];
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const DEFAULT_MAX_RETRY_DELAY_MS = 30000;
+const DEFAULT_CACHE_TTL_MS = 60000;
+const DEFAULT_CACHE_MAX_ENTRIES = 50;
+/** Prefix of the temporary keys given to rows added in edit mode */
+const NEW_ROW_KEY_PREFIX = '__new_';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Resolve after `ms`, or reject as soon as `signal` aborts. */
+function waitForRetry(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', handleAbort);
+      resolve();
+    }, ms);
+    function handleAbort() {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }
+    signal.addEventListener('abort', handleAbort, { once: true });
+  });
+}
+
+/** Key identifying one cell in the edit-state maps. */
+function getCellKey(rowKey: string, columnId: string): string {
+  return `${rowKey}\u0000${columnId}`;
+}
+
+function isSameCellValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  return Object.is(a, b);
+}
+
+/** An optimistically applied edit, shown until the source data catches up */
+interface CellOverride {
+  value: unknown;
+  /** Source rows when the edit was committed */
+  source: unknown[];
+  /** onCellEditCommit / onBatchSave resolved, so the next source rows are authoritative */
+  settled: boolean;
+}
+
+/** rowKey → columnId → override */
+type CellOverrides = Record<string, Record<string, CellOverride>>;
+
+/**
+ * Drop overrides the source rows have caught up with: settled edits once new
+ * source rows arrived – whatever value the host stored, which may be
+ * normalized or the old one – and any edit the rows already carry.
+ */
+function pruneCellOverrides<T>(
+  overrides: CellOverrides,
+  sourceRows: T[],
+  getRowKey: (row: T) => unknown
+): CellOverrides {
+  let next = overrides;
+  for (const row of sourceRows) {
+    const rowKey = String(getRowKey(row));
+    const rowOverrides = next[rowKey];
+    if (!rowOverrides) continue;
+    const remaining = Object.entries(rowOverrides).filter(([columnId, override]) =>
+      !(override.settled && override.source !== sourceRows)
+      && !isSameCellValue(getNestedValue(row, columnId), override.value)
+    );
+    if (remaining.length === Object.keys(rowOverrides).length) continue;
+    next = remaining.length > 0
+      ? { ...next, [rowKey]: Object.fromEntries(remaining) }
+      : omitKey(next, rowKey);
+  }
+  return next;
+}
+
+/**
+ * Columns in the user's order. Ids in `order` that match no column are
+ * ignored; columns missing from `order` (e.g. added later) keep their place
+ * relative to each other after the ordered ones.
+ */
+function applyColumnOrder<C extends { id: string }>(columns: C[], order: string[]): C[] {
+  if (order.length === 0) return columns;
+  const position = new Map(order.map((id, index) => [id, index]));
+  const ordered = columns.filter(col => position.has(col.id))
+    .sort((a, b) => (position.get(a.id) as number) - (position.get(b.id) as number));
+  return [...ordered, ...columns.filter(col => !position.has(col.id))];
+}
+
+/**
+ * Move pinned columns to their edge and set each column's `sticky` side from
+ * `pinned`. Columns keep their relative order within each part.
+ */
+function applyColumnPinning<T>(columns: DataTableColumn<T>[], pinned: PinnedColumns): DataTableColumn<T>[] {
+  const left = new Set(pinned.left);
+  const right = new Set(pinned.right);
+  const sideOf = (col: DataTableColumn<T>): DataTableColumn<T>['sticky'] =>
+    (left.has(col.id) ? 'left' : right.has(col.id) ? 'right' : undefined);
+  const withSide = (col: DataTableColumn<T>) => (col.sticky === sideOf(col) ? col : { ...col, sticky: sideOf(col) });
+  return [
+    ...columns.filter(col => sideOf(col) === 'left'),
+    ...columns.filter(col => sideOf(col) === undefined),
+    ...columns.filter(col => sideOf(col) === 'right'),
+  ].map(withSide);
+}
+
+function omitKey<V>(record: Record<string, V>, key: string): Record<string, V> {
+  if (!(key in record)) return record;
+  const next = { ...record };
+  delete next[key];
+  return next;
+}
 
 // ============================================================================
 // HOOK
@@ -65,10 +198,35 @@ export function useDataTable<T extends Record<string, unknown>>(props: DataTable
     onAdvancedSearch,
     onSearchChange,
     onSelectionChange,
+    onSelectionModelChange,
     onFetchData,
+    fetchConfig,
+    onCellEditCommit,
+    editMode: propEditMode,
+    editModeConfig,
+    onEditModeChange,
+    onBatchSave,
+    aggregation,
+    grouping,
+    groupBy: propGroupBy,
+    onGroupByChange,
+    columnOrder: propColumnOrder,
+    onColumnOrderChange,
+    columnWidths: propColumnWidths,
+    onColumnWidthsChange,
+    pinnedColumns: propPinnedColumns,
+    onPinnedColumnsChange,
+    treeData,
+    expandedTreeRowKeys: propExpandedTreeRowKeys,
+    onExpandedTreeRowKeysChange,
+    persistence,
     rowKeyField = 'id',
+    locale: localeProp,
+    localeText,
   } = props;
 
+  const locale = useMemo(() => resolveLocale(localeProp, localeText), [localeProp, localeText]);
+
   // =========================================================================
   // INTERNAL STATE
   // =========================================================================
@@ -77,10 +235,14 @@ export function useDataTable<T extends Record<string, unknown>>(props: DataTable
   const [internalRowsPerPage, setInternalRowsPerPage] = useState(
     paginationConfig?.defaultRowsPerPage || DEFAULT_ROWS_PER_PAGE
   );
-  const [internalSort, setInternalSort] = useState<SortState>({
-    column: sortConfig?.defaultColumn || null,
-    direction: sortConfig?.defaultDirection || null,
-  });
+  const [internalSort, setInternalSort] = useState<SortState>(() =>
+    sortConfig?.defaultSortModel
+      ? toSortState(sortConfig.defaultSortModel)
+      : {
+          column: sortConfig?.defaultColumn || null,
+          direction: sortConfig?.defaultDirection || null,
+        }
+  );
   const [internalFilters, setInternalFilters] = useState<FilterState>({});
   const [internalClientFilterTerm, setInternalClientFilterTerm] = useState('');
   const [internalServerSearch, setInternalServerSearch] = useState<ServerSearchState>({
@@ -91,16 +253,55 @@ export function useDataTable<T extends Record<string, unknown>>(props: DataTable
     criteria: [],
     matchAll: true,
   });
-  const [internalSelectedRows, setInternalSelectedRows] = useState<T[]>([]);
+  // Selection by row key; rows are only looked up for `selectedRows`
+  const [internalSelectedKeys, setInternalSelectedKeys] = useState<ReadonlySet<unknown>>(() => new Set());
+  // Row of each selected key as it was selected, for keys whose row is no longer loaded
+  const selectedRowCacheRef = useRef(new Map<unknown, T>());
+  // Server-side "select all matching": every row of the query except these keys
+  const [allMatchingSelection, setAllMatchingSelection] = useState<{ excludedKeys: RowKey[] } | null>(null);
   const [visibleColumns, setVisibleColumns] = useState<string[]>(
     columns.filter(col => !col.hidden).map(col => col.id)
   );
+  const [internalColumnOrder, setInternalColumnOrder] = useState<string[]>([]);
+  const [internalColumnWidths, setInternalColumnWidths] = useState<Record<string, number>>({});
+  const [internalPinnedColumns, setInternalPinnedColumns] = useState<PinnedColumns>(() => ({
+    left: columns.filter(col => col.sticky === 'left').map(col => col.id),
+    right: columns.filter(col => col.sticky === 'right').map(col => col.id),
+  }));
   const [density, setDensity] = useState<'compact' | 'normal' | 'comfortable'>(
     styleConfig?.density || 'normal'
   );
   const [serverLoading, setServerLoading] = useState(false);
+  const [serverLoadingMore, setServerLoadingMore] = useState(false);
   const [serverData, setServerData] = useState<T[]>([]);
-  const [serverTotalCount, setServerTotalCount] = useState(0);
+  const [serverTotalCount, setServerTotalCount] = useState<number | null>(null);
+  const [serverAggregates, setServerAggregates] = useState<Record<string, unknown> | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [fetchError, setFetchError] = useState<Error | null>(null);
+  // Kept in a ref: it changes after every batch and must not re-trigger the fetch effect
+  const nextCursorRef = useRef<string | null>(null);
+  // Only the latest request may write state; older responses are discarded
+  const requestIdRef = useRef(0);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Whether the last request was a cursor-mode append, so a retry repeats it
+  const lastFetchAppendRef = useRef(false);
+  const prefetchControllerRef = useRef<AbortController | null>(null);
+  const [editingCell, setEditingCell] = useState<EditingCell | null>(null);
+  // Optimistically applied edits
+  const [cellOverrides, setCellOverrides] = useState<CellOverrides>({});
+  // Validation and commit errors by cell key
+  const [cellErrors, setCellErrors] = useState<Record<string, string>>({});
+  const [internalEditMode, setInternalEditMode] = useState(false);
+  // Edit mode: changed cells of existing rows, keyed by row key, with the row as it was
+  const [batchEdits, setBatchEdits] = useState<Record<string, { row: T; changes: Record<string, unknown> }>>({});
+  const [addedRows, setAddedRows] = useState<T[]>([]);
+  const [removedRows, setRemovedRows] = useState<Record<string, T>>({});
+  const [batchSaving, setBatchSaving] = useState(false);
+  const [batchSaveError, setBatchSaveError] = useState<string | null>(null);
+  const addedRowCounterRef = useRef(0);
+  const [internalGroupBy, setInternalGroupBy] = useState<string[]>(grouping?.defaultGroupBy ?? []);
+  // Groups whose collapsed state differs from grouping.defaultCollapsed
+  const [toggledGroupKeys, setToggledGroupKeys] = useState<string[]>([]);
 
   // =========================================================================
   // CONTROLLED / UNCONTROLLED RESOLUTION
@@ -109,11 +310,13 @@ export function useDataTable<T extends Record<string, unknown>>(props: DataTable
   const page = propPage ?? internalPage;
   const rowsPerPage = propRowsPerPage ?? internalRowsPerPage;
   const sort = propSort ?? internalSort;
+  const sortModel = useMemo(() => getSortModel(sort), [sort]);
   const filters = propFilters ?? internalFilters;
   const clientFilterTerm = propClientFilterTerm ?? propSearchTerm ?? internalClientFilterTerm;
   const serverSearch = propServerSearch ?? internalServerSearch;
   const advancedSearch = propAdvancedSearch ?? internalAdvancedSearch;
-  const selectedRows = propSelectedRows ?? internalSelectedRows;
+  const isEditMode = propEditMode ?? internalEditMode;
+  const groupBy = propGroupBy ?? internalGroupBy;
 
   // =========================================================================
   // SERVER-SIDE FLAG
@@ -121,6 +324,9 @@ export function useDataTable<T extends Record<string, unknown>>(props: DataTable
 
   const isServerSide = !!onFetchData;
 
+  /** Cursor mode – rows are appended batch by batch instead of paged */
+  const isCursorMode = isServerSide && paginationConfig?.mode === 'cursor';
+
   // =========================================================================
   // CLIENT-SIDE SEARCH HELPERS
   // =========================================================================
@@ -168,119 +374,481 @@ export function useDataTable<T extends Record<string, unknown>>(props: DataTable
     return allValues.some(v => v.toLowerCase().includes(searchLower));
   }, [columns, extractAllValues]);
 
+  // =========================================================================
+  // CELL EDITING – OPTIMISTIC OVERRIDES
+  // =========================================================================
+
+  const getRowKey = useCallback((row: T): unknown =>
+    (row as Record<string, unknown>)[rowKeyField],
+    [rowKeyField]
+  );
+
+  /** Source rows with optimistic cell edits applied. */
+  const applyCellOverrides = useCallback((rows: T[]): T[] => {
+    if (Object.keys(cellOverrides).length === 0) return rows;
+    return rows.map(row => {
+      const overrides = cellOverrides[String(getRowKey(row))];
+      if (!overrides) return row;
+      return Object.entries(overrides).reduce<T>(
+        (acc, [columnId, override]) => setNestedValue(acc, columnId, override.value),
+        row
+      );
+    });
+  }, [cellOverrides, getRowKey]);
+
+  // Source rows without overrides, for the commit callbacks below
+  const sourceDataRef = useRef<T[]>([]);
+  sourceDataRef.current = isServerSide ? serverData : propData;
+
+  // Drop overrides once the host data has caught up with them
+  useEffect(() => {
+    setCellOverrides(prev => pruneCellOverrides(prev, isServerSide ? serverData : propData, getRowKey));
+  }, [isServerSide, serverData, propData, getRowKey]);
+
   // =========================================================================
   // DATA PROCESSING
   // =========================================================================
 
-  const processedData = useMemo((): T[] => {
-    if (isServerSide) return serverData;
+  const sourceRows = useMemo(
+    () => applyCellOverrides(isServerSide ? serverData : propData),
+    [applyCellOverrides, isServerSide, serverData, propData]
+  );
 
-    let result = [...propData];
+  const searchTermActive = !!clientFilterTerm && clientFilterConfig?.enabled !== false;
+  const columnFiltersActive = Object.keys(filters).length > 0 && filterConfig?.filterMode !== 'server';
+  const hasClientFilters = !isServerSide
+    && (searchTermActive || advancedSearch.criteria.length > 0 || columnFiltersActive);
 
+  /** Whether a row passes the client-side filter, advanced search and column filters */
+  const rowPassesFilters = useCallback((row: T): boolean => {
     // Client-side full-text filter
-    if (clientFilterTerm && clientFilterConfig?.enabled !== false) {
-      const filterLower = clientFilterTerm.toLowerCase();
-      result = result.filter(row => matchesSearch(row, filterLower));
-    }
+    if (searchTermActive && !matchesSearch(row, clientFilterTerm.toLowerCase())) return false;
+
+    // Advanced-search criteria – without onFetchData the dialog filters locally
+    if (advancedSearch.criteria.length > 0 && !matchesAdvancedSearch(row, advancedSearch)) return false;
 
     // Column filters (client-side only)
-    if (Object.keys(filters).length > 0 && filterConfig?.filterMode !== 'server') {
-      result = result.filter(row =>
-        Object.entries(filters).every(([columnId, filter]) => {
-          const value = getNestedValue(row as Record<string, unknown>, columnId);
-          const strVal = String(value ?? '').toLowerCase();
-          const strFilter = String(filter.value ?? '').toLowerCase();
-
-          switch (filter.operator) {
-            case 'equals':      return String(value) === String(filter.value);
-            case 'contains':    return strVal.includes(strFilter);
-            case 'startsWith':  return strVal.startsWith(strFilter);
-            case 'endsWith':    return strVal.endsWith(strFilter);
-            case 'greaterThan': return Number(value) > Number(filter.value);
-            case 'lessThan':    return Number(value) < Number(filter.value);
-            case 'isEmpty':     return value === null || value === undefined || value === '';
-            case 'isNotEmpty':  return value !== null && value !== undefined && value !== '';
-            default:            return true;
-          }
-        })
-      );
-    }
+    return !columnFiltersActive || Object.entries(filters).every(([columnId, filter]) =>
+      matchesColumnFilter(getNestedValue(row as Record<string, unknown>, columnId), filter)
+    );
+  }, [searchTermActive, matchesSearch, clientFilterTerm, advancedSearch, columnFiltersActive, filters]);
 
-    // Sorting
-    if (sort.column && sort.direction) {
-      result.sort((a, b) => {
-        const aVal = getNestedValue(a as Record<string, unknown>, sort.column!);
-        const bVal = getNestedValue(b as Record<string, unknown>, sort.column!);
-
-        let cmp = 0;
-        if (aVal === null || aVal === undefined) cmp = 1;
-        else if (bVal === null || bVal === undefined) cmp = -1;
-        else if (typeof aVal === 'string' && typeof bVal === 'string') {
-          cmp = aVal.localeCompare(bVal);
-        } else if (typeof aVal === 'number' && typeof bVal === 'number') {
-          cmp = aVal - bVal;
-        } else {
-          cmp = String(aVal).localeCompare(String(bVal));
-        }
+  // Sorting – stable, multi-key
+  const sortLevel = useCallback((rows: T[]): T[] => sortRows(rows, sortModel, {
+    columns,
+    nullPlacement: sortConfig?.nullPlacement,
+    locale: sortConfig?.locale ?? localeProp?.code,
+    collatorOptions: sortConfig?.collatorOptions,
+  }), [sortModel, columns, sortConfig, localeProp]);
 
-        return sort.direction === 'desc' ? -cmp : cmp;
-      });
+  // -------------------------------------------------------------------------
+  // TREE DATA
+  // -------------------------------------------------------------------------
+
+  const isTreeData = !!treeData && (!!treeData.getChildren || !!treeData.parentIdField || !!treeData.loadChildren);
+  const cascadeSelection = isTreeData && treeData?.cascadeSelection !== false && selectionConfig?.mode !== 'single';
+
+  const [internalExpandedTreeKeys, setInternalExpandedTreeKeys] = useState<RowKey[]>(
+    treeData?.defaultExpandedRowKeys ?? []
+  );
+  const [loadedChildren, setLoadedChildren] = useState<Record<string, T[]>>({});
+  const [childLoadStates, setChildLoadStates] = useState<Record<string, { loading: boolean; error?: string }>>({});
+  // Parents with a loadChildren call in flight; a ref so the load effect never starts one twice
+  const loadingChildKeysRef = useRef<Set<string>>(new Set());
+
+  const expandedTreeKeys = propExpandedTreeRowKeys ?? internalExpandedTreeKeys;
+  const expandedTreeKeySet = useMemo(() => new Set(expandedTreeKeys.map(String)), [expandedTreeKeys]);
+
+  const getTreeKey = useCallback((row: T): string => String(getRowKey(row)), [getRowKey]);
+
+  /** Every row in the hierarchy, before filtering */
+  const treeRoots = useMemo((): TreeNode<T>[] => {
+    if (!isTreeData) return [];
+    return buildTree(sourceRows, {
+      getRowKey: getTreeKey,
+      getChildren: treeData?.getChildren,
+      parentIdField: treeData?.parentIdField,
+      loadedChildren,
+    });
+  }, [isTreeData, sourceRows, getTreeKey, treeData?.getChildren, treeData?.parentIdField, loadedChildren]);
+
+  const treeIndex = useMemo(() => indexTree(treeRoots), [treeRoots]);
+
+  // Filter and sort level by level; server mode leaves both to onFetchData
+  const { visibleTree, matchAncestorKeys } = useMemo(() => {
+    const ancestorKeys = new Set<string>();
+    if (isServerSide) return { visibleTree: treeRoots, matchAncestorKeys: ancestorKeys };
+    const filtered = hasClientFilters ? filterTree(treeRoots, rowPassesFilters, ancestorKeys) : treeRoots;
+    return { visibleTree: sortTree(filtered, sortLevel), matchAncestorKeys: ancestorKeys };
+  }, [isServerSide, treeRoots, hasClientFilters, rowPassesFilters, sortLevel]);
+
+  /** Ancestors of filter matches are expanded so every match is visible */
+  const isTreeNodeExpanded = useCallback(
+    (node: TreeNode<T>) => expandedTreeKeySet.has(node.key) || matchAncestorKeys.has(node.key),
+    [expandedTreeKeySet, matchAncestorKeys]
+  );
+
+  const visibleTreeNodes = useMemo(
+    () => flattenTree(visibleTree, isTreeNodeExpanded),
+    [visibleTree, isTreeNodeExpanded]
+  );
+
+  const canLoadChildren = useCallback((node: TreeNode<T>): boolean =>
+    !!treeData?.loadChildren
+      && node.children.length === 0
+      && !(node.key in loadedChildren)
+      && (treeData.hasChildren?.(node.row) ?? true),
+    [treeData, loadedChildren]
+  );
+
+  const loadTreeChildren = useCallback(async (node: TreeNode<T>) => {
+    if (!treeData?.loadChildren) return;
+    loadingChildKeysRef.current.add(node.key);
+    setChildLoadStates(prev => ({ ...prev, [node.key]: { loading: true } }));
+    try {
+      const children = await treeData.loadChildren(node.row);
+      setLoadedChildren(prev => ({ ...prev, [node.key]: children }));
+      setChildLoadStates(prev => omitKey(prev, node.key));
+    } catch (err) {
+      setChildLoadStates(prev => ({
+        ...prev,
+        [node.key]: { loading: false, error: err instanceof Error && err.message ? err.message : locale.text.treeLoadError },
+      }));
+    } finally {
+      loadingChildKeysRef.current.delete(node.key);
     }
+  }, [treeData, locale]);
 
-    return result;
-  }, [
-    propData, clientFilterTerm, filters, sort,
-    isServerSide, serverData, clientFilterConfig, filterConfig, matchesSearch,
-  ]);
+  // Load children on first expansion – also covers keys expanded from outside
+  useEffect(() => {
+    for (const key of expandedTreeKeySet) {
+      const node = treeIndex.nodeByKey.get(key);
+      if (!node || childLoadStates[key] || loadingChildKeysRef.current.has(key) || !canLoadChildren(node)) continue;
+      loadTreeChildren(node);
+    }
+  }, [expandedTreeKeySet, treeIndex, childLoadStates, canLoadChildren, loadTreeChildren]);
+
+  const toggleTreeRowExpanded = useCallback((row: T) => {
+    const key = getTreeKey(row);
+    const next = expandedTreeKeySet.has(key)
+      ? expandedTreeKeys.filter(k => String(k) !== key)
+      : [...expandedTreeKeys, getRowKey(row) as RowKey];
+
+    if (onExpandedTreeRowKeysChange) onExpandedTreeRowKeysChange(next);
+    else setInternalExpandedTreeKeys(next);
+  }, [getTreeKey, expandedTreeKeySet, expandedTreeKeys, getRowKey, onExpandedTreeRowKeysChange]);
+
+  /** Try a failed loadChildren call again */
+  const reloadTreeChildren = useCallback((row: T) => {
+    const node = treeIndex.nodeByKey.get(getTreeKey(row));
+    if (node && !loadingChildKeysRef.current.has(node.key)) loadTreeChildren(node);
+  }, [treeIndex, getTreeKey, loadTreeChildren]);
+
+  const visibleTreeNodeByKey = useMemo(
+    () => new Map(visibleTreeNodes.map(node => [node.key, node])),
+    [visibleTreeNodes]
+  );
+
+  /** Depth and expand state of a rendered row; undefined outside tree mode */
+  const getTreeRowInfo = useCallback((row: T): TreeRowInfo | undefined => {
+    const node = visibleTreeNodeByKey.get(getTreeKey(row));
+    if (!node) return undefined;
+    const loadState = childLoadStates[node.key];
+    return {
+      depth: node.depth,
+      hasChildren: node.children.length > 0 || canLoadChildren(node),
+      expanded: isTreeNodeExpanded(node),
+      loading: !!loadState?.loading,
+      error: loadState?.error,
+    };
+  }, [visibleTreeNodeByKey, getTreeKey, childLoadStates, canLoadChildren, isTreeNodeExpanded]);
+
+  // -------------------------------------------------------------------------
+  // FILTER & SORT
+  // -------------------------------------------------------------------------
+
+  const processedData = useMemo((): T[] => {
+    if (isTreeData) return visibleTreeNodes.map(node => node.row);
+    if (isServerSide) return sourceRows;
+    const result = hasClientFilters ? sourceRows.filter(rowPassesFilters) : sourceRows;
+    return sortLevel(result);
+  }, [isTreeData, visibleTreeNodes, isServerSide, sourceRows, hasClientFilters, rowPassesFilters, sortLevel]);
+
+  // =========================================================================
+  // GROUPING
+  // =========================================================================
+
+  // Tree rows keep their hierarchy, so tree data is never grouped
+  const isGrouped = !isTreeData && groupBy.length > 0;
+  const isPaginated = !isServerSide && paginationConfig?.enabled !== false;
+  // Server pages arrive pre-sliced, so only client-side tables can page by group
+  const paginateByGroups = isGrouped && isPaginated && grouping?.paginateBy === 'groups';
+
+  const groupRowsOptions = useMemo(() => ({
+    columns,
+    sortModel,
+    groupOrder: grouping?.groupOrder,
+    nullPlacement: sortConfig?.nullPlacement,
+    locale: sortConfig?.locale ?? localeProp?.code,
+    collatorOptions: sortConfig?.collatorOptions,
+  }), [columns, sortModel, grouping?.groupOrder, sortConfig, localeProp]);
+
+  const rowGroups = useMemo(
+    () => (isGrouped ? groupRows(processedData, groupBy, groupRowsOptions) : []),
+    [isGrouped, processedData, groupBy, groupRowsOptions]
+  );
+
+  /** processedData in group order (unchanged when not grouped) */
+  const groupedRowOrder = useMemo(
+    () => (isGrouped ? getGroupedRowOrder(rowGroups) : processedData),
+    [isGrouped, rowGroups, processedData]
+  );
+
+  const isGroupCollapsed = useCallback((groupKey: string): boolean =>
+    !!grouping?.defaultCollapsed !== toggledGroupKeys.includes(groupKey),
+    [grouping?.defaultCollapsed, toggledGroupKeys]
+  );
+
+  const toggleGroupCollapsed = useCallback((groupKey: string) => {
+    setToggledGroupKeys(prev =>
+      prev.includes(groupKey) ? prev.filter(key => key !== groupKey) : [...prev, groupKey]
+    );
+  }, []);
+
+  const handleGroupByChange = useCallback((newGroupBy: string[]) => {
+    if (onGroupByChange) onGroupByChange(newGroupBy);
+    else { setInternalGroupBy(newGroupBy); setInternalPage(0); }
+  }, [onGroupByChange]);
+
+  /** Add a column as the innermost group level, or remove it. */
+  const toggleGroupByColumn = useCallback((columnId: string) => {
+    handleGroupByChange(
+      groupBy.includes(columnId) ? groupBy.filter(id => id !== columnId) : [...groupBy, columnId]
+    );
+  }, [groupBy, handleGroupByChange]);
+
+  // =========================================================================
+  // PAGINATION
+  // =========================================================================
 
   const totalCount = useMemo((): number => {
-    if (isServerSide) return propTotalCount ?? serverTotalCount;
+    if (isServerSide) return propTotalCount ?? serverTotalCount ?? serverData.length;
+    if (paginateByGroups) return rowGroups.length;
     return processedData.length;
-  }, [isServerSide, propTotalCount, serverTotalCount, processedData.length]);
+  }, [
+    isServerSide, propTotalCount, serverTotalCount, serverData.length, paginateByGroups, rowGroups.length,
+    processedData.length,
+  ]);
 
   const totalPages = useMemo(() => Math.ceil(totalCount / rowsPerPage), [totalCount, rowsPerPage]);
 
   const paginatedData = useMemo((): T[] => {
-    if (isServerSide) return processedData;
+    if (!isPaginated) return groupedRowOrder;
     const start = page * rowsPerPage;
-    return processedData.slice(start, start + rowsPerPage);
-  }, [processedData, page, rowsPerPage, isServerSide]);
+    if (paginateByGroups) return getGroupedRowOrder(rowGroups.slice(start, start + rowsPerPage));
+    return groupedRowOrder.slice(start, start + rowsPerPage);
+  }, [isPaginated, groupedRowOrder, page, rowsPerPage, paginateByGroups, rowGroups]);
+
+  /** Group headers and rows for the current page; null when not grouped. */
+  const pageGroupedItems = useMemo((): GroupedItem<T>[] | null => {
+    if (!isGrouped) return null;
+    if (!isPaginated) return flattenGroups(rowGroups, isGroupCollapsed);
+    if (paginateByGroups) {
+      const start = page * rowsPerPage;
+      return flattenGroups(rowGroups.slice(start, start + rowsPerPage), isGroupCollapsed);
+    }
+    // Regroup just this page's rows; headers still report the whole group
+    return flattenGroups(groupRows(paginatedData, groupBy, groupRowsOptions), isGroupCollapsed, indexGroups(rowGroups));
+  }, [
+    isGrouped, isPaginated, paginateByGroups, rowGroups, isGroupCollapsed, page, rowsPerPage, paginatedData,
+    groupBy, groupRowsOptions,
+  ]);
+
+  const columnOrder = propColumnOrder ?? internalColumnOrder;
+  const columnWidths = propColumnWidths ?? internalColumnWidths;
+  const pinnedColumns = propPinnedColumns ?? internalPinnedColumns;
+
+  const orderedColumns = useMemo(
+    () => applyColumnPinning(applyColumnOrder(columns, columnOrder), pinnedColumns),
+    [columns, columnOrder, pinnedColumns]
+  );
 
   const visibleColumnsConfig = useMemo((): DataTableColumn<T>[] =>
-    columns.filter(col => visibleColumns.includes(col.id)),
-    [columns, visibleColumns]
+    orderedColumns.filter(col => visibleColumns.includes(col.id)),
+    [orderedColumns, visibleColumns]
   );
 
   // =========================================================================
   // SERVER-SIDE FETCHING
   // =========================================================================
 
-  const fetchServerData = useCallback(async () => {
+  // Page is irrelevant in cursor mode; leaving it out keeps page changes from refetching
+  const fetchPage = isCursorMode ? 0 : page;
+
+  const retryAttempts = fetchConfig?.retryAttempts ?? 0;
+  const retryDelayMs = fetchConfig?.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  const maxRetryDelayMs = fetchConfig?.maxRetryDelayMs ?? DEFAULT_MAX_RETRY_DELAY_MS;
+  const cacheEnabled = !!fetchConfig?.cache?.enabled;
+  const cacheTtlMs = fetchConfig?.cache?.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+  const cacheMaxEntries = fetchConfig?.cache?.maxEntries ?? DEFAULT_CACHE_MAX_ENTRIES;
+  // Prefetched pages have to live somewhere, so prefetching needs the cache
+  const prefetchNextPage = cacheEnabled && !!fetchConfig?.prefetchNextPage && !isCursorMode;
+
+  const fetchCache = useMemo(
+    () => createFetchCache<FetchDataResult<unknown>>(cacheTtlMs, cacheMaxEntries),
+    [cacheTtlMs, cacheMaxEntries]
+  );
+
+  /**
+   * Load the page after `params` into the cache in the background.
+   * Failures are ignored – the page is simply fetched normally when visited.
+   */
+  const prefetchPage = useCallback((params: FetchDataParams, totalCount: number | undefined) => {
     if (!onFetchData) return;
-    setServerLoading(true);
+    const nextParams = { ...params, page: params.page + 1 };
+    if (totalCount !== undefined && nextParams.page * params.rowsPerPage >= totalCount) return;
+    const key = getFetchCacheKey(nextParams);
+    if (fetchCache.has(key)) return;
+
+    prefetchControllerRef.current?.abort();
+    const controller = new AbortController();
+    prefetchControllerRef.current = controller;
+    onFetchData({ ...nextParams, signal: controller.signal })
+      .then(result => {
+        if (!controller.signal.aborted) fetchCache.set(key, result);
+      })
+      .catch(() => undefined);
+  }, [onFetchData, fetchCache]);
+
+  /**
+   * Fetch rows from onFetchData. In cursor mode `append` requests the batch
+   * after the last one received and appends it; otherwise the rows replace
+   * the current set (and the cursor restarts from the beginning).
+   *
+   * Starting a request aborts the previous one through `params.signal`, and a
+   * response that arrives after a newer request started is ignored, so a slow
+   * page 1 can never overwrite page 2. Failures are retried with exponential
+   * backoff per `fetchConfig`, then surfaced as `fetchError`.
+   *
+   * With `fetchConfig.cache` a cached response for identical parameters is
+   * used instead of calling onFetchData, unless `force` is set.
+   */
+  const fetchServerData = useCallback(async (
+    { append = false, force = false }: { append?: boolean; force?: boolean } = {}
+  ) => {
+    if (!onFetchData) return;
+
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const requestId = ++requestIdRef.current;
+    const isCurrent = () => requestId === requestIdRef.current;
+
+    lastFetchAppendRef.current = append;
+    setServerLoading(!append);
+    setServerLoadingMore(append);
+    setFetchError(null);
+
+    const params: FetchDataParams = {
+      page: fetchPage,
+      rowsPerPage,
+      sort,
+      sortModel,
+      filters,
+      search: serverSearch,
+      advancedSearch: advancedSearch.criteria.length > 0 ? advancedSearch : undefined,
+      cursor: isCursorMode ? (append ? nextCursorRef.current : null) : undefined,
+    };
+    const cacheKey = getFetchCacheKey(params);
+
+    const applyResult = (result: FetchDataResult<unknown>) => {
+      const rows = result.data as T[];
+      setServerData(prev => (append ? [...prev, ...rows] : rows));
+      setServerTotalCount(result.totalCount ?? null);
+      setServerAggregates(result.aggregates ?? null);
+      if (isCursorMode) {
+        nextCursorRef.current = result.nextCursor ?? null;
+        setHasMore(result.hasMore ?? result.nextCursor != null);
+      }
+      if (prefetchNextPage) prefetchPage(params, result.totalCount);
+    };
+
+    const cached = cacheEnabled && !force ? fetchCache.get(cacheKey) : undefined;
+    if (cached) {
+      applyResult(cached);
+      setServerLoading(false);
+      setServerLoadingMore(false);
+      return;
+    }
+
     try {
-      const params: FetchDataParams = {
-        page,
-        rowsPerPage,
-        sort,
-        filters,
-        search: serverSearch,
-        advancedSearch: advancedSearch.criteria.length > 0 ? advancedSearch : undefined,
-      };
-      const result = await onFetchData(params);
-      setServerData(result.data as T[]);
-      setServerTotalCount(result.totalCount);
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const result = await onFetchData({ ...params, signal: controller.signal });
+          if (!isCurrent()) return;
+          if (cacheEnabled) fetchCache.set(cacheKey, result);
+          applyResult(result);
+          return;
+        } catch (err) {
+          if (controller.signal.aborted || !isCurrent()) return;
+          if (attempt >= retryAttempts) throw err;
+          await waitForRetry(Math.min(retryDelayMs * 2 ** attempt, maxRetryDelayMs), controller.signal);
+        }
+      }
     } catch (err) {
+      if (controller.signal.aborted || !isCurrent()) return;
       console.error('[DataTable] Failed to fetch server data:', err);
+      setFetchError(err instanceof Error ? err : new Error(String(err)));
     } finally {
-      setServerLoading(false);
+      if (isCurrent()) {
+        setServerLoading(false);
+        setServerLoadingMore(false);
+      }
     }
-  }, [onFetchData, page, rowsPerPage, sort, filters, serverSearch, advancedSearch]);
+  }, [
+    onFetchData, fetchPage, rowsPerPage, sort, sortModel, filters, serverSearch, advancedSearch,
+    isCursorMode, retryAttempts, retryDelayMs, maxRetryDelayMs,
+    cacheEnabled, fetchCache, prefetchNextPage, prefetchPage,
+  ]);
 
   useEffect(() => {
     if (isServerSide) fetchServerData();
   }, [isServerSide, fetchServerData]);
 
+  // Abort whatever is in flight on unmount
+  useEffect(() => () => {
+    abortControllerRef.current?.abort();
+    prefetchControllerRef.current?.abort();
+  }, []);
+
+  /**
+   * Cursor mode: fetch and append the next batch if there is one. Does nothing
+   * after a failure – only `retryFetch` or a refetch clears `fetchError` – so
+   * scrolling near the end cannot re-request a failing batch in a loop.
+   */
+  const loadMore = useCallback(() => {
+    if (!isCursorMode || !hasMore || serverLoading || serverLoadingMore || fetchError) return;
+    fetchServerData({ append: true });
+  }, [isCursorMode, hasMore, serverLoading, serverLoadingMore, fetchError, fetchServerData]);
+
+  /**
+   * Re-run the current request. Served from the cache when possible unless
+   * `force` is set.
+   */
+  const refetch = useCallback(
+    ({ force = false }: { force?: boolean } = {}) => fetchServerData({ force }),
+    [fetchServerData]
+  );
+
+  /** Drop every cached onFetchData response (e.g. after a mutation). */
+  const invalidate = useCallback(() => fetchCache.clear(), [fetchCache]);
+
+  /** Repeat the request that failed (the same batch in cursor mode). */
+  const retryFetch = useCallback(
+    () => fetchServerData({ append: lastFetchAppendRef.current }),
+    [fetchServerData]
+  );
+
   // =========================================================================
   // HANDLERS
   // =========================================================================
@@ -299,31 +867,36 @@ export function useDataTable<T extends Record<string, unknown>>(props: DataTable
     }
   }, [onRowsPerPageChange]);
 
-  const handleSortChange = useCallback((column: string) => {
-    const newDir =
-      sort.column === column
-        ? sort.direction === 'asc' ? 'desc' : sort.direction === 'desc' ? null : 'asc'
-        : 'asc';
-
-    const newSort: SortState = {
-      column: newDir === null ? null : column,
-      direction: newDir,
-    };
+  /**
+   * Cycle the sort for a column. With `append` (shift-click) and
+   * `sortConfig.multiSort` enabled the column is added as a secondary key
+   * instead of replacing the current sort.
+   */
+  const handleSortChange = useCallback((column: string, append = false) => {
+    const newModel = getNextSortModel(
+      sortModel,
+      column,
+      append && !!sortConfig?.multiSort,
+      sortConfig?.maxSortColumns
+    );
+    const newSort = toSortState(newModel);
 
     if (onSortChange) onSortChange(newSort);
     else setInternalSort(newSort);
-  }, [sort, onSortChange]);
+  }, [sortModel, sortConfig?.multiSort, sortConfig?.maxSortColumns, onSortChange]);
 
   const handleFilterChange = useCallback((
     columnId: string,
     value: unknown,
-    operator = 'contains'
+    operator: FilterOperator = 'contains'
   ) => {
     const newFilters = { ...filters };
-    if (value === '' || value === null || value === undefined) {
+    if (isFilterValueEmpty(value, operator)) {
       delete newFilters[columnId];
     } else {
-      newFilters[columnId] = { value: value as FilterState[string]['value'], operator: operator as FilterState[string]['operator'] };
+      // isEmpty / isNotEmpty carry no value but are still active filters
+      const isValueless = VALUELESS_FILTER_OPERATORS.includes(operator);
+      newFilters[columnId] = { value: (isValueless ? '' : value) as FilterState[string]['value'], operator };
     }
     if (onFilterChange) onFilterChange(newFilters);
     else { setInternalFilters(newFilters); setInternalPage(0); }
@@ -375,42 +948,409 @@ export function useDataTable<T extends Record<string, unknown>>(props: DataTable
   }, [handleClientFilterChange]);
 
   // -------------------------------------------------------------------------
-  // SELECTION
+  // CELL EDITING
   // -------------------------------------------------------------------------
 
-  const getRowKey = useCallback((row: T): unknown =>
-    (row as Record<string, unknown>)[rowKeyField],
-    [rowKeyField]
+  const isCellEditable = useCallback((row: T, column: DataTableColumn<T>): boolean => {
+    if (typeof column.editable === 'function') return column.editable(row);
+    return !!column.editable;
+  }, []);
+
+  const getCellError = useCallback((row: T, columnId: string): string | undefined =>
+    cellErrors[getCellKey(String(getRowKey(row)), columnId)],
+    [cellErrors, getRowKey]
   );
 
+  const startCellEdit = useCallback((row: T, columnId: string) => {
+    // In edit mode every editable cell already shows an editor
+    if (isEditMode) return;
+    const column = columns.find(col => col.id === columnId);
+    if (!column || !isCellEditable(row, column)) return;
+    const rowKey = String(getRowKey(row));
+    setCellErrors(prev => omitKey(prev, getCellKey(rowKey, columnId)));
+    setEditingCell({ rowKey, columnId });
+  }, [isEditMode, columns, isCellEditable, getRowKey]);
+
+  const cancelCellEdit = useCallback(() => {
+    if (editingCell) {
+      setCellErrors(prev => omitKey(prev, getCellKey(editingCell.rowKey, editingCell.columnId)));
+    }
+    setEditingCell(null);
+  }, [editingCell]);
+
+  /**
+   * Validate and commit an edited value. The value is shown immediately; if
+   * onCellEditCommit rejects, the cell reverts and shows the error message.
+   * Resolves to false when validation or the commit failed.
+   */
+  const commitCellEdit = useCallback(async (row: T, columnId: string, value: unknown): Promise<boolean> => {
+    const column = columns.find(col => col.id === columnId);
+    const rowKey = String(getRowKey(row));
+    const cellKey = getCellKey(rowKey, columnId);
+
+    const validationError = column?.validate?.(value, row);
+    if (validationError) {
+      setCellErrors(prev => ({ ...prev, [cellKey]: validationError }));
+      return false;
+    }
+
+    setEditingCell(null);
+    setCellErrors(prev => omitKey(prev, cellKey));
+    const currentValue = getNestedValue(row, columnId);
+    if (isSameCellValue(currentValue, value)) return true;
+
+    const previousOverride = cellOverrides[rowKey]?.[columnId];
+    // Without onCellEditCommit the override is the only copy of the edit and never settles
+    const override: CellOverride = { value, source: sourceDataRef.current, settled: false };
+    setCellOverrides(prev => ({ ...prev, [rowKey]: { ...prev[rowKey], [columnId]: override } }));
+    if (!onCellEditCommit) return true;
+
+    try {
+      await onCellEditCommit(row, columnId, value);
+      // Cached pages still hold the old value
+      fetchCache.clear();
+      // From here the host's rows win, even if it stored a different value
+      setCellOverrides(prev => {
+        if (prev[rowKey]?.[columnId] !== override) return prev;
+        const settled = { ...prev, [rowKey]: { ...prev[rowKey], [columnId]: { ...override, settled: true } } };
+        return pruneCellOverrides(settled, sourceDataRef.current, getRowKey);
+      });
+      return true;
+    } catch (err) {
+      // Roll back unless the cell has been edited again in the meantime
+      setCellOverrides(prev => {
+        if (prev[rowKey]?.[columnId] !== override) return prev;
+        const rowOverrides = previousOverride
+          ? { ...prev[rowKey], [columnId]: previousOverride }
+          : omitKey(prev[rowKey], columnId);
+        return Object.keys(rowOverrides).length > 0
+          ? { ...prev, [rowKey]: rowOverrides }
+          : omitKey(prev, rowKey);
+      });
+      setCellErrors(prev => ({
+        ...prev,
+        [cellKey]: err instanceof Error && err.message ? err.message : locale.text.editSaveError,
+      }));
+      return false;
+    }
+  }, [columns, getRowKey, cellOverrides, onCellEditCommit, fetchCache, locale]);
+
+  // -------------------------------------------------------------------------
+  // EDIT MODE – BATCH EDITING
+  // -------------------------------------------------------------------------
+
+  const resetBatch = useCallback(() => {
+    setBatchEdits({});
+    setAddedRows([]);
+    setRemovedRows({});
+    setCellErrors({});
+    setBatchSaveError(null);
+  }, []);
+
+  const setEditMode = useCallback((active: boolean) => {
+    setEditingCell(null);
+    setCellErrors({});
+    if (onEditModeChange) onEditModeChange(active);
+    else setInternalEditMode(active);
+  }, [onEditModeChange]);
+
+  // Leaving edit mode by any route (including a controlled `editMode`) drops pending changes
+  useEffect(() => {
+    if (!isEditMode) resetBatch();
+  }, [isEditMode, resetBatch]);
+
+  const isRowAdded = useCallback((row: T): boolean => {
+    const key = getRowKey(row);
+    return addedRows.some(r => getRowKey(r) === key);
+  }, [addedRows, getRowKey]);
+
+  const isRowRemoved = useCallback((row: T): boolean =>
+    String(getRowKey(row)) in removedRows,
+    [removedRows, getRowKey]
+  );
+
+  const isRowDirty = useCallback((row: T): boolean =>
+    String(getRowKey(row)) in batchEdits,
+    [batchEdits, getRowKey]
+  );
+
+  const isCellDirty = useCallback((row: T, columnId: string): boolean =>
+    columnId in (batchEdits[String(getRowKey(row))]?.changes ?? {}),
+    [batchEdits, getRowKey]
+  );
+
+  /** The value an edit-mode editor shows: the pending change, else the cell value. */
+  const getBatchValue = useCallback((row: T, columnId: string): unknown => {
+    const changes = batchEdits[String(getRowKey(row))]?.changes;
+    return changes && columnId in changes ? changes[columnId] : getNestedValue(row, columnId);
+  }, [batchEdits, getRowKey]);
+
+  /**
+   * Record an edit-mode change. Invalid values are rejected with a cell error;
+   * a value equal to the original clears the cell's dirty state.
+   */
+  const updateBatchCell = useCallback((row: T, columnId: string, value: unknown): boolean => {
+    const column = columns.find(col => col.id === columnId);
+    const rowKey = String(getRowKey(row));
+    const cellKey = getCellKey(rowKey, columnId);
+
+    const validationError = column?.validate?.(value, row);
+    if (validationError) {
+      setCellErrors(prev => ({ ...prev, [cellKey]: validationError }));
+      return false;
+    }
+    setCellErrors(prev => omitKey(prev, cellKey));
+
+    if (isRowAdded(row)) {
+      setAddedRows(prev => prev.map(r => (String(getRowKey(r)) === rowKey ? setNestedValue(r, columnId, value) : r)));
+      return true;
+    }
+
+    setBatchEdits(prev => {
+      const entry = prev[rowKey] ?? { row, changes: {} };
+      const changes = isSameCellValue(getNestedValue(entry.row, columnId), value)
+        ? omitKey(entry.changes, columnId)
+        : { ...entry.changes, [columnId]: value };
+      return Object.keys(changes).length > 0
+        ? { ...prev, [rowKey]: { row: entry.row, changes } }
+        : omitKey(prev, rowKey);
+    });
+    return true;
+  }, [columns, getRowKey, isRowAdded]);
+
+  /** Insert a new row at the top of the table, seeded by editModeConfig.createRow. */
+  const addBatchRow = useCallback(() => {
+    const base = (editModeConfig?.createRow?.() ?? {}) as T;
+    const key = getRowKey(base);
+    const row = key === undefined || key === null || key === ''
+      ? { ...base, [rowKeyField]: `${NEW_ROW_KEY_PREFIX}${++addedRowCounterRef.current}` }
+      : base;
+    setAddedRows(prev => [row, ...prev]);
+  }, [editModeConfig, getRowKey, rowKeyField]);
+
+  /** Mark a row for removal, or restore it. Rows added in this session are dropped outright. */
+  const toggleBatchRowRemoved = useCallback((row: T) => {
+    const rowKey = String(getRowKey(row));
+    if (isRowAdded(row)) {
+      setAddedRows(prev => prev.filter(r => String(getRowKey(r)) !== rowKey));
+      return;
+    }
+    setRemovedRows(prev => (rowKey in prev ? omitKey(prev, rowKey) : { ...prev, [rowKey]: row }));
+  }, [getRowKey, isRowAdded]);
+
+  const batchChanges = useMemo((): BatchChanges<T> => ({
+    // Temporary keys are ours, not the host's
+    added: addedRows.map(row =>
+      String(getRowKey(row)).startsWith(NEW_ROW_KEY_PREFIX)
+        ? omitKey(row as Record<string, unknown>, rowKeyField) as T
+        : row
+    ),
+    updated: Object.entries(batchEdits)
+      .filter(([rowKey]) => !(rowKey in removedRows))
+      .map(([, { row, changes }]) =>
+        Object.entries(changes).reduce<T>((acc, [columnId, value]) => setNestedValue(acc, columnId, value), row)
+      ),
+    removed: Object.values(removedRows),
+  }), [addedRows, batchEdits, removedRows, getRowKey, rowKeyField]);
+
+  const dirtyCount = batchChanges.added.length + batchChanges.updated.length + batchChanges.removed.length;
+
+  /**
+   * Send every pending change to onBatchSave in one diff. On success the
+   * updated values stay visible until new source rows arrive and edit mode
+   * closes; on failure the changes are kept and `batchSaveError` is set.
+   */
+  const saveBatch = useCallback(async (): Promise<boolean> => {
+    if (!onBatchSave || dirtyCount === 0) {
+      setEditMode(false);
+      return true;
+    }
+    setBatchSaving(true);
+    setBatchSaveError(null);
+    const source = sourceDataRef.current;
+    try {
+      await onBatchSave(batchChanges);
+      fetchCache.clear();
+      // Shown until the host's rows change, whatever values it stored
+      setCellOverrides(prev => {
+        const next = { ...prev };
+        for (const [rowKey, { changes }] of Object.entries(batchEdits)) {
+          if (rowKey in removedRows) continue;
+          const saved = Object.fromEntries(
+            Object.entries(changes).map(([columnId, value]) => [columnId, { value, source, settled: true }])
+          );
+          next[rowKey] = { ...next[rowKey], ...saved };
+        }
+        return pruneCellOverrides(next, sourceDataRef.current, getRowKey);
+      });
+      resetBatch();
+      setEditMode(false);
+      return true;
+    } catch (err) {
+      setBatchSaveError(err instanceof Error && err.message ? err.message : locale.text.editModeSaveError);
+      return false;
+    } finally {
+      setBatchSaving(false);
+    }
+  }, [onBatchSave, dirtyCount, batchChanges, batchEdits, removedRows, getRowKey, resetBatch, setEditMode, fetchCache, locale]);
+
+  const discardBatch = useCallback(() => {
+    resetBatch();
+    setEditMode(false);
+  }, [resetBatch, setEditMode]);
+
+  const displayData = useMemo(
+    () => (isEditMode && addedRows.length > 0 ? [...addedRows, ...paginatedData] : paginatedData),
+    [isEditMode, addedRows, paginatedData]
+  );
+
+  // Rows added in edit mode belong to no group yet – list them above the groups
+  const groupedItems = useMemo((): GroupedItem<T>[] | null => {
+    if (!pageGroupedItems || !isEditMode || addedRows.length === 0) return pageGroupedItems;
+    return [...addedRows.map(row => ({ type: 'row' as const, row, depth: 0 })), ...pageGroupedItems];
+  }, [pageGroupedItems, isEditMode, addedRows]);
+
+  // =========================================================================
+  // AGGREGATION
+  // =========================================================================
+
+  const aggregateScope = aggregation?.scope ?? 'all';
+
+  /** Rows the totals footer summarises */
+  const aggregateRows = aggregateScope === 'page' ? paginatedData : processedData;
+
+  /** Server totals cover the whole result, so they only apply to the 'all' scope */
+  const footerAggregates = isServerSide && aggregateScope === 'all' ? serverAggregates : null;
+
+  // -------------------------------------------------------------------------
+  // SELECTION – by row key, so it survives paging, filtering and refetches
+  // -------------------------------------------------------------------------
+
+  // Without a total from the server (e.g. cursor mode) "all matching" could not be
+  // counted, so select-all then only covers the loaded rows
+  const canSelectAllMatching = isServerSide && (propTotalCount != null || serverTotalCount !== null);
+  const isAllMatchingMode = canSelectAllMatching && !!allMatchingSelection;
+
+  const excludedKeySet = useMemo(
+    () => new Set<unknown>(allMatchingSelection?.excludedKeys ?? []),
+    [allMatchingSelection]
+  );
+
+  /** The selected keys – the source of truth; a controlled `selectedRows` is read as its keys */
+  const selectedKeySet = useMemo(
+    (): ReadonlySet<unknown> => (propSelectedRows ? new Set(propSelectedRows.map(getRowKey)) : internalSelectedKeys),
+    [propSelectedRows, internalSelectedKeys, getRowKey]
+  );
+
+  /** The selected keys resolved to rows: the loaded version where there is one */
+  const selectedRows = useMemo((): T[] => {
+    if (isAllMatchingMode) return serverData.filter(row => !excludedKeySet.has(getRowKey(row)));
+    const loaded = new Map<unknown, T>();
+    for (const row of isServerSide ? serverData : propData) {
+      const key = getRowKey(row);
+      if (selectedKeySet.has(key)) loaded.set(key, row);
+    }
+    const known = propSelectedRows
+      ? new Map(propSelectedRows.map(row => [getRowKey(row), row]))
+      : selectedRowCacheRef.current;
+    return Array.from(selectedKeySet)
+      .map(key => loaded.get(key) ?? known.get(key))
+      .filter((row): row is T => row !== undefined);
+  }, [isAllMatchingMode, isServerSide, serverData, propData, excludedKeySet, selectedKeySet, propSelectedRows, getRowKey]);
+
   const isRowSelected = useCallback((row: T): boolean => {
     const key = getRowKey(row);
-    return selectedRows.some(r => (r as Record<string, unknown>)[rowKeyField] === key);
-  }, [selectedRows, rowKeyField, getRowKey]);
+    return isAllMatchingMode ? !excludedKeySet.has(key) : selectedKeySet.has(key);
+  }, [isAllMatchingMode, excludedKeySet, selectedKeySet, getRowKey]);
+
+  const commitSelection = useCallback((rows: T[]) => {
+    if (onSelectionChange) {
+      onSelectionChange(rows);
+      return;
+    }
+    selectedRowCacheRef.current = new Map(rows.map(row => [getRowKey(row), row]));
+    setInternalSelectedKeys(new Set(selectedRowCacheRef.current.keys()));
+  }, [onSelectionChange, getRowKey]);
+
+  /** All-matching mode: exclude these keys and report the loaded rows still selected */
+  const setExcludedKeys = useCallback((excludedKeys: RowKey[]) => {
+    const excluded = new Set<unknown>(excludedKeys);
+    setAllMatchingSelection({ excludedKeys });
+    commitSelection(serverData.filter(row => !excluded.has(getRowKey(row))));
+  }, [serverData, getRowKey, commitSelection]);
+
+  /** Add `rows` to the selection, or remove them, leaving other selected rows alone */
+  const mergeSelection = useCallback((rows: T[], select: boolean) => {
+    const keys = new Set(rows.map(getRowKey));
+    const others = selectedRows.filter(row => !keys.has(getRowKey(row)));
+    commitSelection(select ? [...others, ...rows] : others);
+  }, [selectedRows, getRowKey, commitSelection]);
+
+  /**
+   * Tree selection: (de)select a row with all of its descendants, then update
+   * each ancestor – selected exactly when all of its children are.
+   */
+  const getCascadedSelection = useCallback((row: T, select: boolean): T[] => {
+    const selected = new Map(selectedRows.map(r => [getTreeKey(r), r]));
+    const node = treeIndex.nodeByKey.get(getTreeKey(row));
+    const affected = node ? [node, ...getDescendantKeys(node).map(k => treeIndex.nodeByKey.get(k) as TreeNode<T>)] : [];
+    for (const target of affected) {
+      if (select) selected.set(target.key, target.row);
+      else selected.delete(target.key);
+    }
+
+    let parentKey = node ? treeIndex.parentByKey.get(node.key) : null;
+    while (parentKey) {
+      const parent = treeIndex.nodeByKey.get(parentKey) as TreeNode<T>;
+      if (parent.children.every(child => selected.has(child.key))) selected.set(parent.key, parent.row);
+      else selected.delete(parent.key);
+      parentKey = treeIndex.parentByKey.get(parentKey);
+    }
+    return Array.from(selected.values());
+  }, [selectedRows, getTreeKey, treeIndex]);
+
+  /** Tree selection: not selected, but some of its descendants are */
+  const isRowIndeterminate = useCallback((row: T): boolean => {
+    if (!cascadeSelection || isRowSelected(row)) return false;
+    const node = treeIndex.nodeByKey.get(getTreeKey(row));
+    if (!node) return false;
+    const selectedKeys = new Set(selectedRows.map(getTreeKey));
+    return getDescendantKeys(node).some(key => selectedKeys.has(key));
+  }, [cascadeSelection, isRowSelected, treeIndex, getTreeKey, selectedRows]);
 
   const handleSelectionChange = useCallback((row: T) => {
     const key = getRowKey(row);
-    const alreadySelected = selectedRows.some(r => (r as Record<string, unknown>)[rowKeyField] === key);
+    const alreadySelected = isRowSelected(row);
+
+    if (isAllMatchingMode && selectionConfig?.mode !== 'single') {
+      const excludedKeys = allMatchingSelection?.excludedKeys ?? [];
+      setExcludedKeys(alreadySelected ? [...excludedKeys, key as RowKey] : excludedKeys.filter(k => k !== key));
+      return;
+    }
 
     let newSelection: T[];
     if (selectionConfig?.mode === 'single') {
+      setAllMatchingSelection(null);
       newSelection = alreadySelected ? [] : [row];
+    } else if (cascadeSelection && treeIndex.nodeByKey.has(getTreeKey(row))) {
+      newSelection = getCascadedSelection(row, !alreadySelected);
     } else {
       newSelection = alreadySelected
-        ? selectedRows.filter(r => (r as Record<string, unknown>)[rowKeyField] !== key)
+        ? selectedRows.filter(r => getRowKey(r) !== key)
         : [...selectedRows, row];
     }
-
-    if (onSelectionChange) onSelectionChange(newSelection);
-    else setInternalSelectedRows(newSelection);
-  }, [selectedRows, rowKeyField, selectionConfig, onSelectionChange, getRowKey]);
+    commitSelection(newSelection);
+  }, [
+    selectedRows, selectionConfig, getRowKey, isRowSelected, isAllMatchingMode, allMatchingSelection,
+    setExcludedKeys, cascadeSelection, treeIndex, getTreeKey, getCascadedSelection, commitSelection,
+  ]);
 
   const handleDoubleClickSelection = useCallback((row: T) => {
     if (selectionConfig?.doubleClickSelectsOnly !== false) {
-      if (onSelectionChange) onSelectionChange([row]);
-      else setInternalSelectedRows([row]);
+      setAllMatchingSelection(null);
+      commitSelection([row]);
     }
-  }, [selectionConfig, onSelectionChange]);
+  }, [selectionConfig, commitSelection]);
 
   /**
    * Determines which set of rows the "select all" checkbox covers.
@@ -422,11 +1362,86 @@ export function useDataTable<T extends Record<string, unknown>>(props: DataTable
     [selectionConfig?.selectAllScope, processedData, paginatedData]
   );
 
+  /** Replace the whole selection, e.g. with the rows a bulk action failed on. */
+  const setSelection = useCallback((rows: T[]) => {
+    setAllMatchingSelection(null);
+    commitSelection(rows);
+  }, [commitSelection]);
+
+  const clearSelection = useCallback(() => setSelection([]), [setSelection]);
+
+  /**
+   * Select every row matching the current filters and search. On the server
+   * this includes rows that were never loaded; deselecting one excludes it.
+   */
+  const selectAllMatching = useCallback(() => {
+    if (canSelectAllMatching) setExcludedKeys([]);
+    else mergeSelection(processedData, true);
+  }, [canSelectAllMatching, setExcludedKeys, mergeSelection, processedData]);
+
+  /** (De)select several rows at once, in either selection mode */
+  const setRowsSelected = useCallback((rows: T[], select: boolean) => {
+    if (!isAllMatchingMode) {
+      mergeSelection(rows, select);
+      return;
+    }
+    const keys = new Set(rows.map(getRowKey));
+    const excludedKeys = (allMatchingSelection?.excludedKeys ?? []).filter(key => !keys.has(key));
+    setExcludedKeys(select ? excludedKeys : [...excludedKeys, ...rows.map(row => getRowKey(row) as RowKey)]);
+  }, [isAllMatchingMode, mergeSelection, getRowKey, allMatchingSelection, setExcludedKeys]);
+
   const handleSelectAll = useCallback((checked: boolean) => {
-    const newSelection = checked ? selectAllScope : [];
-    if (onSelectionChange) onSelectionChange(newSelection);
-    else setInternalSelectedRows(newSelection);
-  }, [selectAllScope, onSelectionChange]);
+    if (canSelectAllMatching && selectionConfig?.selectAllScope === 'all') {
+      if (checked) selectAllMatching();
+      else clearSelection();
+    } else if (isAllMatchingMode && !checked) {
+      // Unchecking the header leaves "all matching" entirely
+      clearSelection();
+    } else {
+      setRowsSelected(selectAllScope, checked);
+    }
+  }, [
+    canSelectAllMatching, selectionConfig?.selectAllScope, selectAllMatching, clearSelection, isAllMatchingMode,
+    setRowsSelected, selectAllScope,
+  ]);
+
+  // Key of the row the last plain or Ctrl / Cmd click landed on; Shift-click ranges start here
+  const selectionAnchorRef = useRef<unknown>(null);
+
+  /**
+   * Row click with modifier keys. Shift selects the range from the anchor
+   * within the select-all scope, Ctrl / Cmd toggles the row, and a plain click
+   * toggles it or, with `clickBehavior: 'replace'`, selects only this row.
+   */
+  const handleRowSelectionClick = useCallback((
+    row: T,
+    { shiftKey = false, toggleKey = false }: { shiftKey?: boolean; toggleKey?: boolean } = {}
+  ) => {
+    if (selectionConfig?.mode === 'single') {
+      handleSelectionChange(row);
+      return;
+    }
+    const replace = selectionConfig?.clickBehavior === 'replace' && !toggleKey;
+
+    if (shiftKey && selectionAnchorRef.current !== null) {
+      const anchorIndex = selectAllScope.findIndex(r => getRowKey(r) === selectionAnchorRef.current);
+      const targetIndex = selectAllScope.findIndex(r => getRowKey(r) === getRowKey(row));
+      if (anchorIndex !== -1 && targetIndex !== -1) {
+        const range = selectAllScope.slice(Math.min(anchorIndex, targetIndex), Math.max(anchorIndex, targetIndex) + 1);
+        // The range takes the anchor's state, as in most mail clients
+        if (replace) setSelection(range);
+        else setRowsSelected(range, isRowSelected(selectAllScope[anchorIndex]));
+        return;
+      }
+    }
+
+    selectionAnchorRef.current = getRowKey(row);
+    if (replace) setSelection([row]);
+    else handleSelectionChange(row);
+  }, [
+    selectionConfig?.mode, selectionConfig?.clickBehavior, handleSelectionChange, selectAllScope, getRowKey,
+    setSelection, setRowsSelected, isRowSelected,
+  ]);
 
   const isAllSelected = useMemo(() => {
     if (selectAllScope.length === 0) return false;
@@ -439,8 +1454,56 @@ export function useDataTable<T extends Record<string, unknown>>(props: DataTable
     return count > 0 && count < selectAllScope.length;
   }, [selectAllScope, isRowSelected]);
 
+  /** Rows matching the current filters and search, loaded or not */
+  const matchingRowCount = isServerSide ? totalCount : processedData.length;
+
+  const selectedCount = isAllMatchingMode
+    ? Math.max(0, totalCount - (allMatchingSelection?.excludedKeys.length ?? 0))
+    : selectedKeySet.size;
+
+  /** Every matching row is selected */
+  const isAllMatchingSelected = useMemo(
+    () => isAllMatchingMode
+      || (!canSelectAllMatching && processedData.length > 0 && processedData.every(isRowSelected)),
+    [isAllMatchingMode, canSelectAllMatching, processedData, isRowSelected]
+  );
+
+  // A new query matches other rows, so "all matching" ends with the old one
+  const selectionQueryKey = JSON.stringify([filters, clientFilterTerm, serverSearch, advancedSearch]);
+  const selectionQueryRef = useRef(selectionQueryKey);
+
+  useEffect(() => {
+    if (selectionQueryRef.current === selectionQueryKey) return;
+    selectionQueryRef.current = selectionQueryKey;
+    if (allMatchingSelection) clearSelection();
+  }, [selectionQueryKey, allMatchingSelection, clearSelection]);
+
+  const selectionModel = useMemo((): SelectionModel => ({
+    allMatching: isAllMatchingMode,
+    selectedKeys: isAllMatchingMode ? [] : Array.from(selectedKeySet) as RowKey[],
+    excludedKeys: isAllMatchingMode ? allMatchingSelection?.excludedKeys ?? [] : [],
+    filters,
+    search: serverSearch,
+    advancedSearch,
+    count: selectedCount,
+  }), [
+    isAllMatchingMode, selectedKeySet, allMatchingSelection, filters, serverSearch, advancedSearch, selectedCount,
+  ]);
+
+  // Report the model when the selection itself changes, not on every new query
+  const selectionModelKey = JSON.stringify([
+    selectionModel.allMatching, selectionModel.selectedKeys, selectionModel.excludedKeys, selectionModel.count,
+  ]);
+  const reportedSelectionModelRef = useRef(selectionModelKey);
+
+  useEffect(() => {
+    if (reportedSelectionModelRef.current === selectionModelKey) return;
+    reportedSelectionModelRef.current = selectionModelKey;
+    onSelectionModelChange?.(selectionModel);
+  }, [selectionModelKey, selectionModel, onSelectionModelChange]);
+
   // -------------------------------------------------------------------------
-  // COLUMN VISIBILITY & DENSITY
+  // COLUMN VISIBILITY, ORDER & DENSITY
   // -------------------------------------------------------------------------
 
   const handleColumnVisibilityChange = useCallback((columnId: string, visible: boolean) => {
@@ -449,21 +1512,165 @@ export function useDataTable<T extends Record<string, unknown>>(props: DataTable
     );
   }, []);
 
+  const handleColumnOrderChange = useCallback((newOrder: string[]) => {
+    if (onColumnOrderChange) onColumnOrderChange(newOrder);
+    else setInternalColumnOrder(newOrder);
+  }, [onColumnOrderChange]);
+
+  /** Move a column to `toIndex` in the full (hidden columns included) column order. */
+  const moveColumn = useCallback((columnId: string, toIndex: number) => {
+    const ids = orderedColumns.map(col => col.id);
+    const fromIndex = ids.indexOf(columnId);
+    if (fromIndex === -1) return;
+    const target = Math.max(0, Math.min(toIndex, ids.length - 1));
+    if (target === fromIndex) return;
+    ids.splice(fromIndex, 1);
+    ids.splice(target, 0, columnId);
+    handleColumnOrderChange(ids);
+  }, [orderedColumns, handleColumnOrderChange]);
+
+  const handleColumnWidthsChange = useCallback((newWidths: Record<string, number>) => {
+    if (onColumnWidthsChange) onColumnWidthsChange(newWidths);
+    else setInternalColumnWidths(newWidths);
+  }, [onColumnWidthsChange]);
+
+  const setColumnWidth = useCallback((columnId: string, width: number) => {
+    handleColumnWidthsChange({ ...columnWidths, [columnId]: width });
+  }, [columnWidths, handleColumnWidthsChange]);
+
+  const handlePinnedColumnsChange = useCallback((newPinned: PinnedColumns) => {
+    if (onPinnedColumnsChange) onPinnedColumnsChange(newPinned);
+    else setInternalPinnedColumns(newPinned);
+  }, [onPinnedColumnsChange]);
+
+  const getColumnPin = useCallback((columnId: string): 'left' | 'right' | null => {
+    if (pinnedColumns.left.includes(columnId)) return 'left';
+    if (pinnedColumns.right.includes(columnId)) return 'right';
+    return null;
+  }, [pinnedColumns]);
+
+  /** Pin a column to an edge, or unpin it with `null`. */
+  const pinColumn = useCallback((columnId: string, side: 'left' | 'right' | null) => {
+    const left = pinnedColumns.left.filter(id => id !== columnId);
+    const right = pinnedColumns.right.filter(id => id !== columnId);
+    if (side === 'left') left.push(columnId);
+    if (side === 'right') right.push(columnId);
+    handlePinnedColumnsChange({ left, right });
+  }, [pinnedColumns, handlePinnedColumnsChange]);
+
   const handleDensityChange = useCallback((newDensity: 'compact' | 'normal' | 'comfortable') => {
     setDensity(newDensity);
   }, []);
 
+  // =========================================================================
+  // PERSISTENCE
+  // =========================================================================
+
+  const persistedState = useMemo((): PersistedTableState => ({
+    page,
+    rowsPerPage,
+    sortModel,
+    filters,
+    clientFilterTerm,
+    hiddenColumns: columns.filter(col => !visibleColumns.includes(col.id)).map(col => col.id),
+    density,
+    columnOrder,
+    columnWidths,
+    pinnedColumns,
+  }), [
+    page, rowsPerPage, sortModel, filters, clientFilterTerm, columns, visibleColumns, density,
+    columnOrder, columnWidths, pinnedColumns,
+  ]);
+
+  /** Apply restored state to the uncontrolled parts; controlled props keep their values */
+  const restorePersistedState = useCallback((saved: PersistedTableState) => {
+    if (saved.page !== undefined) setInternalPage(saved.page);
+    if (saved.rowsPerPage !== undefined) setInternalRowsPerPage(saved.rowsPerPage);
+    if (saved.sortModel) setInternalSort(toSortState(saved.sortModel));
+    if (saved.filters) setInternalFilters(saved.filters);
+    if (saved.clientFilterTerm !== undefined) setInternalClientFilterTerm(saved.clientFilterTerm);
+    if (saved.hiddenColumns) {
+      const hidden = new Set(saved.hiddenColumns);
+      setVisibleColumns(columns.filter(col => !hidden.has(col.id)).map(col => col.id));
+    }
+    if (saved.density) setDensity(saved.density);
+    if (saved.columnOrder) setInternalColumnOrder(saved.columnOrder);
+    if (saved.columnWidths) setInternalColumnWidths(saved.columnWidths);
+    if (saved.pinnedColumns) setInternalPinnedColumns(saved.pinnedColumns);
+  }, [columns]);
+
+  useTablePersistence({
+    config: persistence,
+    columns,
+    state: persistedState,
+    restore: restorePersistedState,
+  });
+
+  // =========================================================================
+  // SAVED VIEWS – capture / apply the state a view stores
+  // =========================================================================
+
+  const viewState = useMemo((): SavedViewState => ({
+    sort: toSortState(sortModel),
+    filters,
+    clientFilterTerm,
+    advancedSearch,
+    visibleColumns: columns.filter(col => visibleColumns.includes(col.id)).map(col => col.id),
+    density,
+    rowsPerPage,
+    columnOrder: orderedColumns.map(col => col.id),
+    columnWidths,
+    pinnedColumns,
+  }), [
+    sortModel, filters, clientFilterTerm, advancedSearch, columns, visibleColumns, density, rowsPerPage,
+    orderedColumns, columnWidths, pinnedColumns,
+  ]);
+
+  /**
+   * Apply a saved view. Each part goes through its usual controlled /
+   * uncontrolled path, so `onSortChange`, `onFilterChange` etc. fire as if
+   * the user had made the change; the table returns to the first page.
+   */
+  const applyViewState = useCallback((view: SavedViewState) => {
+    const columnIds = new Set(columns.map(col => col.id));
+    const newSort = toSortState(getSortModel(view.sort).filter(item => columnIds.has(item.column)));
+    if (onSortChange) onSortChange(newSort);
+    else setInternalSort(newSort);
+    if (onFilterChange) onFilterChange(view.filters);
+    else setInternalFilters(view.filters);
+    handleClientFilterChange(view.clientFilterTerm);
+    handleAdvancedSearch(view.advancedSearch);
+    setVisibleColumns(view.visibleColumns.filter(id => columnIds.has(id)));
+    setDensity(view.density);
+    if (view.rowsPerPage && view.rowsPerPage !== rowsPerPage) handleRowsPerPageChange(view.rowsPerPage);
+    if (view.columnOrder) handleColumnOrderChange(view.columnOrder);
+    if (view.columnWidths) handleColumnWidthsChange(view.columnWidths);
+    if (view.pinnedColumns) handlePinnedColumnsChange(view.pinnedColumns);
+    handlePageChange(0);
+  }, [
+    columns, onSortChange, onFilterChange, handleClientFilterChange, handleAdvancedSearch, rowsPerPage,
+    handleRowsPerPageChange, handleColumnOrderChange, handleColumnWidthsChange, handlePinnedColumnsChange,
+    handlePageChange,
+  ]);
+
   // =========================================================================
   // RETURN
   // =========================================================================
 
   return {
+    // Locale – `locale` with `localeText` applied
+    locale,
+
     // Data
-    data: paginatedData,
+    data: displayData,
+    groupedItems,
     allProcessedData: processedData,
+    aggregateRows,
+    serverAggregates: footerAggregates,
     totalCount,
     totalPages,
     loading: !!props.loading || serverLoading,
+    loadingMore: serverLoadingMore,
 
     // Pagination
     page,
@@ -472,6 +1679,7 @@ export function useDataTable<T extends Record<string, unknown>>(props: DataTable
 
     // Sort
     sort,
+    sortModel,
 
     // Column filters
     filters,
@@ -493,14 +1701,23 @@ export function useDataTable<T extends Record<string, unknown>>(props: DataTable
 
     // Selection
     selectedRows,
+    selectedCount,
+    selectionModel,
+    matchingRowCount,
     isRowSelected,
+    isRowIndeterminate,
     isAllSelected,
     isIndeterminate,
+    isAllMatchingSelected,
 
     // Columns
     columns: visibleColumnsConfig,
-    allColumns: columns,
+    allColumns: orderedColumns,
     visibleColumns,
+    columnOrder: orderedColumns.map(col => col.id),
+    columnWidths,
+    pinnedColumns,
+    getColumnPin,
 
     // UI
     density,
@@ -518,11 +1735,74 @@ export function useDataTable<T extends Record<string, unknown>>(props: DataTable
     handleClearAdvancedSearch,
     handleSearchChange,
     handleSelectionChange,
+    handleRowSelectionClick,
     handleDoubleClickSelection,
     handleSelectAll,
+    setSelection,
+    selectAllMatching,
+    clearSelection,
     handleColumnVisibilityChange,
+    handleColumnOrderChange,
+    moveColumn,
+    handleColumnWidthsChange,
+    setColumnWidth,
+    handlePinnedColumnsChange,
+    pinColumn,
     handleDensityChange,
-    refetch: fetchServerData,
+    refetch,
+    invalidate,
+
+    // Saved views
+    viewState,
+    applyViewState,
+
+    // Cell editing
+    editingCell,
+    isCellEditable,
+    getCellError,
+    startCellEdit,
+    cancelCellEdit,
+    commitCellEdit,
+
+    // Tree data
+    isTreeData,
+    getTreeRowInfo,
+    toggleTreeRowExpanded,
+    reloadTreeChildren,
+
+    // Grouping
+    groupBy,
+    paginateByGroups,
+    isGroupCollapsed,
+    toggleGroupCollapsed,
+    handleGroupByChange,
+    toggleGroupByColumn,
+
+    // Edit mode
+    isEditMode,
+    setEditMode,
+    batchChanges,
+    dirtyCount,
+    hasCellErrors: Object.keys(cellErrors).length > 0,
+    batchSaving,
+    batchSaveError,
+    isRowAdded,
+    isRowRemoved,
+    isRowDirty,
+    isCellDirty,
+    getBatchValue,
+    updateBatchCell,
+    addBatchRow,
+    toggleBatchRowRemoved,
+    saveBatch,
+    discardBatch,
+    fetchError,
+    retryFetch,
+
+    // Cursor pagination
+    isCursorMode,
+    hasMore,
+    loadMore,
   };
 }
 
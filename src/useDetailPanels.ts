@@ -0,0 +1,129 @@
+/**
+ * Next Nice DataTable - Detail Panel Hook
+ * Tracks which rows have their detail panel expanded (controlled or
+ * uncontrolled, single or multiple) and lazily loads panel data the first
+ * time a row is expanded.
+ *
+ * Loaded data is cached by row key, so collapsing and re-expanding a row –
+ * or scrolling it out of a virtualized viewport – does not load it again.
+ *
+ * @author Stellarx Team
+ * @version 2.1.0
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { RowKey } from './types';
+
+export interface UseDetailPanelsOptions<T> {
+  /** Rows currently rendered; expanded rows among them get their data loaded */
+  rows: T[];
+  getRowKey: (row: T) => RowKey;
+  /** 'single' keeps at most one panel open (default: 'multiple') */
+  mode?: 'single' | 'multiple';
+  /** Controlled list of expanded row keys */
+  expandedRowKeys?: RowKey[];
+  defaultExpandedRowKeys?: RowKey[];
+  onExpandedRowKeysChange?: (keys: RowKey[]) => void;
+  /** Async loader for panel data; omit when the panel renders from the row alone */
+  loadDetailPanel?: (row: T) => Promise<unknown>;
+  /** Shown when a loader rejects without a message (default: 'Could not load details.') */
+  loadErrorMessage?: string;
+}
+
+export interface DetailPanelState {
+  status: 'loading' | 'loaded' | 'error';
+  data?: unknown;
+  error?: string;
+}
+
+export interface DetailPanelsResult<T> {
+  isRowExpanded: (row: T) => boolean;
+  toggleRowExpanded: (row: T) => void;
+  /** Load state of a row's panel; undefined when nothing has to be loaded */
+  getDetailState: (row: T) => DetailPanelState | undefined;
+  /** Load a row's panel data again (e.g. after an error) */
+  reloadDetail: (row: T) => void;
+}
+
+export function useDetailPanels<T>({
+  rows,
+  getRowKey,
+  mode = 'multiple',
+  expandedRowKeys: propExpandedRowKeys,
+  defaultExpandedRowKeys = [],
+  onExpandedRowKeysChange,
+  loadDetailPanel,
+  loadErrorMessage = 'Could not load details.',
+}: UseDetailPanelsOptions<T>): DetailPanelsResult<T> {
+  const [internalExpandedRowKeys, setInternalExpandedRowKeys] = useState<RowKey[]>(defaultExpandedRowKeys);
+  const [detailStates, setDetailStates] = useState<Record<string, DetailPanelState>>({});
+  // Keys with a request in flight; a ref so the load effect never starts one twice
+  const loadingKeysRef = useRef<Set<string>>(new Set());
+  const mountedRef = useRef(true);
+
+  const expandedRowKeys = propExpandedRowKeys ?? internalExpandedRowKeys;
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => { mountedRef.current = false; };
+  }, []);
+
+  const isRowExpanded = useCallback((row: T): boolean => {
+    const key = String(getRowKey(row));
+    return expandedRowKeys.some(k => String(k) === key);
+  }, [expandedRowKeys, getRowKey]);
+
+  const toggleRowExpanded = useCallback((row: T) => {
+    const rowKey = getRowKey(row);
+    const isExpanded = expandedRowKeys.some(k => String(k) === String(rowKey));
+    const next = isExpanded
+      ? expandedRowKeys.filter(k => String(k) !== String(rowKey))
+      : mode === 'single' ? [rowKey] : [...expandedRowKeys, rowKey];
+
+    if (onExpandedRowKeysChange) onExpandedRowKeysChange(next);
+    else setInternalExpandedRowKeys(next);
+  }, [expandedRowKeys, getRowKey, mode, onExpandedRowKeysChange]);
+
+  const loadDetail = useCallback(async (row: T) => {
+    if (!loadDetailPanel) return;
+    const key = String(getRowKey(row));
+    loadingKeysRef.current.add(key);
+    setDetailStates(prev => ({ ...prev, [key]: { status: 'loading' } }));
+    try {
+      const data = await loadDetailPanel(row);
+      if (mountedRef.current) setDetailStates(prev => ({ ...prev, [key]: { status: 'loaded', data } }));
+    } catch (err) {
+      if (mountedRef.current) {
+        setDetailStates(prev => ({
+          ...prev,
+          [key]: { status: 'error', error: err instanceof Error && err.message ? err.message : loadErrorMessage },
+        }));
+      }
+    } finally {
+      loadingKeysRef.current.delete(key);
+    }
+  }, [loadDetailPanel, getRowKey, loadErrorMessage]);
+
+  // Load panels on first expansion – also covers keys expanded from outside
+  useEffect(() => {
+    if (!loadDetailPanel) return;
+    for (const row of rows) {
+      const key = String(getRowKey(row));
+      if (detailStates[key] || loadingKeysRef.current.has(key) || !isRowExpanded(row)) continue;
+      loadDetail(row);
+    }
+  }, [rows, loadDetailPanel, detailStates, getRowKey, isRowExpanded, loadDetail]);
+
+  const getDetailState = useCallback((row: T): DetailPanelState | undefined =>
+    loadDetailPanel ? detailStates[String(getRowKey(row))] ?? { status: 'loading' } : undefined,
+    [loadDetailPanel, detailStates, getRowKey]
+  );
+
+  const reloadDetail = useCallback((row: T) => {
+    if (!loadingKeysRef.current.has(String(getRowKey(row)))) loadDetail(row);
+  }, [getRowKey, loadDetail]);
+
+  return { isRowExpanded, toggleRowExpanded, getDetailState, reloadDetail };
+}
+
+export default useDetailPanels;
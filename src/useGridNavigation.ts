@@ -0,0 +1,232 @@
+/**
+ * Next Nice DataTable - Grid Navigation Hook
+ * Keyboard navigation following the WAI-ARIA grid pattern: one cell of the
+ * table is in the tab order (roving tabindex) and the arrow keys, Home / End
+ * and PageUp / PageDown move focus between cells.
+ *
+ * Rows are numbered in grid order – the header rows (column headers, then the
+ * filter row when shown) come first, and body row `i` is `i + headerRowCount`
+ * – and cells by their index within the row. Rows carry their number
+ * in `data-grid-row`, so focus can be moved through the DOM.
+ *
+ * Widgets inside cells (buttons, checkboxes, inputs, …) stay out of the tab
+ * order. F2 – or Enter, when the cell has no action of its own – moves focus
+ * into the cell, Tab / Shift+Tab move between its widgets and Escape returns
+ * to the cell.
+ *
+ * @author Stellarx Team
+ * @version 2.1.0
+ */
+
+import React, { useState, useCallback, useEffect, useRef, RefObject } from 'react';
+
+export interface GridPosition {
+  row: number;
+  col: number;
+}
+
+export interface UseGridNavigationOptions {
+  /** Header rows plus body rows */
+  rowCount: number;
+  /** Rows above the body: the column headers, and the filter row when shown (default: 1) */
+  headerRowCount?: number;
+  /** Cells in a full row */
+  colCount: number;
+  /** The scrolling element around the table */
+  containerRef: RefObject<HTMLElement>;
+  /** Grid rows currently mounted (end exclusive) – rows outside are virtualized away */
+  renderedRows?: { start: number; end: number };
+  /** Bring a body row that is not mounted into view */
+  scrollToBodyRow?: (bodyIndex: number) => void;
+  /**
+   * Enter or Space on a focused cell. Return true when the key was handled;
+   * Space otherwise falls through to the browser.
+   */
+  onCellAction?: (position: GridPosition, event: React.KeyboardEvent<HTMLElement>) => boolean;
+}
+
+export interface GridNavigationResult {
+  focusedCell: GridPosition;
+  /** 0 for the cell in the tab order, -1 for the rest; widgets inside cells always take -1 */
+  getCellTabIndex: (row: number, col: number) => 0 | -1;
+  /** Props for the table element */
+  gridProps: {
+    onKeyDown: (e: React.KeyboardEvent<HTMLElement>) => void;
+    onFocus: (e: React.FocusEvent<HTMLElement>) => void;
+  };
+}
+
+/** Focusable widgets inside a cell, in DOM order */
+const CELL_WIDGET_SELECTOR = [
+  'button:not(:disabled)',
+  'input:not(:disabled):not([aria-hidden="true"])',
+  'select:not(:disabled)',
+  'textarea:not(:disabled)',
+  '[role="button"]',
+  '[role="combobox"]',
+  '[role="separator"][tabindex]',
+].join(', ');
+
+function getCellWidgets(cell: HTMLElement): HTMLElement[] {
+  return Array.from(cell.querySelectorAll<HTMLElement>(CELL_WIDGET_SELECTOR));
+}
+
+/** The grid cell around a widget, for key events that start inside a cell. */
+function getWidgetCell(target: EventTarget): HTMLTableCellElement | null {
+  const cell = (target as HTMLElement).closest?.<HTMLTableCellElement>('td, th');
+  return cell && cell !== target && cell.parentElement?.hasAttribute('data-grid-row') ? cell : null;
+}
+
+/** The cell a key or focus event belongs to, when the event target is the cell itself. */
+function getEventCell(target: EventTarget): { cell: HTMLTableCellElement; row: number } | null {
+  const cell = target as HTMLElement;
+  if (cell.tagName !== 'TD' && cell.tagName !== 'TH') return null;
+  const row = cell.parentElement?.getAttribute('data-grid-row');
+  return row === null || row === undefined ? null : { cell: cell as HTMLTableCellElement, row: Number(row) };
+}
+
+export function useGridNavigation({
+  rowCount,
+  headerRowCount = 1,
+  colCount,
+  containerRef,
+  renderedRows,
+  scrollToBodyRow,
+  onCellAction,
+}: UseGridNavigationOptions): GridNavigationResult {
+  const [focusedCell, setFocusedCell] = useState<GridPosition>({ row: 0, col: 0 });
+  // A cell to focus once its row has been rendered (virtualized rows)
+  const pendingFocusRef = useRef<GridPosition | null>(null);
+
+  /** Focus a cell if its row is mounted; returns false otherwise */
+  const focusCell = useCallback(({ row, col }: GridPosition): boolean => {
+    const rowEl = containerRef.current?.querySelector<HTMLTableRowElement>(`tr[data-grid-row="${row}"]`);
+    if (!rowEl || rowEl.cells.length === 0) return false;
+    const cell = rowEl.cells[Math.min(col, rowEl.cells.length - 1)];
+    cell.focus({ preventScroll: true });
+    cell.scrollIntoView?.({ block: 'nearest', inline: 'nearest' });
+    return true;
+  }, [containerRef]);
+
+  useEffect(() => {
+    if (pendingFocusRef.current && focusCell(pendingFocusRef.current)) pendingFocusRef.current = null;
+  });
+
+  const moveTo = useCallback((position: GridPosition) => {
+    const target = {
+      row: Math.max(0, Math.min(rowCount - 1, position.row)),
+      col: Math.max(0, Math.min(colCount - 1, position.col)),
+    };
+    setFocusedCell(target);
+    if (!focusCell(target)) {
+      pendingFocusRef.current = target;
+      if (target.row >= headerRowCount) scrollToBodyRow?.(target.row - headerRowCount);
+    }
+  }, [rowCount, headerRowCount, colCount, focusCell, scrollToBodyRow]);
+
+  /** Body rows that fit in the scroll viewport, for PageUp / PageDown */
+  const getPageSize = useCallback((cell: HTMLElement) => {
+    const viewport = containerRef.current?.clientHeight ?? 0;
+    const rowHeight = cell.getBoundingClientRect().height || 1;
+    return Math.max(1, Math.floor(viewport / rowHeight) - 1);
+  }, [containerRef]);
+
+  const onKeyDown = useCallback((e: React.KeyboardEvent<HTMLElement>) => {
+    if (e.defaultPrevented) return;
+    const current = getEventCell(e.target);
+    if (!current) {
+      // Other keys inside a cell's widgets (editors, buttons, …) belong to the widget
+      const widgetCell = getWidgetCell(e.target);
+      if (!widgetCell) return;
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        widgetCell.focus();
+      } else if (e.key === 'Tab') {
+        const widgets = getCellWidgets(widgetCell);
+        const next = widgets[widgets.indexOf(e.target as HTMLElement) + (e.shiftKey ? -1 : 1)];
+        if (next) {
+          e.preventDefault();
+          next.focus();
+        }
+      }
+      return;
+    }
+    const { row } = current;
+    const col = current.cell.cellIndex;
+    const ctrl = e.ctrlKey || e.metaKey;
+    // Right-to-left layouts mirror the horizontal arrows
+    const rtl = window.getComputedStyle(current.cell).direction === 'rtl';
+
+    let target: GridPosition | null = null;
+    switch (e.key) {
+      case 'ArrowRight': target = { row, col: col + (rtl ? -1 : 1) }; break;
+      case 'ArrowLeft': target = { row, col: col + (rtl ? 1 : -1) }; break;
+      case 'ArrowDown': target = { row: row + 1, col }; break;
+      case 'ArrowUp': target = { row: row - 1, col }; break;
+      case 'Home': target = ctrl ? { row: 0, col: 0 } : { row, col: 0 }; break;
+      case 'End': target = ctrl ? { row: rowCount - 1, col: colCount - 1 } : { row, col: colCount - 1 }; break;
+      case 'PageDown': target = { row: row + getPageSize(current.cell), col }; break;
+      // Stop at the first body row rather than jumping into the header
+      case 'PageUp': {
+        const firstRow = row > headerRowCount ? headerRowCount : 0;
+        target = { row: Math.max(firstRow, row - getPageSize(current.cell)), col };
+        break;
+      }
+      case 'F2': {
+        const [widget] = getCellWidgets(current.cell);
+        if (widget) {
+          e.preventDefault();
+          widget.focus();
+        }
+        return;
+      }
+      case 'Enter':
+      case ' ': {
+        if (onCellAction?.({ row, col }, e)) {
+          e.preventDefault();
+          return;
+        }
+        const [widget] = e.key === 'Enter' ? getCellWidgets(current.cell) : [];
+        if (widget) {
+          e.preventDefault();
+          widget.focus();
+        }
+        return;
+      }
+      default:
+        return;
+    }
+    e.preventDefault();
+    moveTo(target);
+  }, [rowCount, headerRowCount, colCount, getPageSize, moveTo, onCellAction]);
+
+  // Clicks and programmatic focus move the tab stop too
+  const onFocus = useCallback((e: React.FocusEvent<HTMLElement>) => {
+    const current = getEventCell(e.target);
+    if (!current) return;
+    const { row } = current;
+    const col = current.cell.cellIndex;
+    setFocusedCell(prev => (prev.row === row && prev.col === col ? prev : { row, col }));
+  }, []);
+
+  // Keep the tab stop on a mounted cell: rows can disappear (filtering) or be
+  // virtualized away, and the grid must stay reachable with Tab
+  const stopRow = Math.min(focusedCell.row, rowCount - 1);
+  const tabStop: GridPosition = renderedRows && stopRow >= headerRowCount
+    && (stopRow < renderedRows.start || stopRow >= renderedRows.end)
+    ? { row: 0, col: focusedCell.col }
+    : { row: stopRow, col: Math.min(focusedCell.col, colCount - 1) };
+
+  const getCellTabIndex = useCallback(
+    (row: number, col: number): 0 | -1 => (row === tabStop.row && col === tabStop.col ? 0 : -1),
+    [tabStop.row, tabStop.col]
+  );
+
+  return {
+    focusedCell,
+    getCellTabIndex,
+    gridProps: { onKeyDown, onFocus },
+  };
+}
+
+export default useGridNavigation;
@@ -0,0 +1,218 @@
+/**
+ * Next Nice DataTable - Saved Views Hook
+ * Loads named presets of the table state through a storage adapter and
+ * applies, creates, updates, renames and deletes them.
+ *
+ * Changes are shown straight away and then saved; if the adapter rejects,
+ * the previous list is put back and the error is reported.
+ *
+ * @author Stellarx Team
+ * @version 2.1.0
+ */
+
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { SavedView, SavedViewsAdapter, SavedViewsConfig, SavedViewState } from './types';
+
+const DEFAULT_STORAGE_KEY = 'next-nice-datatable.views';
+
+export interface UseSavedViewsOptions {
+  config: SavedViewsConfig | undefined;
+  /** Current table state – what "Save view" stores */
+  state: SavedViewState;
+  applyState: (state: SavedViewState) => void;
+  /** Reported when the adapter fails to load without a message */
+  loadErrorMessage?: string;
+  /** Reported when the adapter fails to save without a message */
+  saveErrorMessage?: string;
+}
+
+export interface SavedViewsResult {
+  views: SavedView[];
+  activeView: SavedView | null;
+  /** Whether the table has changed since the active view was applied or saved */
+  isActiveViewModified: boolean;
+  loading: boolean;
+  error: string | null;
+  applyView: (viewId: string) => void;
+  /** Save the current state as a new view and make it active */
+  saveView: (name: string) => void;
+  /** Overwrite a view with the current state */
+  updateView: (viewId: string) => void;
+  renameView: (viewId: string, name: string) => void;
+  deleteView: (viewId: string) => void;
+  /** Mark a view as the default, or clear the default with null */
+  setDefaultView: (viewId: string | null) => void;
+}
+
+/** The built-in adapter: the whole list as JSON under one localStorage key. */
+function createLocalStorageAdapter(key: string): SavedViewsAdapter {
+  return {
+    load: () => {
+      if (typeof window === 'undefined') return [];
+      try {
+        const parsed = JSON.parse(window.localStorage.getItem(key) ?? '[]');
+        return Array.isArray(parsed) ? parsed : [];
+      } catch {
+        return [];
+      }
+    },
+    save: (views) => {
+      window.localStorage.setItem(key, JSON.stringify(views));
+    },
+  };
+}
+
+/** JSON with sorted object keys, so equal states compare equal whatever their key order. */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, item: unknown) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b)))
+      : item
+  );
+}
+
+function createViewId(): string {
+  return `view-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function useSavedViews({
+  config,
+  state,
+  applyState,
+  loadErrorMessage = 'Failed to load saved views',
+  saveErrorMessage = 'Failed to save views',
+}: UseSavedViewsOptions): SavedViewsResult {
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Latest list, so back-to-back changes each build on the one before
+  const viewsRef = useRef<SavedView[]>([]);
+  const applyStateRef = useRef(applyState);
+  applyStateRef.current = applyState;
+  const onViewChangeRef = useRef(config?.onViewChange);
+  onViewChangeRef.current = config?.onViewChange;
+  const errorMessagesRef = useRef({ load: loadErrorMessage, save: saveErrorMessage });
+  errorMessagesRef.current = { load: loadErrorMessage, save: saveErrorMessage };
+
+  const enabled = !!config;
+  const storageKey = config?.storageKey ?? DEFAULT_STORAGE_KEY;
+  const localAdapter = useMemo(() => createLocalStorageAdapter(storageKey), [storageKey]);
+  // A ref, so an adapter object created inline on every render does not reload the views
+  const adapterRef = useRef<SavedViewsAdapter>(localAdapter);
+  adapterRef.current = config?.adapter ?? localAdapter;
+  const hasCustomAdapter = !!config?.adapter;
+
+  // -------------------------------------------------------------------------
+  // LOAD – then apply the default view once
+  // -------------------------------------------------------------------------
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    Promise.resolve()
+      .then(() => adapterRef.current.load())
+      .then(
+        (loaded) => {
+          if (cancelled) return;
+          viewsRef.current = loaded;
+          setViews(loaded);
+          const defaultView = loaded.find(view => view.isDefault);
+          if (defaultView) {
+            applyStateRef.current(defaultView.state);
+            setActiveViewId(defaultView.id);
+            onViewChangeRef.current?.(defaultView);
+          }
+        },
+        (err: unknown) => {
+          if (!cancelled) setError(err instanceof Error ? err.message : errorMessagesRef.current.load);
+        }
+      )
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [enabled, hasCustomAdapter, localAdapter]);
+
+  // -------------------------------------------------------------------------
+  // CHANGES
+  // -------------------------------------------------------------------------
+
+  const commit = useCallback((next: SavedView[]) => {
+    const previous = viewsRef.current;
+    viewsRef.current = next;
+    setViews(next);
+    setError(null);
+    Promise.resolve()
+      .then(() => adapterRef.current.save(next))
+      .catch((err: unknown) => {
+        // Only roll back if nothing has changed the list since
+        if (viewsRef.current !== next) return;
+        viewsRef.current = previous;
+        setViews(previous);
+        setError(err instanceof Error ? err.message : errorMessagesRef.current.save);
+      });
+  }, []);
+
+  const applyView = useCallback((viewId: string) => {
+    const view = viewsRef.current.find(item => item.id === viewId);
+    if (!view) return;
+    applyStateRef.current(view.state);
+    setActiveViewId(view.id);
+    onViewChangeRef.current?.(view);
+  }, []);
+
+  const saveView = useCallback((name: string) => {
+    const now = new Date().toISOString();
+    const view: SavedView = { id: createViewId(), name, state, createdAt: now, updatedAt: now };
+    commit([...viewsRef.current, view]);
+    setActiveViewId(view.id);
+  }, [state, commit]);
+
+  const updateView = useCallback((viewId: string) => {
+    const now = new Date().toISOString();
+    commit(viewsRef.current.map(view => (view.id === viewId ? { ...view, state, updatedAt: now } : view)));
+  }, [state, commit]);
+
+  const renameView = useCallback((viewId: string, name: string) => {
+    const now = new Date().toISOString();
+    commit(viewsRef.current.map(view => (view.id === viewId ? { ...view, name, updatedAt: now } : view)));
+  }, [commit]);
+
+  const deleteView = useCallback((viewId: string) => {
+    commit(viewsRef.current.filter(view => view.id !== viewId));
+    if (viewId === activeViewId) {
+      setActiveViewId(null);
+      onViewChangeRef.current?.(null);
+    }
+  }, [activeViewId, commit]);
+
+  const setDefaultView = useCallback((viewId: string | null) => {
+    commit(viewsRef.current.map(view => {
+      const isDefault = view.id === viewId;
+      return !!view.isDefault === isDefault ? view : { ...view, isDefault };
+    }));
+  }, [commit]);
+
+  const activeView = views.find(view => view.id === activeViewId) ?? null;
+  const stateKey = useMemo(() => stableStringify(state), [state]);
+  const isActiveViewModified = !!activeView && stableStringify(activeView.state) !== stateKey;
+
+  return {
+    views,
+    activeView,
+    isActiveViewModified,
+    loading,
+    error,
+    applyView,
+    saveView,
+    updateView,
+    renameView,
+    deleteView,
+    setDefaultView,
+  };
+}
+
+export default useSavedViews;
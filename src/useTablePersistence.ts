@@ -0,0 +1,336 @@
+/**
+ * Next Nice DataTable - State Persistence Hook
+ * Saves table state to localStorage, sessionStorage or a custom adapter and
+ * restores it on mount. Page, sort and filters can also be mirrored into the
+ * URL query string, so a copied link opens the same view.
+ *
+ * State is restored in an effect rather than during render, so server-rendered
+ * markup matches the first client render. Nothing is saved until the restore
+ * has been applied.
+ *
+ * @author Stellarx Team
+ * @version 2.1.0
+ */
+
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import {
+  DataTableColumn,
+  FilterState,
+  PersistedStateKey,
+  PersistedTableState,
+  PersistenceConfig,
+  PersistenceStorageAdapter,
+  SortItem,
+  UrlSyncConfig,
+} from './types';
+
+/** Saved to storage when `include` is not set */
+const DEFAULT_PERSISTED_KEYS: PersistedStateKey[] = [
+  'rowsPerPage',
+  'sortModel',
+  'filters',
+  'hiddenColumns',
+  'density',
+  'columnOrder',
+  'columnWidths',
+  'pinnedColumns',
+];
+
+const DENSITIES = ['compact', 'normal', 'comfortable'];
+/** Joins column ids into the default version – ids may contain commas */
+const ID_SEPARATOR = '\u0000';
+
+interface StoredState {
+  version: string;
+  state: PersistedTableState;
+}
+
+export interface UseTablePersistenceOptions<T> {
+  config: PersistenceConfig | undefined;
+  columns: DataTableColumn<T>[];
+  /** Current state, in persisted form */
+  state: PersistedTableState;
+  /** Apply restored state; only keys that were restored are set */
+  restore: (state: PersistedTableState) => void;
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+function resolveStorage(storage: PersistenceConfig['storage']): PersistenceStorageAdapter | null {
+  if (storage && typeof storage === 'object') return storage;
+  if (typeof window === 'undefined') return null;
+  try {
+    return storage === 'sessionStorage' ? window.sessionStorage : window.localStorage;
+  } catch {
+    // Reading window.localStorage throws when the browser blocks storage
+    return null;
+  }
+}
+
+function isPromise<V>(value: unknown): value is Promise<V> {
+  return !!value && typeof (value as Promise<V>).then === 'function';
+}
+
+function parseStoredState(raw: string | null): StoredState | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as StoredState;
+    return parsed && typeof parsed === 'object' && parsed.state && typeof parsed.state === 'object' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function pickKeys(state: PersistedTableState, keys: PersistedStateKey[]): PersistedTableState {
+  const picked: Record<string, unknown> = {};
+  for (const key of keys) {
+    if (state[key] !== undefined) picked[key] = state[key];
+  }
+  return picked as PersistedTableState;
+}
+
+// ============================================================================
+// VALIDATION – saved state is untrusted and may predate the current columns
+// ============================================================================
+
+const isIdList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/** Drop malformed values and references to columns that no longer exist. */
+function sanitizeState(state: PersistedTableState, columnIds: Set<string>): PersistedTableState {
+  const clean: PersistedTableState = {};
+  const knownIds = (ids: string[]) => ids.filter(id => columnIds.has(id));
+
+  if (Number.isInteger(state.page) && (state.page as number) >= 0) clean.page = state.page;
+  if (Number.isInteger(state.rowsPerPage) && (state.rowsPerPage as number) > 0) clean.rowsPerPage = state.rowsPerPage;
+  if (Array.isArray(state.sortModel)) {
+    clean.sortModel = state.sortModel.filter((item): item is SortItem =>
+      !!item && columnIds.has(item.column) && (item.direction === 'asc' || item.direction === 'desc')
+    );
+  }
+  if (state.filters && typeof state.filters === 'object') {
+    clean.filters = Object.fromEntries(
+      Object.entries(state.filters).filter(([id, filter]) =>
+        columnIds.has(id) && !!filter && typeof filter === 'object' && typeof filter.operator === 'string'
+      )
+    ) as FilterState;
+  }
+  if (typeof state.clientFilterTerm === 'string') clean.clientFilterTerm = state.clientFilterTerm;
+  if (isIdList(state.hiddenColumns)) clean.hiddenColumns = knownIds(state.hiddenColumns);
+  if (typeof state.density === 'string' && DENSITIES.includes(state.density)) clean.density = state.density;
+  if (isIdList(state.columnOrder)) clean.columnOrder = knownIds(state.columnOrder);
+  if (state.columnWidths && typeof state.columnWidths === 'object') {
+    clean.columnWidths = Object.fromEntries(
+      Object.entries(state.columnWidths).filter(([id, width]) => columnIds.has(id) && typeof width === 'number' && width > 0)
+    );
+  }
+  if (state.pinnedColumns && isIdList(state.pinnedColumns.left) && isIdList(state.pinnedColumns.right)) {
+    clean.pinnedColumns = {
+      left: knownIds(state.pinnedColumns.left),
+      right: knownIds(state.pinnedColumns.right),
+    };
+  }
+  return clean;
+}
+
+// ============================================================================
+// URL SEARCH PARAMS – page (1-based), sort (`column:direction,…`), filters (JSON)
+// ============================================================================
+
+function getUrlSyncConfig(urlSync: PersistenceConfig['urlSync']): UrlSyncConfig | null {
+  if (!urlSync) return null;
+  return urlSync === true ? {} : urlSync;
+}
+
+/** The current search params: `urlSync.searchParams` when given, else the window's. */
+function readSearchParams(urlSync: UrlSyncConfig): URLSearchParams {
+  return urlSync.searchParams !== undefined
+    ? new URLSearchParams(urlSync.searchParams.toString())
+    : new URLSearchParams(window.location.search);
+}
+
+/**
+ * Read page, sort and filters from search params. With `withDefaults`,
+ * missing params mean "not set" (first page, no sort, no filters) instead of
+ * being left out.
+ */
+function readUrlState(params: URLSearchParams, prefix: string, withDefaults: boolean): PersistedTableState {
+  const state: PersistedTableState = withDefaults ? { page: 0, sortModel: [], filters: {} } : {};
+
+  const page = params.get(`${prefix}page`);
+  if (page !== null) state.page = Number(page) - 1;
+
+  const sort = params.get(`${prefix}sort`);
+  if (sort !== null) {
+    state.sortModel = sort.split(',').filter(Boolean).map(part => {
+      // Column ids may contain dots, so the direction follows the last colon
+      const separator = part.lastIndexOf(':');
+      return { column: part.slice(0, separator), direction: part.slice(separator + 1) as SortItem['direction'] };
+    });
+  }
+
+  const filters = params.get(`${prefix}filters`);
+  if (filters !== null) {
+    try {
+      state.filters = JSON.parse(filters) as FilterState;
+    } catch {
+      // A hand-edited or truncated link – keep the other params
+    }
+  }
+  return state;
+}
+
+function writeUrlState(params: URLSearchParams, prefix: string, state: PersistedTableState) {
+  const set = (name: string, value: string | null) => {
+    if (value === null) params.delete(`${prefix}${name}`);
+    else params.set(`${prefix}${name}`, value);
+  };
+  set('page', state.page ? String(state.page + 1) : null);
+  set('sort', state.sortModel?.length
+    ? state.sortModel.map(item => `${item.column}:${item.direction}`).join(',')
+    : null);
+  set('filters', state.filters && Object.keys(state.filters).length > 0 ? JSON.stringify(state.filters) : null);
+}
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+export function useTablePersistence<T>({
+  config,
+  columns,
+  state,
+  restore,
+}: UseTablePersistenceOptions<T>): void {
+  const [restored, setRestored] = useState(false);
+  // Last value written to (or read from) storage, to skip identical writes
+  const lastSavedRef = useRef<string | null>(null);
+  const restoreRef = useRef(restore);
+  restoreRef.current = restore;
+
+  const key = config?.key;
+  const urlSync = getUrlSyncConfig(config?.urlSync);
+  const prefix = urlSync?.prefix ?? '';
+  const include = config?.include ?? DEFAULT_PERSISTED_KEYS;
+  const includeKey = include.join(',');
+
+  const columnIdsKey = useMemo(() => columns.map(col => col.id).sort().join(ID_SEPARATOR), [columns]);
+  const version = String(config?.version ?? columnIdsKey);
+
+  // The effects below run when the storage key, version or state change, not
+  // on every new config object, so they read the rest from here
+  const latestRef = useRef({ config, urlSync, prefix, include, columnIdsKey });
+  latestRef.current = { config, urlSync, prefix, include, columnIdsKey };
+
+  const restoreFromUrl = useCallback(() => {
+    const { urlSync: currentUrlSync, prefix: currentPrefix, columnIdsKey: currentIds } = latestRef.current;
+    if (!currentUrlSync) return;
+    const urlState = readUrlState(readSearchParams(currentUrlSync), currentPrefix, true);
+    restoreRef.current(sanitizeState(urlState, new Set(currentIds.split(ID_SEPARATOR))));
+  }, []);
+
+  // -------------------------------------------------------------------------
+  // RESTORE – storage first, then the URL on top
+  // -------------------------------------------------------------------------
+
+  useEffect(() => {
+    const { config: currentConfig, urlSync: currentUrlSync, prefix: currentPrefix, include: currentInclude } = latestRef.current;
+    if (!currentConfig) return;
+    let cancelled = false;
+    const columnIds = new Set(latestRef.current.columnIdsKey.split(ID_SEPARATOR));
+    const storage = resolveStorage(currentConfig.storage);
+
+    const apply = (raw: string | null) => {
+      if (cancelled) return;
+      const stored = parseStoredState(raw);
+      let next = stored && String(stored.version) === version ? pickKeys(stored.state, currentInclude) : {};
+      if (currentUrlSync && typeof window !== 'undefined') {
+        next = { ...next, ...readUrlState(readSearchParams(currentUrlSync), currentPrefix, false) };
+      }
+      lastSavedRef.current = raw;
+      restoreRef.current(sanitizeState(next, columnIds));
+      setRestored(true);
+    };
+
+    setRestored(false);
+    let raw: string | null | Promise<string | null> = null;
+    try {
+      raw = storage?.getItem(currentConfig.key) ?? null;
+    } catch {
+      raw = null;
+    }
+    if (isPromise<string | null>(raw)) raw.then(apply, () => apply(null));
+    else apply(raw);
+
+    return () => { cancelled = true; };
+  }, [key, version]);
+
+  // -------------------------------------------------------------------------
+  // SAVE – after every change once restored
+  // -------------------------------------------------------------------------
+
+  const serializedState = JSON.stringify(state);
+
+  useEffect(() => {
+    const { config: currentConfig, urlSync: currentUrlSync, include: currentInclude } = latestRef.current;
+    if (!currentConfig || !restored) return;
+    const current = JSON.parse(serializedState) as PersistedTableState;
+
+    const storage = resolveStorage(currentConfig.storage);
+    const stored: StoredState = { version, state: pickKeys(current, currentInclude) };
+    const raw = JSON.stringify(stored);
+    if (storage && raw !== lastSavedRef.current) {
+      lastSavedRef.current = raw;
+      try {
+        const result = storage.setItem(currentConfig.key, raw);
+        if (isPromise<void>(result)) result.catch(() => undefined);
+      } catch {
+        // Quota exceeded or storage blocked – the table keeps working without it
+      }
+    }
+
+    if (!currentUrlSync || typeof window === 'undefined') return;
+    const currentParams = readSearchParams(currentUrlSync);
+    const params = new URLSearchParams(currentParams);
+    writeUrlState(params, prefix, current);
+    if (params.toString() === currentParams.toString()) return;
+    if (currentUrlSync.onChange) {
+      currentUrlSync.onChange(params);
+    } else {
+      const search = params.toString();
+      const url = `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`;
+      if (currentUrlSync.history === 'push') window.history.pushState(window.history.state, '', url);
+      else window.history.replaceState(window.history.state, '', url);
+    }
+  }, [restored, serializedState, version, includeKey, prefix]);
+
+  // -------------------------------------------------------------------------
+  // BACK / FORWARD – re-read the URL
+  // -------------------------------------------------------------------------
+
+  const urlSyncEnabled = !!urlSync;
+  const routerSearch = urlSync?.searchParams?.toString();
+  // Set by a popstate while `searchParams` come from a router
+  const poppedRef = useRef(false);
+
+  useEffect(() => {
+    if (!urlSyncEnabled || typeof window === 'undefined') return;
+    const handlePopState = () => {
+      // A router passes the new `searchParams` only on its next render
+      if (latestRef.current.urlSync?.searchParams !== undefined) poppedRef.current = true;
+      else restoreFromUrl();
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [urlSyncEnabled, restoreFromUrl]);
+
+  useEffect(() => {
+    if (!poppedRef.current) return;
+    poppedRef.current = false;
+    restoreFromUrl();
+  }, [routerSearch, restoreFromUrl]);
+}
+
+export default useTablePersistence;
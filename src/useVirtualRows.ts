@@ -0,0 +1,164 @@
+/**
+ * Next Nice DataTable - Row Virtualization Hook
+ * Computes which rows of a long list intersect the scroll viewport so the
+ * table body only mounts those rows plus a small overscan.
+ *
+ * Rows start at an estimated height (per density) and are re-measured once
+ * rendered, so rows taller than the estimate (wrapped text, chips, …) still
+ * get correct offsets. Measurements are kept by row key, so they follow their
+ * rows through sorting, filtering and paging.
+ *
+ * @author Stellarx Team
+ * @version 2.1.0
+ */
+
+import { useState, useCallback, useMemo, useEffect, useRef, RefObject } from 'react';
+
+export interface UseVirtualRowsOptions {
+  /** Total number of rows in the list */
+  count: number;
+  /** Height used for rows that have not been measured yet */
+  estimateRowHeight: number;
+  /** Extra rows rendered above and below the viewport */
+  overscan?: number;
+  enabled: boolean;
+  /** The scrolling element (the TableContainer) */
+  containerRef: RefObject<HTMLElement>;
+  /** Stable key of the row at an index (default: the index) */
+  getItemKey?: (index: number) => string;
+}
+
+export interface VirtualRowsResult {
+  /** First row index to render (inclusive) */
+  startIndex: number;
+  /** Last row index to render (exclusive) */
+  endIndex: number;
+  /** Height of the spacer above the rendered rows */
+  paddingTop: number;
+  /** Height of the spacer below the rendered rows */
+  paddingBottom: number;
+  /** Ref callback factory – attach to each rendered row to record its real height */
+  measureRow: (index: number) => (el: HTMLElement | null) => void;
+  /** Scroll the container so the given row is in view */
+  scrollToIndex: (index: number) => void;
+}
+
+/** Index of the last offset that is <= target (offsets is ascending). */
+function findIndexForOffset(offsets: Float64Array, target: number): number {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsets[mid] <= target) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
+
+export function useVirtualRows({
+  count,
+  estimateRowHeight,
+  overscan = 10,
+  enabled,
+  containerRef,
+  getItemKey = String,
+}: UseVirtualRowsOptions): VirtualRowsResult {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  // Measured row heights by row key; heightsRef collects them between renders
+  const [measuredHeights, setMeasuredHeights] = useState<ReadonlyMap<string, number>>(() => new Map());
+  const heightsRef = useRef<Map<string, number>>(new Map());
+  const frameRef = useRef<number | null>(null);
+  // Row refs are attached during commit, with the keys of the render being committed
+  const getItemKeyRef = useRef(getItemKey);
+  getItemKeyRef.current = getItemKey;
+
+  // Measured heights are only valid for the density they were taken at
+  useEffect(() => {
+    heightsRef.current.clear();
+    setMeasuredHeights(new Map());
+  }, [estimateRowHeight]);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!enabled || !el) return;
+
+    const handleScroll = () => setScrollTop(el.scrollTop);
+    setScrollTop(el.scrollTop);
+    setViewportHeight(el.clientHeight);
+    el.addEventListener('scroll', handleScroll, { passive: true });
+
+    let observer: ResizeObserver | null = null;
+    if (typeof ResizeObserver !== 'undefined') {
+      observer = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+      observer.observe(el);
+    }
+
+    return () => {
+      el.removeEventListener('scroll', handleScroll);
+      observer?.disconnect();
+    };
+  }, [enabled, containerRef]);
+
+  useEffect(() => {
+    return () => {
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    };
+  }, []);
+
+  // offsets[i] = top of row i; offsets[count] = total height
+  const offsets = useMemo(() => {
+    const result = new Float64Array(count + 1);
+    for (let i = 0; i < count; i++) {
+      result[i + 1] = result[i] + (measuredHeights.get(getItemKey(i)) ?? estimateRowHeight);
+    }
+    return result;
+  }, [count, estimateRowHeight, measuredHeights, getItemKey]);
+
+  const measureRow = useCallback((index: number) => (el: HTMLElement | null) => {
+    if (!el) return;
+    // An expanded detail panel is rendered as the next row and belongs to this one
+    const next = el.nextElementSibling;
+    const height = el.offsetHeight
+      + (next instanceof HTMLElement && next.hasAttribute('data-detail-panel') ? next.offsetHeight : 0);
+    const key = getItemKeyRef.current(index);
+    if (height === 0 || heightsRef.current.get(key) === height) return;
+    heightsRef.current.set(key, height);
+    // Batch measurements from one commit into a single re-render
+    if (frameRef.current === null) {
+      frameRef.current = requestAnimationFrame(() => {
+        frameRef.current = null;
+        setMeasuredHeights(new Map(heightsRef.current));
+      });
+    }
+  }, []);
+
+  const scrollToIndex = useCallback((index: number) => {
+    const el = containerRef.current;
+    if (!el || index < 0 || index >= count) return;
+    const top = offsets[index];
+    const bottom = offsets[index + 1];
+    if (top < el.scrollTop) el.scrollTop = top;
+    else if (bottom > el.scrollTop + el.clientHeight) el.scrollTop = bottom - el.clientHeight;
+  }, [containerRef, count, offsets]);
+
+  if (!enabled) {
+    return { startIndex: 0, endIndex: count, paddingTop: 0, paddingBottom: 0, measureRow, scrollToIndex };
+  }
+
+  const firstVisible = findIndexForOffset(offsets, scrollTop);
+  const lastVisible = findIndexForOffset(offsets, scrollTop + (viewportHeight || estimateRowHeight * 20));
+  const startIndex = Math.max(0, Math.min(firstVisible, count) - overscan);
+  const endIndex = Math.min(count, lastVisible + 1 + overscan);
+
+  return {
+    startIndex,
+    endIndex,
+    paddingTop: offsets[startIndex],
+    paddingBottom: offsets[count] - offsets[endIndex],
+    measureRow,
+    scrollToIndex,
+  };
+}
+
+export default useVirtualRows;